@@ -0,0 +1,85 @@
+/**
+ * Service Worker - Caches the app shell so the installed app opens offline
+ * and shows the reminders the page schedules
+ * Supabase traffic is cross-origin and always goes to the network
+ */
+
+const CACHE = "goalgame-shell-v3";
+const SHELL = ["/", "/manifest.webmanifest", "/icons/icon-192.png", "/icons/icon-512.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Only our own successful responses; an error page or an opaque redirect must never become the shell
+function isCacheable(response) {
+  return response.ok && response.type === "basic";
+}
+
+function fetchAndCache(request) {
+  return fetch(request).then((response) => {
+    if (isCacheable(response)) {
+      const copy = response.clone();
+      caches.open(CACHE).then((cache) => cache.put(request, copy));
+    }
+    return response;
+  });
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Pages: network first so deploys show up, falling back to the cached shell
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (isCacheable(response)) {
+            const copy = response.clone();
+            caches.open(CACHE).then((cache) => cache.put("/", copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match("/"))
+    );
+    return;
+  }
+
+  // Hashed build assets never change, so the cache can answer first
+  if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(caches.match(request).then((cached) => cached || fetchAndCache(request)));
+    return;
+  }
+
+  // Anything else (manifest, icons) keeps its name across deploys: network first, cache when offline
+  event.respondWith(fetchAndCache(request).catch(() => caches.match(request)));
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const target = (event.notification.data && event.notification.data.url) || "/dashboard";
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => new URL(client.url).pathname === target);
+      if (open) return open.focus();
+      return self.clients.openWindow(target);
+    })
+  );
+});
@@ -8,6 +8,12 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Settings from "./pages/Settings";
+import RoundHistory from "./pages/RoundHistory";
+import Stats from "./pages/Stats";
+import Calendar from "./pages/Calendar";
+import Locker from "./pages/Locker";
+import Trophies from "./pages/Trophies";
+import Friends from "./pages/Friends";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,6 +30,12 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/settings" element={<Settings />} />
+            <Route path="/rounds" element={<RoundHistory />} />
+            <Route path="/stats" element={<Stats />} />
+            <Route path="/calendar" element={<Calendar />} />
+            <Route path="/locker" element={<Locker />} />
+            <Route path="/trophies" element={<Trophies />} />
+            <Route path="/friends" element={<Friends />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
@@ -0,0 +1,53 @@
+/**
+ * AchievementCard - One trophy case entry: unlocked with its date, or locked with progress toward it
+ */
+
+import { format, parseISO } from "date-fns";
+import { Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Progress } from "@/components/ui/progress";
+import { Achievement } from "@/config/game";
+
+interface AchievementCardProps {
+  achievement: Achievement;
+  unlockedAt?: string;
+  progress: number; // current value of the rule's metric
+}
+
+export function AchievementCard({ achievement, unlockedAt, progress }: AchievementCardProps) {
+  const { target } = achievement.rule;
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-4 p-4 rounded-xl border-2 bg-card/80",
+        unlockedAt ? "border-primary/60 shadow-lg shadow-primary/10" : "border-border"
+      )}
+    >
+      <div
+        className={cn(
+          "relative w-14 h-14 shrink-0 rounded-full flex items-center justify-center text-3xl",
+          unlockedAt ? "bg-primary/15" : "bg-muted grayscale opacity-60"
+        )}
+      >
+        {achievement.emoji}
+        {!unlockedAt && <Lock className="absolute -bottom-1 -right-1 w-5 h-5 p-1 rounded-full bg-muted-foreground text-background" />}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="font-display font-bold">{achievement.name}</p>
+        <p className="text-sm text-muted-foreground">{achievement.description}</p>
+        {unlockedAt ? (
+          <p className="text-xs text-primary">Unlocked {format(parseISO(unlockedAt), "MMM d, yyyy")}</p>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Progress value={(Math.min(progress, target) / target) * 100} className="h-2" />
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {Math.min(progress, target)}/{target}
+            </span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
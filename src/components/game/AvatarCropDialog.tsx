@@ -0,0 +1,128 @@
+/**
+ * AvatarCropDialog - Position and zoom an uploaded picture inside the avatar circle
+ * Drag to move, use the slider to zoom; the square behind the circle is what gets saved
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { ZoomIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AVATAR_UPLOAD_SIZE } from "@/config/game";
+import { AvatarCrop, getCropRect, initialCrop, renderAvatar } from "@/lib/avatar";
+
+interface AvatarCropDialogProps {
+  image: HTMLImageElement | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (avatar: Blob) => Promise<void>;
+}
+
+const VIEWPORT = 224; // preview size in CSS pixels
+const MAX_ZOOM = 3;
+
+export function AvatarCropDialog({ image, onOpenChange, onSave }: AvatarCropDialogProps) {
+  const [crop, setCrop] = useState<AvatarCrop>({ zoom: 1, centerX: 0, centerY: 0 });
+  const [saving, setSaving] = useState(false);
+  const dragFrom = useRef<{ x: number; y: number } | null>(null);
+
+  // Each new picture starts centred and zoomed out
+  useEffect(() => {
+    if (image) setCrop(initialCrop(image.naturalWidth, image.naturalHeight));
+  }, [image]);
+
+  if (!image) return null;
+
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const rect = getCropRect(width, height, crop);
+  const scale = VIEWPORT / rect.size;
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragFrom.current) return;
+    const dx = (e.clientX - dragFrom.current.x) / scale;
+    const dy = (e.clientY - dragFrom.current.y) / scale;
+    dragFrom.current = { x: e.clientX, y: e.clientY };
+
+    // Start from the clamped square so dragging past an edge doesn't build up slack
+    setCrop((prev) => {
+      const current = getCropRect(width, height, prev);
+      return {
+        ...prev,
+        centerX: current.x + current.size / 2 - dx,
+        centerY: current.y + current.size / 2 - dy,
+      };
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(await renderAvatar(image, crop, AVATAR_UPLOAD_SIZE));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !saving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-sm bg-card border-border/50">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Crop Your Picture</DialogTitle>
+          <DialogDescription>Drag to position it, then zoom until it looks right.</DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="relative mx-auto rounded-full overflow-hidden border-2 border-primary cursor-grab active:cursor-grabbing touch-none select-none bg-muted"
+          style={{ width: VIEWPORT, height: VIEWPORT }}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            dragFrom.current = { x: e.clientX, y: e.clientY };
+          }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => (dragFrom.current = null)}
+          onPointerCancel={() => (dragFrom.current = null)}
+        >
+          <img
+            src={image.src}
+            alt="Avatar preview"
+            draggable={false}
+            className="absolute top-0 left-0 max-w-none pointer-events-none"
+            style={{
+              width: width * scale,
+              height: height * scale,
+              transform: `translate(${-rect.x * scale}px, ${-rect.y * scale}px)`,
+            }}
+          />
+        </div>
+
+        <div className="flex items-center gap-3">
+          <ZoomIn className="w-4 h-4 text-muted-foreground" />
+          <Slider
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={[crop.zoom]}
+            onValueChange={([zoom]) => setCrop((prev) => ({ ...prev, zoom }))}
+            aria-label="Zoom"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Uploading..." : "Save Picture"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * AvatarUpload - Use your own picture in place of the bundled character
+ * Changes save straight away; the chosen character stays as the fallback
+ */
+
+import { useRef, useState } from "react";
+import { ImagePlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useRemoveAvatar, useUploadAvatar } from "@/hooks/useAvatar";
+import { AvatarType, MAX_AVATAR_FILE_MB } from "@/config/game";
+import { loadImageFile } from "@/lib/avatar";
+import { PlayerAvatar } from "./PlayerAvatar";
+import { AvatarCropDialog } from "./AvatarCropDialog";
+
+interface AvatarUploadProps {
+  userId: string;
+  avatarUrl: string | null;
+  avatarType: AvatarType;
+}
+
+export function AvatarUpload({ userId, avatarUrl, avatarType }: AvatarUploadProps) {
+  const { toast } = useToast();
+  const uploadAvatar = useUploadAvatar(userId);
+  const removeAvatar = useRemoveAvatar(userId);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  const closeCrop = () => {
+    if (image) URL.revokeObjectURL(image.src);
+    setImage(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast({ title: "Error", description: "Choose an image file", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_AVATAR_FILE_MB * 1024 * 1024) {
+      toast({ title: "Error", description: `Images must be under ${MAX_AVATAR_FILE_MB} MB`, variant: "destructive" });
+      return;
+    }
+
+    try {
+      setImage(await loadImageFile(file));
+    } catch {
+      toast({ title: "Error", description: "Could not read that image", variant: "destructive" });
+    }
+  };
+
+  const handleSave = async (avatar: Blob) => {
+    try {
+      await uploadAvatar.mutateAsync(avatar);
+      closeCrop();
+      toast({ title: "Picture Updated", description: "Your new avatar is in the game" });
+    } catch {
+      toast({ title: "Error", description: "Failed to upload your picture", variant: "destructive" });
+    }
+  };
+
+  const handleRemove = () => {
+    removeAvatar.mutate(undefined, {
+      onError: () => toast({ title: "Error", description: "Failed to remove your picture", variant: "destructive" }),
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      <PlayerAvatar
+        avatarUrl={avatarUrl}
+        avatarType={avatarType}
+        alt="Your avatar"
+        className="w-16 h-16 rounded-full border-2 border-primary/50"
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={uploadAvatar.isPending}>
+          <ImagePlus className="w-4 h-4" />
+          {avatarUrl ? "Change Picture" : "Upload Picture"}
+        </Button>
+        {avatarUrl && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-muted-foreground hover:text-destructive"
+            onClick={handleRemove}
+            disabled={removeAvatar.isPending}
+          >
+            <Trash2 className="w-4 h-4" />
+            Remove
+          </Button>
+        )}
+      </div>
+
+      <input
+        ref={fileInput}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = ""; // picking the same file again should still open the cropper
+        }}
+      />
+
+      <AvatarCropDialog image={image} onOpenChange={(open) => !open && closeCrop()} onSave={handleSave} />
+    </div>
+  );
+}
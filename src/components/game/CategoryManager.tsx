@@ -0,0 +1,146 @@
+/**
+ * CategoryManager - Rename, recolour and delete goal categories
+ * Changes save straight away; deleting a category leaves its goals uncategorised
+ */
+
+import { useState } from "react";
+import { Check, Folder, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import {
+  describeCategoryError,
+  useCategories,
+  useCreateCategory,
+  useDeleteCategory,
+  useUpdateCategory,
+} from "@/hooks/useCategories";
+import { CATEGORY_COLORS, GoalCategory } from "@/config/game";
+import { CategoryColorPicker } from "./CategoryPicker";
+
+interface CategoryManagerProps {
+  userId: string;
+}
+
+export function CategoryManager({ userId }: CategoryManagerProps) {
+  const { toast } = useToast();
+  const { data: categories = [] } = useCategories(userId);
+  const createCategory = useCreateCategory(userId);
+  const updateCategory = useUpdateCategory(userId);
+  const deleteCategory = useDeleteCategory(userId);
+  const [editing, setEditing] = useState<GoalCategory | null>(null);
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<string>(CATEGORY_COLORS[0]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      await createCategory.mutateAsync({ name: newName, color: newColor });
+      setNewName("");
+    } catch (error) {
+      toast({ title: "Error", description: describeCategoryError(error, newName), variant: "destructive" });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing || !editing.name.trim()) return;
+
+    try {
+      await updateCategory.mutateAsync({ id: editing.id, name: editing.name, color: editing.color });
+      setEditing(null);
+    } catch (error) {
+      toast({ title: "Error", description: describeCategoryError(error, editing.name), variant: "destructive" });
+    }
+  };
+
+  const handleDelete = (category: GoalCategory) => {
+    deleteCategory.mutate(category.id, {
+      onSuccess: () => toast({ title: "Category deleted", description: `Goals in ${category.name} are now uncategorized.` }),
+      onError: () => toast({ title: "Error", description: "Failed to delete category", variant: "destructive" }),
+    });
+  };
+
+  return (
+    <Card className="bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Folder className="w-5 h-5 text-primary" />
+          Categories
+        </CardTitle>
+        <CardDescription>Group goals by area of life and filter your list by them</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {categories.length === 0 && (
+          <p className="text-sm text-muted-foreground">No categories yet. Add one below or while creating a goal.</p>
+        )}
+
+        <div className="space-y-2">
+          {categories.map((category) =>
+            editing?.id === category.id ? (
+              <div key={category.id} className="space-y-2 p-3 rounded-lg bg-muted/30">
+                <div className="flex gap-2">
+                  <Input
+                    value={editing.name}
+                    maxLength={40}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    aria-label="Category name"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="icon" onClick={handleSave} disabled={!editing.name.trim()} aria-label="Save">
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(null)} aria-label="Cancel">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+                <CategoryColorPicker value={editing.color} onChange={(color) => setEditing({ ...editing, color })} />
+              </div>
+            ) : (
+              <div key={category.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/30">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: category.color }} />
+                <span className="flex-1 text-sm truncate">{category.name}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-primary"
+                  onClick={() => setEditing(category)}
+                  aria-label={`Edit ${category.name}`}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(category)}
+                  aria-label={`Delete ${category.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )
+          )}
+        </div>
+
+        <form onSubmit={handleCreate} className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder="New category"
+              value={newName}
+              maxLength={40}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={!newName.trim() || createCategory.isPending}>
+              <Plus className="w-4 h-4" />
+              Add
+            </Button>
+          </div>
+          <CategoryColorPicker value={newColor} onChange={setNewColor} />
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
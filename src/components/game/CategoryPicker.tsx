@@ -0,0 +1,156 @@
+/**
+ * CategoryPicker - Choose a goal's category or create one on the spot
+ * A user without categories is offered Work, Health and Learning to start with
+ */
+
+import { useState } from "react";
+import { Check, Folder, Plus, X } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { describeCategoryError, useCategories, useCreateCategory } from "@/hooks/useCategories";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CATEGORY_COLORS, GoalCategory, SUGGESTED_CATEGORIES } from "@/config/game";
+
+const NO_CATEGORY = "__none";
+
+interface CategoryColorPickerProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+export function CategoryColorPicker({ value, onChange }: CategoryColorPickerProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Colour">
+      {CATEGORY_COLORS.map((color) => (
+        <button
+          key={color}
+          type="button"
+          role="radio"
+          aria-checked={value === color}
+          aria-label={color}
+          onClick={() => onChange(color)}
+          className={`w-6 h-6 rounded-full flex items-center justify-center transition-transform ${
+            value === color ? "ring-2 ring-offset-2 ring-offset-background ring-foreground/60 scale-110" : "hover:scale-110"
+          }`}
+          style={{ backgroundColor: color }}
+        >
+          {value === color && <Check className="w-3 h-3 text-background" />}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface CategoryPickerProps {
+  id: string;
+  value: string | null;
+  onChange: (categoryId: string | null) => void;
+}
+
+export function CategoryPicker({ id, value, onChange }: CategoryPickerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { data: categories = [] } = useCategories(user?.id);
+  const createCategory = useCreateCategory(user?.id);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<string>(CATEGORY_COLORS[0]);
+
+  const create = async (category: { name: string; color: string }) => {
+    try {
+      const created: GoalCategory = await createCategory.mutateAsync(category);
+      onChange(created.id);
+      setCreating(false);
+      setName("");
+    } catch (error) {
+      toast({ title: "Error", description: describeCategoryError(error, category.name), variant: "destructive" });
+    }
+  };
+
+  const handleAdd = () => {
+    if (!name.trim() || createCategory.isPending) return;
+    create({ name, color });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="flex items-center gap-2">
+        <Folder className="w-4 h-4" />
+        Category (Optional)
+      </Label>
+      <div className="flex gap-2">
+        <Select value={value ?? NO_CATEGORY} onValueChange={(next) => onChange(next === NO_CATEGORY ? null : next)}>
+          <SelectTrigger id={id} className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+            {categories.map((category) => (
+              <SelectItem key={category.id} value={category.id}>
+                <span className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: category.color }} />
+                  {category.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => setCreating((prev) => !prev)}
+          aria-label={creating ? "Cancel new category" : "New category"}
+        >
+          {creating ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      {categories.length === 0 && !creating && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <span>Start with:</span>
+          {SUGGESTED_CATEGORIES.map((suggestion) => (
+            <button
+              key={suggestion.name}
+              type="button"
+              onClick={() => create(suggestion)}
+              disabled={createCategory.isPending}
+              className="flex items-center gap-1.5 px-2 py-1 rounded-full border border-border hover:border-primary/50 transition-colors"
+            >
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: suggestion.color }} />
+              {suggestion.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {creating && (
+        <div className="space-y-2 p-3 rounded-lg bg-muted/30">
+          {/* Sits inside the goal form, so Enter adds the category instead of submitting the goal */}
+          <div className="flex gap-2">
+            <Input
+              placeholder="Category name"
+              value={name}
+              maxLength={40}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAdd();
+                }
+              }}
+              autoFocus
+            />
+            <Button type="button" variant="secondary" onClick={handleAdd} disabled={!name.trim() || createCategory.isPending}>
+              Add
+            </Button>
+          </div>
+          <CategoryColorPicker value={color} onChange={setColor} />
+        </div>
+      )}
+    </div>
+  );
+}
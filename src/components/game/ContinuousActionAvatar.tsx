@@ -4,8 +4,10 @@
  */
 
 import { motion } from "framer-motion";
-import { ThemeType } from "@/config/game";
+import { AvatarType, EquippedCosmetics, ThemeType } from "@/config/game";
+import { getThemePack } from "@/themes";
 import { IntensityLevel } from "@/hooks/useGameLoop";
+import { PlayerAvatar } from "./PlayerAvatar";
 
 interface ContinuousActionAvatarProps {
   theme: ThemeType;
@@ -18,50 +20,11 @@ interface ContinuousActionAvatarProps {
   intensity: IntensityLevel;
   pulse: number;
   beatCount: number;
+  avatarUrl?: string | null; // the user's uploaded picture, shown as a badge on their character
+  avatarType?: AvatarType;
+  cosmetics?: EquippedCosmetics; // the user wears the hat and trail; the AI gets the sprite skin
 }
 
-// Theme-specific animation configurations - continuous motion
-const THEME_ANIMATIONS: Record<ThemeType, {
-  idle: { y: number[]; x: number[]; rotate: number[]; scale: number[] };
-  active: { y: number[]; x: number[]; rotate: number[]; scale: number[] };
-  winning: { y: number[]; x: number[]; rotate: number[]; scale: number[] };
-  losing: { y: number[]; x: number[]; rotate: number[]; scale: number[] };
-  baseDuration: number;
-}> = {
-  forest: {
-    // Running - bouncy forward motion (Temple Run style)
-    idle: { y: [0, -8, 0], x: [0, 2, 0], rotate: [0, 2, 0], scale: [1, 1.02, 1] },
-    active: { y: [0, -18, -5, -20, 0], x: [0, 5, -2, 6, 0], rotate: [0, 5, -3, 6, 0], scale: [1, 1.05, 0.98, 1.06, 1] },
-    winning: { y: [0, -25, -8, -28, 0], x: [8, 15, 10, 18, 8], rotate: [0, 8, -4, 10, 0], scale: [1, 1.1, 1, 1.12, 1] },
-    losing: { y: [0, -10, -3, -12, 0], x: [-8, -5, -10, -3, -8], rotate: [-3, 0, -5, 2, -3], scale: [0.95, 0.98, 0.93, 0.97, 0.95] },
-    baseDuration: 0.35,
-  },
-  coding: {
-    // Typing/hacking - rapid keyboard motion
-    idle: { y: [0, -3, 0], x: [0, 1, 0], rotate: [0, 1, 0], scale: [1, 1.01, 1] },
-    active: { y: [0, -4, -2, -5, -3, 0], x: [0, 3, -2, 4, -1, 0], rotate: [0, 2, -1, 3, -2, 0], scale: [1, 1.02, 1, 1.03, 1.01, 1] },
-    winning: { y: [0, -6, -3, -7, -4, 0], x: [4, 8, 5, 10, 6, 4], rotate: [0, 4, -2, 5, -3, 0], scale: [1, 1.05, 1.02, 1.06, 1.03, 1] },
-    losing: { y: [0, -3, -1, -4, -2, 0], x: [-4, -2, -5, -1, -3, -4], rotate: [-2, 0, -3, 1, -2, -2], scale: [0.98, 1, 0.97, 0.99, 0.98, 0.98] },
-    baseDuration: 0.18,
-  },
-  ninja: {
-    // Fighting - attack/block/dodge sequence
-    idle: { y: [0, -6, 0], x: [0, 4, 0], rotate: [0, 3, 0], scale: [1, 1.03, 1] },
-    active: { y: [0, -15, 8, -20, 5, 0], x: [0, 20, -12, 25, -8, 0], rotate: [0, 8, -10, 12, -6, 0], scale: [1, 1.08, 0.95, 1.1, 0.97, 1] },
-    winning: { y: [0, -20, 12, -25, 8, 0], x: [15, 35, 10, 40, 20, 15], rotate: [0, 12, -15, 18, -8, 0], scale: [1, 1.15, 0.95, 1.18, 1, 1] },
-    losing: { y: [0, -8, 3, -10, 2, 0], x: [-15, -10, -20, -8, -18, -15], rotate: [-8, -4, -12, -2, -10, -8], scale: [0.9, 0.95, 0.88, 0.93, 0.9, 0.9] },
-    baseDuration: 0.5,
-  },
-  agent: {
-    // Tactical - precise, calculated movements
-    idle: { y: [0, -4, 0], x: [0, 3, 0], rotate: [0, 2, 0], scale: [1, 1.02, 1] },
-    active: { y: [0, -8, -12, -6, 0], x: [0, 8, -5, 10, 0], rotate: [0, 4, -5, 6, 0], scale: [1, 1.04, 1.02, 1.05, 1] },
-    winning: { y: [0, -12, -18, -10, 0], x: [8, 18, 12, 22, 8], rotate: [0, 6, -8, 10, 0], scale: [1, 1.08, 1.05, 1.1, 1] },
-    losing: { y: [0, -5, -8, -4, 0], x: [-8, -5, -12, -3, -8], rotate: [-4, -2, -6, 0, -4], scale: [0.95, 0.98, 0.93, 0.96, 0.95] },
-    baseDuration: 0.45,
-  },
-};
-
 // Intensity speed multipliers
 const INTENSITY_SPEEDS: Record<IntensityLevel, number> = {
   low: 1,
@@ -81,8 +44,12 @@ export function ContinuousActionAvatar({
   intensity,
   pulse,
   beatCount,
+  avatarUrl,
+  avatarType,
+  cosmetics = {},
 }: ContinuousActionAvatarProps) {
-  const config = THEME_ANIMATIONS[theme];
+  const config = getThemePack(theme).motion;
+  const { hat, trail } = cosmetics;
   const speedMultiplier = INTENSITY_SPEEDS[intensity];
   
   // Select animation state - NEVER truly idle
@@ -115,15 +82,8 @@ export function ContinuousActionAvatar({
   // Action indicator based on theme and beat
   const getActionIndicator = () => {
     if (!isActive) return null;
-    
-    const indicators: Record<ThemeType, string[]> = {
-      forest: ["💨", "🏃", "💪", "⚡"],
-      coding: ["⌨️", "💻", "⚡", "🔥"],
-      ninja: ["⚔️", "🥷", "💥", "🔥"],
-      agent: ["🎯", "🔫", "💣", "⚡"],
-    };
-    
-    return indicators[theme][beatCount % indicators[theme].length];
+
+    return config.indicators[beatCount % config.indicators.length];
   };
 
   return (
@@ -211,24 +171,62 @@ export function ContinuousActionAvatar({
         </>
       )}
 
-      {/* Character sprite with continuous animation */}
-      <motion.img
-        src={sprite}
-        alt={isUser ? "You" : "AI"}
-        className={`w-28 h-28 md:w-36 md:h-36 object-contain drop-shadow-2xl transition-all ${
-          isWinning ? "brightness-110 saturate-110" : isLosing ? "brightness-90 saturate-90" : ""
-        }`}
-        style={{
-          boxShadow: getGlowStyle(),
-          filter: isWinning ? "drop-shadow(0 0 10px hsl(var(--primary) / 0.5))" : undefined,
-        }}
+      {/* Cosmetic trail drifting off behind the user */}
+      {isUser && isActive && trail && (
+        <div className="absolute top-1/2 -translate-y-1/2 left-0 pointer-events-none">
+          {[0, 1, 2].map((i) => (
+            <motion.span
+              key={i}
+              className="absolute text-xl"
+              initial={{ x: 0, opacity: 0 }}
+              animate={{ x: [0, -70], y: [0, i % 2 ? -10 : 10], opacity: [0, 0.9, 0], scale: [1, 0.6] }}
+              transition={{ repeat: Infinity, duration: 1.2 / speedMultiplier, delay: i * 0.4, ease: "easeOut" }}
+            >
+              {trail.emoji}
+            </motion.span>
+          ))}
+        </div>
+      )}
+
+      {/* Character sprite with continuous animation; cosmetics ride along as layers */}
+      <motion.div
+        className="relative"
         animate={animState}
         transition={{
           repeat: Infinity,
           duration: duration,
           ease: "easeInOut",
         }}
-      />
+      >
+        <img
+          src={sprite}
+          alt={isUser ? "You" : "AI"}
+          className={`w-28 h-28 md:w-36 md:h-36 object-contain drop-shadow-2xl transition-all ${
+            isWinning ? "brightness-110 saturate-110" : isLosing ? "brightness-90 saturate-90" : ""
+          }`}
+          style={{
+            boxShadow: getGlowStyle(),
+            filter: [
+              !isUser && cosmetics.aiSprite?.filter,
+              isWinning && "drop-shadow(0 0 10px hsl(var(--primary) / 0.5))",
+            ].filter(Boolean).join(" ") || undefined,
+          }}
+        />
+        {isUser && hat && (
+          <span className="absolute -top-5 left-1/2 -translate-x-1/2 text-4xl md:text-5xl drop-shadow-lg pointer-events-none">
+            {hat.emoji}
+          </span>
+        )}
+      </motion.div>
+
+      {/* Player portrait - the sprite acts out the theme, the badge says whose it is */}
+      {isUser && (avatarUrl || avatarType) && (
+        <PlayerAvatar
+          avatarUrl={avatarUrl}
+          avatarType={avatarType}
+          className="absolute top-0 -left-2 w-9 h-9 rounded-full border-2 border-primary shadow-lg"
+        />
+      )}
 
       {/* Player label */}
       <motion.div
@@ -261,10 +259,10 @@ export function ContinuousActionAvatar({
         </motion.div>
       )}
 
-      {/* Winning crown/indicator */}
+      {/* Winning crown/indicator - lifted clear of a worn hat */}
       {isWinning && (
         <motion.div
-          className="absolute -top-4 left-1/2 -translate-x-1/2 text-lg"
+          className={`absolute ${isUser && hat ? "-top-12" : "-top-4"} left-1/2 -translate-x-1/2 text-lg`}
           animate={{
             y: [0, -5, 0],
             rotate: [-5, 5, -5],
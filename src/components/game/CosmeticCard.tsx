@@ -0,0 +1,97 @@
+/**
+ * CosmeticCard - One Locker item with a preview and its buy or equip button
+ */
+
+import { motion } from "framer-motion";
+import { Check, Coins } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { CosmeticItem } from "@/config/game";
+
+interface CosmeticCardProps {
+  item: CosmeticItem;
+  owned: boolean;
+  equipped: boolean;
+  affordable: boolean;
+  busy: boolean;
+  userSprite: string; // previews dances on the player's own character
+  aiSprite: string; // previews skins on the current theme's opponent
+  onBuy: () => void;
+  onToggleEquipped: () => void;
+}
+
+function CosmeticPreview({ item, userSprite, aiSprite }: Pick<CosmeticCardProps, "item" | "userSprite" | "aiSprite">) {
+  switch (item.slot) {
+    case "dance":
+      return (
+        <motion.img
+          src={userSprite}
+          alt=""
+          className="w-16 h-16 object-contain"
+          animate={item.dance}
+          transition={{ duration: 1.5, repeat: Infinity, ease: "easeInOut" }}
+        />
+      );
+    case "aiSprite":
+      return <img src={aiSprite} alt="" className="w-16 h-16 object-contain" style={{ filter: item.filter }} />;
+    case "trail":
+      return (
+        <div className="flex items-center gap-1">
+          {[0.3, 0.6, 1].map((opacity) => (
+            <span key={opacity} className="text-2xl" style={{ opacity }}>
+              {item.emoji}
+            </span>
+          ))}
+        </div>
+      );
+    default:
+      return <span className="text-5xl">{item.emoji}</span>;
+  }
+}
+
+export function CosmeticCard({
+  item,
+  owned,
+  equipped,
+  affordable,
+  busy,
+  userSprite,
+  aiSprite,
+  onBuy,
+  onToggleEquipped,
+}: CosmeticCardProps) {
+  return (
+    <div
+      className={cn(
+        "flex flex-col items-center gap-2 p-3 rounded-xl border-2 bg-card/80 transition-colors",
+        equipped ? "border-primary shadow-lg shadow-primary/20" : "border-border"
+      )}
+    >
+      <div className="h-20 flex items-center justify-center">
+        <CosmeticPreview item={item} userSprite={userSprite} aiSprite={aiSprite} />
+      </div>
+      <div className="text-center">
+        <p className="text-sm font-medium">{item.name}</p>
+        <p className="text-xs text-muted-foreground">{item.description}</p>
+      </div>
+
+      {owned ? (
+        <Button
+          size="sm"
+          variant={equipped ? "secondary" : "outline"}
+          className="w-full"
+          onClick={onToggleEquipped}
+          disabled={busy}
+        >
+          {equipped && <Check className="w-4 h-4" />}
+          {equipped ? "Equipped" : "Equip"}
+        </Button>
+      ) : (
+        <Button size="sm" className="w-full" onClick={onBuy} disabled={busy || !affordable}>
+          <Coins className="w-4 h-4" />
+          {item.price}
+        </Button>
+      )}
+    </div>
+  );
+}
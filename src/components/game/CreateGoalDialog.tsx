@@ -14,14 +14,37 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Calendar, Clock, Target, ListTodo } from "lucide-react";
+import { RecurrencePicker } from "@/components/game/RecurrencePicker";
+import { CategoryPicker } from "@/components/game/CategoryPicker";
+import { TagInput } from "@/components/game/TagInput";
+import {
+  RecurrencePreset,
+  buildRecurrenceRule,
+  describeRecurrence,
+  getNextOccurrence,
+  getRoundDate,
+} from "@/engine/game";
+import { GoalDraft } from "@/lib/offline";
 
 interface CreateGoalDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onGoalCreated: () => void;
+  onCreateGoal: (goal: GoalDraft) => Promise<void>;
+  timezone: string;
+  dayEndTime: string;
+  tagSuggestions?: string[];
 }
 
-export function CreateGoalDialog({ open, onOpenChange, onGoalCreated }: CreateGoalDialogProps) {
+export function CreateGoalDialog({
+  open,
+  onOpenChange,
+  onGoalCreated,
+  onCreateGoal,
+  timezone,
+  dayEndTime,
+  tagSuggestions,
+}: CreateGoalDialogProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
@@ -30,6 +53,57 @@ export function CreateGoalDialog({ open, onOpenChange, onGoalCreated }: CreateGo
   const [description, setDescription] = useState("");
   const [dueDate, setDueDate] = useState("");
   const [dueTime, setDueTime] = useState("");
+  const [recurrence, setRecurrence] = useState<RecurrencePreset>("none");
+  const [recurrenceValue, setRecurrenceValue] = useState(1);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+
+  const resetForm = () => {
+    setTitle("");
+    setDescription("");
+    setDueDate("");
+    setDueTime("");
+    setGoalType("daily");
+    setRecurrence("none");
+    setRecurrenceValue(1);
+    setCategoryId(null);
+    setTags([]);
+  };
+
+  // Recurring goals are stored as a series; the server creates each round's occurrence
+  const createSeries = async (preset: Exclude<RecurrencePreset, "none">) => {
+    const today = getRoundDate(new Date(), timezone, dayEndTime);
+    const rule = buildRecurrenceRule(preset, today, recurrenceValue);
+
+    const { error } = await supabase.from("goal_series").insert({
+      user_id: user.id,
+      title: title.trim(),
+      description: description.trim() || null,
+      due_time: dueTime || null,
+      category_id: categoryId,
+      tags,
+      ...rule,
+    });
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to create recurring goal", variant: "destructive" });
+      return false;
+    }
+
+    const { error: materializeError } = await supabase.rpc("materialize_recurring_goals");
+    if (materializeError) {
+      console.error("Error materializing recurring goals:", materializeError);
+    }
+
+    const next = getNextOccurrence(rule, today);
+    toast({
+      title: "Recurring Goal Created!",
+      description: next === today
+        ? `${describeRecurrence(rule)}. Today's task is ready!`
+        : `${describeRecurrence(rule)}. First one arrives ${next}.`,
+    });
+    return true;
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -42,32 +116,34 @@ export function CreateGoalDialog({ open, onOpenChange, onGoalCreated }: CreateGo
 
     setLoading(true);
 
-    const { error } = await supabase.from("goals").insert({
-      user_id: user.id,
+    if (goalType === "daily" && recurrence !== "none") {
+      const created = await createSeries(recurrence);
+      setLoading(false);
+      if (!created) return;
+
+      resetForm();
+      onOpenChange(false);
+      onGoalCreated();
+      return;
+    }
+
+    // One-off goals go through the offline store; recurring series need the server
+    await onCreateGoal({
       title: title.trim(),
       description: description.trim() || null,
       goal_type: goalType,
       due_date: goalType === "long_term" && dueDate ? dueDate : null,
       due_time: dueTime || null, // Now saved for both daily and long-term goals
+      category_id: categoryId,
+      tags,
     });
 
-    if (error) {
-      toast({ title: "Error", description: "Failed to create goal", variant: "destructive" });
-      setLoading(false);
-      return;
-    }
-
     toast({
       title: "Goal Created!",
       description: goalType === "daily" ? "Complete it today to earn points!" : "Beat the deadline to maximize points!",
     });
 
-    // Reset form
-    setTitle("");
-    setDescription("");
-    setDueDate("");
-    setDueTime("");
-    setGoalType("daily");
+    resetForm();
     setLoading(false);
     onOpenChange(false);
     onGoalCreated();
@@ -75,7 +151,7 @@ export function CreateGoalDialog({ open, onOpenChange, onGoalCreated }: CreateGo
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md bg-card border-border/50">
+      <DialogContent className="sm:max-w-md bg-card border-border/50 max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="font-display text-xl">Create New Goal</DialogTitle>
           <DialogDescription>Set a goal and compete against the AI to complete it!</DialogDescription>
@@ -140,6 +216,10 @@ export function CreateGoalDialog({ open, onOpenChange, onGoalCreated }: CreateGo
             />
           </div>
 
+          {/* Category & Tags */}
+          <CategoryPicker id="category" value={categoryId} onChange={setCategoryId} />
+          <TagInput id="tags" value={tags} onChange={setTags} suggestions={tagSuggestions} />
+
           {/* Due Time for Daily Goals */}
           {goalType === "daily" && (
             <div className="space-y-2">
@@ -157,6 +237,17 @@ export function CreateGoalDialog({ open, onOpenChange, onGoalCreated }: CreateGo
             </div>
           )}
 
+          {/* Recurrence (Daily only) */}
+          {goalType === "daily" && (
+            <RecurrencePicker
+              id="recurrence"
+              preset={recurrence}
+              value={recurrenceValue}
+              onPresetChange={setRecurrence}
+              onValueChange={setRecurrenceValue}
+            />
+          )}
+
           {/* Due Date & Time (Long-term only) */}
           {goalType === "long_term" && (
             <div className="grid grid-cols-2 gap-4">
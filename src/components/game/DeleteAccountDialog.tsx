@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertTriangle } from "lucide-react";
+
+interface DeleteAccountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: () => Promise<void>;
+}
+
+// Typed rather than clicked, so the account cannot go with a stray tap
+const CONFIRMATION = "DELETE";
+
+export function DeleteAccountDialog({ open, onOpenChange, onConfirm }: DeleteAccountDialogProps) {
+  const [confirmation, setConfirmation] = useState("");
+  const [deleting, setDeleting] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (deleting) return;
+    if (!next) setConfirmation("");
+    onOpenChange(next);
+  };
+
+  const handleConfirm = async () => {
+    setDeleting(true);
+    try {
+      await onConfirm();
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent className="bg-card border-border/50">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="font-display flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            Delete your account?
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            This permanently deletes your profile and picture, goals, subtasks, categories, recurring series, cosmetics,
+            achievements, friends, score history and round results. It cannot be undone. Download your account archive
+            first if you want to keep a copy.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="deleteConfirmation">Type {CONFIRMATION} to confirm</Label>
+          <Input
+            id="deleteConfirmation"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="off"
+          />
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={confirmation !== CONFIRMATION || deleting}
+          >
+            {deleting ? "Deleting..." : "Delete Account"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
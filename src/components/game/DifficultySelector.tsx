@@ -0,0 +1,44 @@
+import { cn } from "@/lib/utils";
+import { DIFFICULTY_CONFIGS, DifficultyType } from "@/config/game";
+
+interface DifficultySelectorProps {
+  selected: DifficultyType;
+  onChange: (difficulty: DifficultyType) => void;
+}
+
+const difficultyOptions = Object.values(DIFFICULTY_CONFIGS);
+
+export function DifficultySelector({ selected, onChange }: DifficultySelectorProps) {
+  const current = DIFFICULTY_CONFIGS[selected];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2">
+        {difficultyOptions.map(({ id, name, pointsToWin }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => onChange(id)}
+            className={cn(
+              "flex flex-col items-center p-2 rounded-xl border-2 transition-all",
+              selected === id
+                ? "border-primary bg-primary/10 shadow-lg shadow-primary/20"
+                : "border-border hover:border-primary/50"
+            )}
+          >
+            <span className={cn(
+              "text-sm font-medium",
+              selected === id ? "text-primary" : "text-foreground"
+            )}>
+              {name}
+            </span>
+            <span className="text-[10px] text-muted-foreground">{pointsToWin} to win</span>
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {current.description}. AI gains ×{current.aiGainMultiplier}, missed goals ×{current.missedPenaltyMultiplier}.
+      </p>
+    </div>
+  );
+}
@@ -12,7 +12,21 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Calendar, Clock } from "lucide-react";
+import { Calendar, Clock, Repeat, Zap } from "lucide-react";
+import { RecurrencePicker } from "@/components/game/RecurrencePicker";
+import { CategoryPicker } from "@/components/game/CategoryPicker";
+import { TagInput } from "@/components/game/TagInput";
+import {
+  RecurrencePreset,
+  RecurrenceRule,
+  buildRecurrenceRule,
+  describeRecurrence,
+  getRecurrencePreset,
+  getRoundDate,
+  scoreGoalCompletion,
+} from "@/engine/game";
+import { DifficultyType, GoalStatus, OpponentType } from "@/config/game";
+import { getGameStrategy } from "@/strategies/game";
 
 interface Goal {
   id: string;
@@ -21,23 +35,51 @@ interface Goal {
   goal_type: "daily" | "long_term";
   due_date: string | null;
   due_time: string | null;
-  completed: boolean;
+  status: GoalStatus;
+  created_at: string;
+  series_id: string | null;
+  occurrence_date: string | null;
+  category_id: string | null;
+  tags: string[];
 }
 
+type EditScope = "occurrence" | "series";
+
 interface EditGoalDialogProps {
   goal: Goal | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onGoalUpdated: () => void;
+  timezone: string;
+  dayEndTime: string;
+  opponent?: OpponentType;
+  difficulty?: DifficultyType;
+  tagSuggestions?: string[];
 }
 
-export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: EditGoalDialogProps) {
+export function EditGoalDialog({
+  goal,
+  open,
+  onOpenChange,
+  onGoalUpdated,
+  timezone,
+  dayEndTime,
+  opponent,
+  difficulty,
+  tagSuggestions,
+}: EditGoalDialogProps) {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [dueDate, setDueDate] = useState("");
   const [dueTime, setDueTime] = useState("");
+  const [scope, setScope] = useState<EditScope>("occurrence");
+  const [seriesRule, setSeriesRule] = useState<RecurrenceRule | null>(null);
+  const [recurrence, setRecurrence] = useState<Exclude<RecurrencePreset, "none">>("weekdays");
+  const [recurrenceValue, setRecurrenceValue] = useState(1);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
 
   // Populate form when goal changes
   useEffect(() => {
@@ -46,9 +88,88 @@ export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: Edit
       setDescription(goal.description || "");
       setDueDate(goal.due_date || "");
       setDueTime(goal.due_time || "");
+      setCategoryId(goal.category_id ?? null);
+      setTags(goal.tags ?? []);
+      setScope("occurrence");
     }
   }, [goal]);
 
+  // Load the schedule of the series this occurrence belongs to
+  useEffect(() => {
+    setSeriesRule(null);
+    if (!goal?.series_id) return;
+
+    const fetchSeries = async () => {
+      const { data, error } = await supabase
+        .from("goal_series")
+        .select("*")
+        .eq("id", goal.series_id)
+        .maybeSingle();
+
+      if (error || !data) {
+        console.error("Error fetching goal series:", error);
+        return;
+      }
+
+      const rule = data as RecurrenceRule;
+      const preset = getRecurrencePreset(rule);
+      setSeriesRule(rule);
+      setRecurrence(preset);
+      setRecurrenceValue(
+        preset === "monthly" ? rule.by_month_day || 1 : preset === "interval" ? rule.interval_days || 1 : 1
+      );
+    };
+
+    fetchSeries();
+  }, [goal?.series_id]);
+
+  const updateSeries = async () => {
+    if (!goal?.series_id || !seriesRule) return false;
+
+    // A changed schedule starts counting from today so "every N days" lines up with the edit
+    const kept = buildRecurrenceRule(recurrence, seriesRule.start_date, recurrenceValue);
+    const scheduleChanged = describeRecurrence(kept) !== describeRecurrence(seriesRule);
+    const rule = scheduleChanged ? { ...kept, start_date: getRoundDate(new Date(), timezone, dayEndTime) } : kept;
+
+    const { error } = await supabase
+      .from("goal_series")
+      .update({
+        title: title.trim(),
+        description: description.trim() || null,
+        due_time: dueTime || null,
+        category_id: categoryId,
+        tags,
+        ...rule,
+        last_materialized_date: null,
+      })
+      .eq("id", goal.series_id);
+
+    if (error) return false;
+
+    await supabase.rpc("materialize_recurring_goals");
+    return true;
+  };
+
+  const handleStopRepeating = async () => {
+    if (!goal?.series_id) return;
+
+    setLoading(true);
+    const { error } = await supabase
+      .from("goal_series")
+      .update({ active: false })
+      .eq("id", goal.series_id);
+    setLoading(false);
+
+    if (error) {
+      toast({ title: "Error", description: "Failed to stop recurring goal", variant: "destructive" });
+      return;
+    }
+
+    toast({ title: "Series stopped", description: "No new occurrences will be created. This one stays." });
+    onOpenChange(false);
+    onGoalUpdated();
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!goal) return;
@@ -60,17 +181,28 @@ export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: Edit
 
     setLoading(true);
 
+    if (scope === "series" && !(await updateSeries())) {
+      toast({ title: "Error", description: "Failed to update recurring goal", variant: "destructive" });
+      setLoading(false);
+      return;
+    }
+
+    // Series edits also apply to the current occurrence
     const updateData: {
       title: string;
       description: string | null;
       due_date: string | null;
       due_time: string | null;
+      category_id: string | null;
+      tags: string[];
       updated_at: string;
     } = {
       title: title.trim(),
       description: description.trim() || null,
       due_date: goal.goal_type === "long_term" && dueDate ? dueDate : null,
       due_time: dueTime || null,
+      category_id: categoryId,
+      tags,
       updated_at: new Date().toISOString(),
     };
 
@@ -80,14 +212,19 @@ export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: Edit
       .eq("id", goal.id);
 
     if (error) {
-      toast({ title: "Error", description: "Failed to update goal", variant: "destructive" });
+      // An overdue goal's deadline can't be moved; the server says so
+      toast({
+        title: "Error",
+        description: error.code === "P0001" ? error.message : "Failed to update goal",
+        variant: "destructive",
+      });
       setLoading(false);
       return;
     }
 
     toast({
       title: "Goal Updated!",
-      description: "Your changes have been saved.",
+      description: scope === "series" ? "Changes apply to this and future occurrences." : "Your changes have been saved.",
     });
 
     setLoading(false);
@@ -97,9 +234,22 @@ export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: Edit
 
   if (!goal) return null;
 
+  // Preview what completing the edited goal right now would score against this opponent
+  const preview = getGameStrategy(opponent, difficulty).applyScoringModifiers(scoreGoalCompletion({
+    goal: {
+      goal_type: goal.goal_type,
+      due_date: goal.goal_type === "long_term" && dueDate ? dueDate : null,
+      due_time: dueTime || null,
+      created_at: goal.created_at,
+    },
+    completedAt: new Date(),
+    timezone,
+    dayEndTime,
+  }));
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md bg-card border-border/50">
+      <DialogContent className="sm:max-w-md bg-card border-border/50 max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="font-display text-xl">Edit Goal</DialogTitle>
           <DialogDescription>Update your goal details.</DialogDescription>
@@ -115,8 +265,32 @@ export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: Edit
             }`}>
               {goal.goal_type === "daily" ? "Daily Task" : "Long-term Goal"}
             </span>
+            {goal.series_id && (
+              <span className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-primary/20 text-primary">
+                <Repeat className="w-3 h-3" />
+                Recurring
+              </span>
+            )}
           </div>
 
+          {/* Edit Scope (Recurring only) */}
+          {goal.series_id && seriesRule && (
+            <div className="grid grid-cols-2 gap-2 p-1 rounded-lg bg-muted/30">
+              {(["occurrence", "series"] as EditScope[]).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setScope(option)}
+                  className={`py-2 rounded-md text-sm font-medium transition-all ${
+                    scope === option ? "bg-card text-primary shadow" : "text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  {option === "occurrence" ? "This occurrence" : "Entire series"}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Title */}
           <div className="space-y-2">
             <Label htmlFor="edit-title">Goal Title</Label>
@@ -142,6 +316,10 @@ export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: Edit
             />
           </div>
 
+          {/* Category & Tags */}
+          <CategoryPicker id="edit-category" value={categoryId} onChange={setCategoryId} />
+          <TagInput id="edit-tags" value={tags} onChange={setTags} suggestions={tagSuggestions} />
+
           {/* Due Time for Daily Goals */}
           {goal.goal_type === "daily" && (
             <div className="space-y-2">
@@ -159,6 +337,30 @@ export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: Edit
             </div>
           )}
 
+          {/* Schedule (Series edits only) */}
+          {scope === "series" && (
+            <div className="space-y-2">
+              <RecurrencePicker
+                id="edit-recurrence"
+                preset={recurrence}
+                value={recurrenceValue}
+                onPresetChange={(preset) => preset !== "none" && setRecurrence(preset)}
+                onValueChange={setRecurrenceValue}
+                allowNone={false}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-muted-foreground hover:text-destructive"
+                onClick={handleStopRepeating}
+                disabled={loading}
+              >
+                Stop repeating
+              </Button>
+            </div>
+          )}
+
           {/* Due Date & Time (Long-term only) */}
           {goal.goal_type === "long_term" && (
             <div className="grid grid-cols-2 gap-4">
@@ -190,6 +392,14 @@ export function EditGoalDialog({ goal, open, onOpenChange, onGoalUpdated }: Edit
             </div>
           )}
 
+          {/* Scoring Preview */}
+          <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/30 text-xs text-muted-foreground">
+            <Zap className="w-4 h-4 text-accent" />
+            <span>
+              Complete now: <span className="text-foreground font-medium">{preview.message}</span>
+            </span>
+          </div>
+
           {/* Submit */}
           <div className="flex gap-3">
             <Button type="button" variant="ghost" className="flex-1" onClick={() => onOpenChange(false)}>
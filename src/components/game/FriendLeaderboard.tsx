@@ -0,0 +1,52 @@
+/**
+ * FriendLeaderboard - This week's points for the user and their friends, best first
+ */
+
+import { cn } from "@/lib/utils";
+import { LeaderboardEntry } from "@/hooks/useFriends";
+import { PlayerAvatar } from "./PlayerAvatar";
+
+interface FriendLeaderboardProps {
+  entries: LeaderboardEntry[];
+  userId: string;
+}
+
+const MEDALS = ["🥇", "🥈", "🥉"];
+
+export function FriendLeaderboard({ entries, userId }: FriendLeaderboardProps) {
+  return (
+    <ol className="space-y-2">
+      {entries.map((entry, i) => {
+        const isSelf = entry.user_id === userId;
+        return (
+          <li
+            key={entry.user_id}
+            className={cn(
+              "flex items-center gap-3 p-2 rounded-lg",
+              isSelf ? "bg-primary/10 border border-primary/30" : "bg-muted/30"
+            )}
+          >
+            <span className="w-7 text-center font-display font-bold text-muted-foreground">{MEDALS[i] ?? i + 1}</span>
+            <PlayerAvatar
+              avatarUrl={entry.avatar_url}
+              avatarType={entry.avatar_type}
+              alt={entry.username || "Player"}
+              className="w-9 h-9 rounded-full"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">
+                {entry.username || "Player"}
+                {isSelf && <span className="text-xs text-muted-foreground ml-1">(you)</span>}
+              </p>
+              <p className="text-xs text-muted-foreground">{entry.round_points} pts today</p>
+            </div>
+            <p className="font-display font-bold text-primary">
+              {entry.week_points}
+              <span className="text-xs font-normal text-muted-foreground ml-1">pts</span>
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -4,88 +4,122 @@
  */
 
 import { useEffect, useState, useMemo } from "react";
-import { motion, AnimatePresence } from "framer-motion";
+import { motion, AnimatePresence, useAnimationControls } from "framer-motion";
 import {
   ThemeType,
   AvatarType,
-  BACKGROUNDS,
-  ACTION_SPRITES,
-  AI_SPRITES,
-  THEME_CONFIGS,
-  isValidTheme,
-  DEFAULT_THEME,
+  OpponentType,
+  DifficultyType,
+  EquippedCosmetics,
 } from "@/config/game";
+import { getThemePack } from "@/themes";
 import { getGameStrategy, getEffectsStrategy } from "@/strategies/game";
 import { VictoryDance } from "./VictoryDance";
 import { ParallaxBackground } from "./ParallaxBackground";
 import { ObstacleLayer } from "./ObstacleLayer";
 import { SpeedLines } from "./SpeedLines";
 import { ContinuousActionAvatar } from "./ContinuousActionAvatar";
+import { PlayerAvatar } from "./PlayerAvatar";
+import { ArenaRival } from "./arenaRival";
 import { EODCountdown } from "./EODCountdown";
 import { useSoundEffects } from "@/hooks/useSoundEffects";
 import { useAmbientAudio } from "@/hooks/useAmbientAudio";
-import { useGameLoop } from "@/hooks/useGameLoop";
+import { useGameLoop, IntensityLevel } from "@/hooks/useGameLoop";
 import { INTENSITY_CONFIGS } from "@/config/game/intensity.config";
 
 interface GameArenaProps {
   theme: ThemeType;
   avatarType: AvatarType;
+  avatarUrl?: string | null;
+  cosmetics?: EquippedCosmetics;
   userPoints: number;
   aiPoints: number;
   isActive?: boolean;
   isEndOfDay?: boolean;
   soundEnabled?: boolean;
   dayEndTime?: string;
+  timezone?: string;
+  nudge?: number; // Increments whenever the user makes progress short of completing a goal
+  opponent?: OpponentType;
+  difficulty?: DifficultyType;
+  rival?: ArenaRival | null; // head-to-head mode
+  onIntensityChange?: (intensity: IntensityLevel) => void;
 }
 
 export function GameArena({
   theme,
   avatarType,
+  avatarUrl,
+  cosmetics = {},
   userPoints,
   aiPoints,
   isActive = true,
   isEndOfDay = false,
   soundEnabled = true,
   dayEndTime = "23:00",
+  timezone,
+  nudge = 0,
+  opponent,
+  difficulty,
+  rival,
+  onIntensityChange,
 }: GameArenaProps) {
   const [showEffect, setShowEffect] = useState(false);
   const [effectIndex, setEffectIndex] = useState(0);
   const [prevGameState, setPrevGameState] = useState<string | null>(null);
 
-  // Validate theme
-  const validTheme: ThemeType = isValidTheme(theme) ? theme : DEFAULT_THEME;
+  // Resolve the theme pack; unknown themes fall back to the default
+  const config = getThemePack(theme);
+  const validTheme: ThemeType = config.id;
 
-  // Game loop - the heartbeat of the game
+  // Get strategies - the game strategy is the chosen AI opponent
+  const gameStrategy = useMemo(() => getGameStrategy(opponent, difficulty), [opponent, difficulty]);
+  const effectsStrategy = useMemo(() => getEffectsStrategy(), []);
+
+  // Game loop - the heartbeat of the game; a friend has no passive pace
   const gameLoop = useGameLoop({
     userPoints,
-    aiPoints,
+    aiPoints: rival ? rival.points : aiPoints,
     dayEndTime,
+    timezone,
     isActive,
+    strategy: rival ? undefined : gameStrategy,
   });
 
+  // Let the page react to the arena heating up (e.g. reminder escalation)
+  useEffect(() => {
+    onIntensityChange?.(gameLoop.intensity);
+  }, [gameLoop.intensity, onIntensityChange]);
+
+  // The opponent's passive pace counts toward its arena score
+  const arenaAiPoints = rival ? rival.points : aiPoints + gameLoop.passiveAiPoints;
+
+  // Nudge the user's avatar forward on partial progress (e.g. a ticked subtask)
+  const nudgeControls = useAnimationControls();
+  useEffect(() => {
+    if (nudge === 0) return;
+    nudgeControls.start({ x: [0, 28, 0], transition: { duration: 0.6, ease: "easeOut" } });
+  }, [nudge, nudgeControls]);
+
   // Sound effects for events
   const { playSound } = useSoundEffects(soundEnabled);
   
   // Ambient background music with intensity
   useAmbientAudio(validTheme, soundEnabled, isActive, gameLoop.intensity);
 
-  // Get strategies
-  const gameStrategy = useMemo(() => getGameStrategy(), []);
-  const effectsStrategy = useMemo(() => getEffectsStrategy(), []);
-
   // Get assets and config
-  const background = BACKGROUNDS[validTheme];
-  const userSprite = ACTION_SPRITES[validTheme];
-  const aiSprite = AI_SPRITES[validTheme];
-  const config = THEME_CONFIGS[validTheme];
+  const { background, userSprite } = config.assets;
+  const aiSprite = rival?.sprite ?? config.assets.aiSprite;
+  const aiSpriteFilter = rival ? undefined : cosmetics.aiSprite?.filter;
   const intensityConfig = INTENSITY_CONFIGS[gameLoop.intensity];
 
   // Calculate game state using strategy
-  const gameState = gameStrategy.getGameState(userPoints, aiPoints, isEndOfDay);
+  const gameState = gameStrategy.getGameState(userPoints, arenaAiPoints, isEndOfDay);
   const statusMessage = gameStrategy.getStatusMessage(gameState, validTheme);
+  const taunt = rival ? null : gameStrategy.getTaunt(gameState, Math.floor(gameLoop.beatCount / 12));
 
   // Score delta for position calculation
-  const scoreDelta = userPoints - aiPoints;
+  const scoreDelta = userPoints - arenaAiPoints;
   const userWinning = gameState === "userWinning" || gameState === "victory";
   const aiWinning = gameState === "aiWinning" || gameState === "defeat";
   const isVictoryState = gameState === "victory" || gameState === "defeat";
@@ -174,6 +208,8 @@ export function GameArena({
             theme={validTheme}
             userSprite={userSprite}
             aiSprite={aiSprite}
+            dance={cosmetics.dance?.dance}
+            aiSpriteFilter={aiSpriteFilter}
           />
         )}
       </AnimatePresence>
@@ -226,7 +262,7 @@ export function GameArena({
             </motion.div>
 
             {/* User Character */}
-            <div className="absolute left-4 md:left-12">
+            <motion.div className="absolute left-4 md:left-12" animate={nudgeControls}>
               <ContinuousActionAvatar
                 theme={validTheme}
                 sprite={userSprite}
@@ -238,11 +274,30 @@ export function GameArena({
                 intensity={gameLoop.intensity}
                 pulse={gameLoop.pulse}
                 beatCount={gameLoop.beatCount}
+                avatarUrl={avatarUrl}
+                avatarType={avatarType}
+                cosmetics={cosmetics}
               />
-            </div>
+            </motion.div>
 
             {/* AI Character */}
             <div className="absolute right-4 md:right-12">
+              {/* Opponent Taunt */}
+              <AnimatePresence mode="wait">
+                {taunt && (
+                  <motion.div
+                    key={taunt}
+                    initial={{ opacity: 0, y: 6 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -6 }}
+                    className="absolute bottom-full right-0 mb-2 w-36 bg-background/90 backdrop-blur-sm rounded-lg px-2 py-1 border border-border/30 shadow-lg z-20"
+                  >
+                    <p className="text-[10px] leading-tight text-foreground/80">
+                      {gameStrategy.opponent.emoji} {taunt}
+                    </p>
+                  </motion.div>
+                )}
+              </AnimatePresence>
               <ContinuousActionAvatar
                 theme={validTheme}
                 sprite={aiSprite}
@@ -254,6 +309,7 @@ export function GameArena({
                 intensity={gameLoop.intensity}
                 pulse={gameLoop.pulse}
                 beatCount={gameLoop.beatCount}
+                cosmetics={rival ? undefined : cosmetics}
               />
             </div>
           </div>
@@ -267,10 +323,10 @@ export function GameArena({
               animate={userWinning ? { scale: [1, 1.05, 1] } : {}}
               transition={{ repeat: Infinity, duration: 1 }}
             >
-              <img src={userSprite} alt="You" className="w-full h-full object-cover" />
+              <PlayerAvatar avatarUrl={avatarUrl} avatarType={avatarType} className="w-full h-full" />
             </motion.div>
             <div>
-              <p className="text-xs text-muted-foreground">Your Score</p>
+              <p className="text-xs text-muted-foreground">Today's Score</p>
               <p className={`font-display font-bold text-lg ${userWinning ? "text-primary" : "text-foreground"}`}>
                 {userPoints}<span className="text-xs font-normal text-muted-foreground ml-1">pts</span>
               </p>
@@ -282,24 +338,36 @@ export function GameArena({
               {[...Array(5)].map((_, i) => (<div key={i} className="w-px h-full bg-border/30" />))}
             </div>
             <div className="h-full flex relative z-10">
-              <motion.div className="bg-primary/80" animate={{ width: `${Math.max(10, (userPoints / (userPoints + aiPoints || 1)) * 100)}%` }} transition={{ duration: 0.5 }} />
-              <motion.div className="bg-muted-foreground/40" animate={{ width: `${Math.max(10, (aiPoints / (userPoints + aiPoints || 1)) * 100)}%` }} transition={{ duration: 0.5 }} />
+              <motion.div className="bg-primary/80" animate={{ width: `${Math.max(10, (userPoints / (userPoints + arenaAiPoints || 1)) * 100)}%` }} transition={{ duration: 0.5 }} />
+              <motion.div className="bg-muted-foreground/40" animate={{ width: `${Math.max(10, (arenaAiPoints / (userPoints + arenaAiPoints || 1)) * 100)}%` }} transition={{ duration: 0.5 }} />
             </div>
           </div>
 
           <div className="flex items-center gap-3">
             <div className="text-right">
-              <p className="text-xs text-muted-foreground">AI Score</p>
+              <p className="text-xs text-muted-foreground">{rival ? rival.name : gameStrategy.opponent.name}</p>
               <p className={`font-display font-bold text-lg ${aiWinning ? "text-muted-foreground" : "text-foreground"}`}>
-                {aiPoints}<span className="text-xs font-normal text-muted-foreground ml-1">pts</span>
+                {arenaAiPoints}<span className="text-xs font-normal text-muted-foreground ml-1">pts</span>
               </p>
+              {gameLoop.passiveAiPoints > 0 && (
+                <p className="text-[10px] text-muted-foreground">+{gameLoop.passiveAiPoints} pace</p>
+              )}
             </div>
             <motion.div
               className={`w-10 h-10 rounded-xl overflow-hidden border-2 ${aiWinning ? "border-muted-foreground" : "border-border/50"}`}
               animate={aiWinning ? { scale: [1, 1.05, 1] } : {}}
               transition={{ repeat: Infinity, duration: 1 }}
             >
-              <img src={aiSprite} alt="AI" className="w-full h-full object-cover" />
+              {rival ? (
+                <PlayerAvatar
+                  avatarUrl={rival.avatarUrl}
+                  avatarType={rival.avatarType}
+                  alt={rival.name}
+                  className="w-full h-full"
+                />
+              ) : (
+                <img src={aiSprite} alt="AI" className="w-full h-full object-cover" style={{ filter: aiSpriteFilter }} />
+              )}
             </motion.div>
           </div>
         </div>
@@ -309,4 +377,3 @@ export function GameArena({
 }
 
 export type { ThemeType, AvatarType };
-export { BACKGROUNDS as backgrounds, AVATARS as avatars } from "@/config/game";
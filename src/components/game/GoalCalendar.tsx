@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Check, GripVertical, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CalendarView, getGoalCalendarDate, isGoalOverdue } from "@/engine/game";
+import { RoundWinner } from "@/config/game";
+import { OfflineGoal } from "@/lib/offline";
+
+interface GoalCalendarProps {
+  view: CalendarView;
+  days: string[];
+  month: string; // "yyyy-MM"; days outside it are dimmed in the month view
+  today: string;
+  goals: OfflineGoal[];
+  roundWinners: Map<string, RoundWinner>;
+  timezone: string;
+  dayEndTime: string;
+  onReschedule: (goal: OfflineGoal, dueDate: string) => void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const ROUND_STYLES: Record<RoundWinner, string> = {
+  user: "bg-primary/15 border-primary/40",
+  ai: "bg-destructive/15 border-destructive/40",
+  draw: "bg-accent/10 border-accent/40",
+};
+
+// Only open long-term goals have a due date the user can move, and only until it passes
+function isReschedulable(goal: OfflineGoal, now: Date, timezone: string, dayEndTime: string): boolean {
+  return (
+    goal.goal_type === "long_term" &&
+    goal.status === "active" &&
+    !goal.pending &&
+    !isGoalOverdue(goal, now, timezone, dayEndTime)
+  );
+}
+
+export function GoalCalendar({
+  view,
+  days,
+  month,
+  today,
+  goals,
+  roundWinners,
+  timezone,
+  dayEndTime,
+  onReschedule,
+}: GoalCalendarProps) {
+  const [dragging, setDragging] = useState<OfflineGoal | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const goalsByDay = new Map<string, OfflineGoal[]>();
+  goals
+    .filter((goal) => goal.status !== "archived")
+    .forEach((goal) => {
+      const date = getGoalCalendarDate(goal, timezone);
+      if (date) goalsByDay.set(date, [...(goalsByDay.get(date) ?? []), goal]);
+    });
+
+  const maxChips = view === "month" ? 3 : 10;
+  const now = new Date();
+
+  const handleDrop = (date: string) => {
+    if (dragging && date !== dragging.due_date) onReschedule(dragging, date);
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="grid grid-cols-7 gap-1">
+      {WEEKDAYS.map((weekday) => (
+        <div key={weekday} className="text-center text-xs font-medium text-muted-foreground py-1">
+          {weekday}
+        </div>
+      ))}
+
+      {days.map((date) => {
+        const winner = roundWinners.get(date);
+        const dayGoals = goalsByDay.get(date) ?? [];
+        // Goals cannot be moved into the past; that would only get them marked missed
+        const canDrop = !!dragging && date >= today;
+
+        return (
+          <div
+            key={date}
+            onDragOver={(e) => {
+              if (!canDrop) return;
+              e.preventDefault();
+              setDropTarget(date);
+            }}
+            onDragLeave={() => setDropTarget((current) => (current === date ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (canDrop) handleDrop(date);
+            }}
+            className={cn(
+              "rounded-lg border border-border/30 p-1 flex flex-col gap-1 transition-colors",
+              view === "month" ? "min-h-20" : "min-h-48",
+              winner && ROUND_STYLES[winner],
+              view === "month" && !date.startsWith(month) && "opacity-40",
+              date === today && "ring-2 ring-primary",
+              dropTarget === date && "ring-2 ring-accent bg-accent/10",
+              dragging && !canDrop && "opacity-30"
+            )}
+          >
+            <span className={cn("text-xs font-medium", date === today ? "text-primary" : "text-muted-foreground")}>
+              {format(parseISO(date), view === "month" ? "d" : "EEE d")}
+            </span>
+
+            {dayGoals.slice(0, maxChips).map((goal) => {
+              const draggable = isReschedulable(goal, now, timezone, dayEndTime);
+
+              return (
+                <div
+                  key={goal.id}
+                  draggable={draggable}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData("text/plain", goal.id);
+                    setDragging(goal);
+                  }}
+                  onDragEnd={() => {
+                    setDragging(null);
+                    setDropTarget(null);
+                  }}
+                  title={draggable ? `${goal.title} (drag to reschedule)` : goal.title}
+                  className={cn(
+                    "flex items-center gap-1 rounded px-1 py-0.5 text-[10px] leading-tight truncate",
+                    goal.goal_type === "daily" ? "bg-accent/20 text-accent" : "bg-secondary/20 text-secondary",
+                    goal.status === "completed" && "line-through opacity-60",
+                    goal.status === "missed" && "bg-destructive/20 text-destructive",
+                    draggable && "cursor-grab active:cursor-grabbing"
+                  )}
+                >
+                  {goal.status === "completed" && <Check className="w-3 h-3 shrink-0" />}
+                  {goal.status === "missed" && <X className="w-3 h-3 shrink-0" />}
+                  {draggable && <GripVertical className="w-3 h-3 shrink-0" />}
+                  <span className="truncate">{goal.title}</span>
+                </div>
+              );
+            })}
+
+            {dayGoals.length > maxChips && (
+              <span className="text-[10px] text-muted-foreground">+{dayGoals.length - maxChips} more</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * GoalChecklist - Ordered subtasks with a progress bar
+ * Ticking an item before the goal's deadline earns partial credit
+ */
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp, ListChecks, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+
+export interface ChecklistItem {
+  id: string;
+  goal_id: string;
+  title: string;
+  position: number;
+  completed: boolean;
+  completed_at: string | null;
+}
+
+interface GoalChecklistProps {
+  items: ChecklistItem[];
+  readOnly?: boolean;
+  onToggle?: (item: ChecklistItem, done: boolean) => void;
+  onAdd?: (title: string) => void;
+  onDelete?: (itemId: string) => void;
+}
+
+export function GoalChecklist({ items, readOnly, onToggle, onAdd, onDelete }: GoalChecklistProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [newItem, setNewItem] = useState("");
+
+  const sorted = [...items].sort((a, b) => a.position - b.position);
+  const done = sorted.filter((item) => item.completed).length;
+  const progress = sorted.length > 0 ? (done / sorted.length) * 100 : 0;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim() || !onAdd) return;
+
+    onAdd(newItem.trim());
+    setNewItem("");
+  };
+
+  // Nothing to show on a finished goal that never had subtasks
+  if (readOnly && sorted.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className="w-full flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ListChecks className="w-3 h-3" />
+        {sorted.length > 0 ? (
+          <>
+            <span>{done}/{sorted.length} subtasks</span>
+            <Progress value={progress} className="h-1.5 flex-1 bg-muted" />
+          </>
+        ) : (
+          <span className="flex-1 text-left">Add subtasks</span>
+        )}
+        {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+
+      {expanded && (
+        <div className="space-y-1">
+          {sorted.map((item) => (
+            <div key={item.id} className="group flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={item.completed}
+                disabled={readOnly}
+                onCheckedChange={(checked) => onToggle?.(item, checked === true)}
+                aria-label={item.title}
+              />
+              <span className={`flex-1 truncate ${item.completed ? "line-through text-muted-foreground" : "text-foreground"}`}>
+                {item.title}
+              </span>
+              {!readOnly && onDelete && (
+                <button
+                  type="button"
+                  onClick={() => onDelete(item.id)}
+                  className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+                  aria-label="Remove subtask"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          ))}
+
+          {!readOnly && onAdd && (
+            <form onSubmit={handleAdd} className="flex gap-2 pt-1">
+              <Input
+                value={newItem}
+                onChange={(e) => setNewItem(e.target.value)}
+                placeholder="New subtask"
+                className="h-8 text-sm"
+              />
+              <Button type="submit" variant="ghost" size="icon" className="h-8 w-8" disabled={!newItem.trim()}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,35 @@
+import { useMemo, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Check, Trash2, Clock, Calendar, Target, CheckCircle2, Pencil } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Check,
+  Trash2,
+  Clock,
+  Calendar,
+  Target,
+  CheckCircle2,
+  Pencil,
+  Repeat,
+  X,
+  CloudOff,
+  Search,
+  ArrowUpDown,
+} from "lucide-react";
 import { format } from "date-fns";
+import { GoalCategory, GoalStatus } from "@/config/game";
+import {
+  GoalFilter,
+  GoalSort,
+  GOAL_SORT_LABELS,
+  UNCATEGORIZED,
+  filterGoals,
+  getGoalTags,
+  getLocalTimezone,
+  sortGoals,
+} from "@/engine/game";
+import { ChecklistItem, GoalChecklist } from "./GoalChecklist";
 
 interface Goal {
   id: string;
@@ -10,11 +38,17 @@ interface Goal {
   goal_type: "daily" | "long_term";
   due_date: string | null;
   due_time: string | null;
-  completed: boolean;
+  status: GoalStatus;
   completed_at: string | null;
   points_earned: number;
   ai_points_earned: number;
   created_at: string;
+  series_id: string | null;
+  occurrence_date: string | null;
+  category_id: string | null;
+  tags: string[];
+  goal_checklist_items: ChecklistItem[];
+  pending?: boolean;
 }
 
 interface GoalListProps {
@@ -23,11 +57,87 @@ interface GoalListProps {
   onComplete?: (goal: Goal) => void;
   onDelete?: (goalId: string) => void;
   onEdit?: (goal: Goal) => void;
+  onToggleChecklistItem?: (item: ChecklistItem, done: boolean) => void;
+  onAddChecklistItem?: (goal: Goal, title: string) => void;
+  onDeleteChecklistItem?: (itemId: string) => void;
   emptyMessage?: string;
   showCompleted?: boolean;
+  categories?: GoalCategory[];
+  // Adds search, category and tag chips and sorting above the list
+  filterable?: boolean;
+  timezone?: string;
+  dayEndTime?: string;
 }
 
-export function GoalList({ title, goals, onComplete, onDelete, onEdit, emptyMessage, showCompleted }: GoalListProps) {
+const EMPTY_FILTER: GoalFilter = { search: "", categoryId: null, tags: [] };
+
+function FilterChip({
+  active,
+  color,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  color?: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+        active
+          ? "border-primary bg-primary/15 text-primary"
+          : "border-border text-muted-foreground hover:border-primary/50 hover:text-foreground"
+      }`}
+    >
+      {color && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />}
+      {children}
+    </button>
+  );
+}
+
+export function GoalList({
+  title,
+  goals,
+  onComplete,
+  onDelete,
+  onEdit,
+  onToggleChecklistItem,
+  onAddChecklistItem,
+  onDeleteChecklistItem,
+  emptyMessage,
+  showCompleted,
+  categories = [],
+  filterable,
+  timezone,
+  dayEndTime,
+}: GoalListProps) {
+  const [filter, setFilter] = useState<GoalFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<GoalSort>("newest");
+
+  const categoriesById = useMemo(() => new Map(categories.map((category) => [category.id, category])), [categories]);
+  const tags = useMemo(() => getGoalTags(goals), [goals]);
+
+  const shown = useMemo(() => {
+    if (!filterable) return goals;
+    return sortGoals(filterGoals(goals, filter), sort, {
+      categories,
+      timezone: timezone ?? getLocalTimezone(),
+      dayEndTime,
+    });
+  }, [goals, filterable, filter, sort, categories, timezone, dayEndTime]);
+
+  const filtering = filter.search.trim() !== "" || filter.categoryId !== null || filter.tags.length > 0;
+  const hasUncategorized = goals.some((goal) => !goal.category_id || !categoriesById.has(goal.category_id));
+
+  const toggleTag = (tag: string) =>
+    setFilter((current) => ({
+      ...current,
+      tags: current.tags.includes(tag) ? current.tags.filter((t) => t !== tag) : [...current.tags, tag],
+    }));
+
   if (goals.length === 0 && !showCompleted) {
     return (
       <Card className="bg-card/50">
@@ -46,116 +156,262 @@ export function GoalList({ title, goals, onComplete, onDelete, onEdit, emptyMess
       <h3 className="font-display font-semibold text-lg flex items-center gap-2">
         {showCompleted ? <CheckCircle2 className="w-5 h-5 text-success" /> : <Target className="w-5 h-5 text-primary" />}
         {title}
-        <span className="text-sm font-normal text-muted-foreground">({goals.length})</span>
+        <span className="text-sm font-normal text-muted-foreground">
+          ({filtering ? `${shown.length} of ${goals.length}` : goals.length})
+        </span>
       </h3>
 
-      <div className="space-y-3">
-        {goals.map((goal, index) => (
-          <Card
-            key={goal.id}
-            className={`transition-all duration-300 animate-fade-in ${
-              goal.completed 
-                ? "bg-muted/30 border-muted" 
-                : "bg-card hover:shadow-lg hover:shadow-primary/10 hover:border-primary/30"
-            }`}
-            style={{ animationDelay: `${index * 0.05}s` }}
-          >
-            <CardContent className="p-4">
-              <div className="flex items-start gap-4">
-                {/* Complete Button or Checkmark */}
-                <div className="flex-shrink-0">
-                  {goal.completed ? (
-                    <div className="w-10 h-10 rounded-full bg-success/20 flex items-center justify-center">
-                      <Check className="w-5 h-5 text-success" />
-                    </div>
-                  ) : onComplete ? (
-                    <Button
-                      variant="outline"
-                      size="icon"
-                      className="w-10 h-10 rounded-full border-2 border-primary/50 hover:border-primary hover:bg-primary/10 transition-all"
-                      onClick={() => onComplete(goal)}
-                    >
-                      <Check className="w-5 h-5" />
-                    </Button>
-                  ) : null}
-                </div>
+      {/* Search, Sort & Filter Chips */}
+      {filterable && (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search goals or #tags"
+                value={filter.search}
+                onChange={(e) => setFilter((current) => ({ ...current, search: e.target.value }))}
+                className="pl-9"
+                aria-label="Search goals"
+              />
+            </div>
+            <Select value={sort} onValueChange={(value) => setSort(value as GoalSort)}>
+              <SelectTrigger className="w-40" aria-label="Sort goals">
+                <ArrowUpDown className="w-4 h-4 text-muted-foreground" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GOAL_SORT_LABELS) as GoalSort[]).map((key) => (
+                  <SelectItem key={key} value={key}>{GOAL_SORT_LABELS[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
 
-                {/* Content */}
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-start justify-between gap-2">
-                    <div>
-                      <h4 className={`font-medium ${goal.completed ? "line-through text-muted-foreground" : "text-foreground"}`}>
-                        {goal.title}
-                      </h4>
-                      {goal.description && (
-                        <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{goal.description}</p>
-                      )}
-                    </div>
+          {(categories.length > 0 || tags.length > 0) && (
+            <div className="flex flex-wrap gap-2">
+              <FilterChip
+                active={filter.categoryId === null}
+                onClick={() => setFilter((current) => ({ ...current, categoryId: null }))}
+              >
+                All
+              </FilterChip>
+              {categories.map((category) => (
+                <FilterChip
+                  key={category.id}
+                  active={filter.categoryId === category.id}
+                  color={category.color}
+                  onClick={() =>
+                    setFilter((current) => ({
+                      ...current,
+                      categoryId: current.categoryId === category.id ? null : category.id,
+                    }))
+                  }
+                >
+                  {category.name}
+                </FilterChip>
+              ))}
+              {categories.length > 0 && hasUncategorized && (
+                <FilterChip
+                  active={filter.categoryId === UNCATEGORIZED}
+                  onClick={() =>
+                    setFilter((current) => ({
+                      ...current,
+                      categoryId: current.categoryId === UNCATEGORIZED ? null : UNCATEGORIZED,
+                    }))
+                  }
+                >
+                  Uncategorized
+                </FilterChip>
+              )}
+              {tags.map((tag) => (
+                <FilterChip key={tag} active={filter.tags.includes(tag)} onClick={() => toggleTag(tag)}>
+                  #{tag}
+                </FilterChip>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
 
-                    {/* Type Badge */}
-                    <span className={`flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${
-                      goal.goal_type === "daily" 
-                        ? "bg-accent/20 text-accent" 
-                        : "bg-secondary/20 text-secondary"
-                    }`}>
-                      {goal.goal_type === "daily" ? "Daily" : "Long-term"}
-                    </span>
-                  </div>
+      {shown.length === 0 && (
+        <div className="p-6 text-center text-sm text-muted-foreground">
+          No goals match these filters.{" "}
+          <button type="button" className="text-primary hover:underline" onClick={() => setFilter(EMPTY_FILTER)}>
+            Clear filters
+          </button>
+        </div>
+      )}
 
-                  {/* Meta info */}
-                  <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
-                    {goal.due_date && (
-                      <span className="flex items-center gap-1">
-                        <Calendar className="w-3 h-3" />
-                        {format(new Date(goal.due_date), "MMM d, yyyy")}
-                      </span>
-                    )}
-                    {goal.due_time && (
-                      <span className="flex items-center gap-1">
-                        <Clock className="w-3 h-3" />
-                        {goal.due_time}
-                      </span>
-                    )}
-                    {goal.completed && goal.points_earned > 0 && (
-                      <span className="text-success font-medium">+{goal.points_earned} pts</span>
-                    )}
-                    {goal.completed && goal.ai_points_earned > 0 && (
-                      <span className="text-destructive font-medium">AI +{goal.ai_points_earned}</span>
-                    )}
-                  </div>
-                </div>
+      <div className="space-y-3">
+        {shown.map((goal, index) => {
+          const isActive = goal.status === "active";
+          const isMissed = goal.status === "missed";
+          const category = goal.category_id ? categoriesById.get(goal.category_id) : undefined;
 
-                {/* Action Buttons */}
-                {!goal.completed && (
-                  <div className="flex items-center gap-1">
-                    {/* Edit Button */}
-                    {onEdit && (
+          return (
+            <Card
+              key={goal.id}
+              className={`transition-all duration-300 animate-fade-in ${
+                isMissed
+                  ? "bg-destructive/5 border-destructive/30"
+                  : !isActive
+                  ? "bg-muted/30 border-muted" 
+                  : "bg-card hover:shadow-lg hover:shadow-primary/10 hover:border-primary/30"
+              }`}
+              style={{ animationDelay: `${index * 0.05}s` }}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-start gap-4">
+                  {/* Complete Button, Checkmark or Missed Cross */}
+                  <div className="flex-shrink-0">
+                    {isMissed ? (
+                      <div className="w-10 h-10 rounded-full bg-destructive/20 flex items-center justify-center">
+                        <X className="w-5 h-5 text-destructive" />
+                      </div>
+                    ) : !isActive ? (
+                      <div className="w-10 h-10 rounded-full bg-success/20 flex items-center justify-center">
+                        <Check className="w-5 h-5 text-success" />
+                      </div>
+                    ) : onComplete ? (
                       <Button
-                        variant="ghost"
+                        variant="outline"
                         size="icon"
-                        className="flex-shrink-0 text-muted-foreground hover:text-primary"
-                        onClick={() => onEdit(goal)}
+                        className="w-10 h-10 rounded-full border-2 border-primary/50 hover:border-primary hover:bg-primary/10 transition-all"
+                        onClick={() => onComplete(goal)}
                       >
-                        <Pencil className="w-4 h-4" />
+                        <Check className="w-5 h-5" />
                       </Button>
+                    ) : null}
+                  </div>
+
+                  {/* Content */}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <h4 className={`font-medium ${isActive ? "text-foreground" : "line-through text-muted-foreground"}`}>
+                          {goal.title}
+                        </h4>
+                        {goal.description && (
+                          <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{goal.description}</p>
+                        )}
+                      </div>
+
+                      {/* Status and Type Badges */}
+                      <div className="flex flex-shrink-0 items-center gap-1">
+                        {isMissed && (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-destructive/20 text-destructive">
+                            Missed
+                          </span>
+                        )}
+                        <span className={`flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${
+                          goal.goal_type === "daily" 
+                            ? "bg-accent/20 text-accent" 
+                            : "bg-secondary/20 text-secondary"
+                        }`}>
+                          {goal.goal_type === "daily" ? "Daily" : "Long-term"}
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* Category & Tags */}
+                    {(category || goal.tags?.length > 0) && (
+                      <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                        {category && (
+                          <span
+                            className="flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium"
+                            style={{ backgroundColor: `${category.color}26`, color: category.color }}
+                          >
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: category.color }} />
+                            {category.name}
+                          </span>
+                        )}
+                        {goal.tags?.map((tag) => (
+                          <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-muted text-muted-foreground">
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
                     )}
-                    {/* Delete Button */}
-                    {onDelete && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="flex-shrink-0 text-muted-foreground hover:text-destructive"
-                        onClick={() => onDelete(goal.id)}
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
+
+                    {/* Meta info */}
+                    <div className="flex items-center gap-4 mt-3 text-xs text-muted-foreground">
+                      {goal.pending && (
+                        <span className="flex items-center gap-1">
+                          <CloudOff className="w-3 h-3" />
+                          Waiting to sync
+                        </span>
+                      )}
+                      {goal.series_id && (
+                        <span className="flex items-center gap-1 text-primary">
+                          <Repeat className="w-3 h-3" />
+                          Recurring
+                        </span>
+                      )}
+                      {goal.due_date && (
+                        <span className="flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          {format(new Date(goal.due_date), "MMM d, yyyy")}
+                        </span>
+                      )}
+                      {goal.due_time && (
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-3 h-3" />
+                          {goal.due_time}
+                        </span>
+                      )}
+                      {!isActive && goal.points_earned > 0 && (
+                        <span className="text-success font-medium">+{goal.points_earned} pts</span>
+                      )}
+                      {!isActive && goal.ai_points_earned > 0 && (
+                        <span className="text-destructive font-medium">AI +{goal.ai_points_earned}</span>
+                      )}
+                    </div>
+
+                    {/* Subtasks (Long-term only) */}
+                    {goal.goal_type === "long_term" && (
+                      <GoalChecklist
+                        items={goal.goal_checklist_items || []}
+                        readOnly={!isActive}
+                        onToggle={onToggleChecklistItem}
+                        onAdd={onAddChecklistItem && ((itemTitle) => onAddChecklistItem(goal, itemTitle))}
+                        onDelete={onDeleteChecklistItem}
+                      />
                     )}
                   </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+
+                  {/* Action Buttons */}
+                  {isActive && (
+                    <div className="flex items-center gap-1">
+                      {/* Edit Button */}
+                      {onEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="flex-shrink-0 text-muted-foreground hover:text-primary"
+                          onClick={() => onEdit(goal)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                      )}
+                      {/* Delete Button */}
+                      {onDelete && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="flex-shrink-0 text-muted-foreground hover:text-destructive"
+                          onClick={() => onDelete(goal.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
     </div>
   );
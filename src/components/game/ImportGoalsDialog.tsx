@@ -0,0 +1,231 @@
+import { useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, FileUp } from "lucide-react";
+import {
+  CsvTable,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  ImportField,
+  ImportMapping,
+  guessMapping,
+  parseCsv,
+  parseIcs,
+  planImport,
+} from "@/lib/transfer";
+
+interface ImportGoalsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  timezone: string;
+  dayEndTime: string;
+  onImported: () => void;
+}
+
+const NOT_MAPPED = "__none";
+const INSERT_BATCH = 500;
+const MAX_LISTED_ERRORS = 20;
+
+export function ImportGoalsDialog({
+  open,
+  onOpenChange,
+  userId,
+  timezone,
+  dayEndTime,
+  onImported,
+}: ImportGoalsDialogProps) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [loading, setLoading] = useState(false);
+
+  const plan = useMemo(
+    () => (table ? planImport(table, mapping, userId, { timezone, dayEndTime }) : null),
+    [table, mapping, userId, timezone, dayEndTime]
+  );
+
+  // Closing forgets the file so the next import starts clean
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setFileName("");
+      setTable(null);
+      setMapping({});
+    }
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const text = await file.text();
+    const isCalendar = file.name.toLowerCase().endsWith(".ics") || text.trimStart().startsWith("BEGIN:VCALENDAR");
+    const parsed = isCalendar ? parseIcs(text, timezone) : parseCsv(text);
+
+    if (parsed.rows.length === 0) {
+      toast({ title: "Nothing to import", description: "The file has no goals in it", variant: "destructive" });
+      return;
+    }
+
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessMapping(parsed.headers));
+  };
+
+  const handleFieldChange = (field: ImportField, column: string) => {
+    setMapping((current) => ({ ...current, [field]: column === NOT_MAPPED ? undefined : column }));
+  };
+
+  const handleImport = async () => {
+    if (!plan || plan.goals.length === 0) return;
+    setLoading(true);
+
+    for (let i = 0; i < plan.goals.length; i += INSERT_BATCH) {
+      const { error } = await supabase.from("goals").insert(plan.goals.slice(i, i + INSERT_BATCH));
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: i > 0 ? `Imported ${i} goals before failing: ${error.message}` : "Failed to import goals",
+          variant: "destructive",
+        });
+        setLoading(false);
+        if (i > 0) onImported();
+        return;
+      }
+    }
+
+    toast({
+      title: "Goals Imported!",
+      description: `${plan.goals.length} goal${plan.goals.length === 1 ? "" : "s"} added${
+        plan.invalid.length > 0 ? `, ${plan.invalid.length} invalid row${plan.invalid.length === 1 ? "" : "s"} skipped` : ""
+      }${plan.finished > 0 ? `, ${plan.finished} finished goal${plan.finished === 1 ? "" : "s"} left out` : ""}`,
+    });
+
+    setLoading(false);
+    handleOpenChange(false);
+    onImported();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg bg-card border-border/50 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl">Import Goals</DialogTitle>
+          <DialogDescription>Bring goals in from a CSV file or an iCalendar (.ics) export.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* File */}
+          <div className="space-y-2">
+            <Label htmlFor="importFile" className="flex items-center gap-2">
+              <FileUp className="w-4 h-4" />
+              File
+            </Label>
+            <Input
+              id="importFile"
+              type="file"
+              accept=".csv,.ics,text/csv,text/calendar"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {table && (
+              <p className="text-xs text-muted-foreground">
+                {fileName}: {table.rows.length} row{table.rows.length === 1 ? "" : "s"}
+              </p>
+            )}
+          </div>
+
+          {/* Column Mapping */}
+          {table && (
+            <div className="space-y-3">
+              <Label>Columns</Label>
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field} className="grid grid-cols-[7rem_1fr] items-center gap-3">
+                  <span className="text-sm text-muted-foreground">
+                    {IMPORT_FIELD_LABELS[field]}
+                    {field === "title" && " *"}
+                  </span>
+                  <Select value={mapping[field] ?? NOT_MAPPED} onValueChange={(column) => handleFieldChange(field, column)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {table.headers
+                        .filter((header) => header !== "")
+                        .map((header) => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Without a type column, goals with a due date import as long-term and the rest as daily tasks.
+              </p>
+            </div>
+          )}
+
+          {/* Validation */}
+          {plan && (
+            <div className="space-y-2 text-xs">
+              <p className="flex items-center gap-2 text-foreground">
+                <CheckCircle2 className="w-4 h-4 text-primary" />
+                {plan.goals.length} goal{plan.goals.length === 1 ? "" : "s"} ready to import
+              </p>
+              {plan.finished > 0 && (
+                <p className="text-muted-foreground">
+                  {plan.finished} goal{plan.finished === 1 ? " is" : "s are"} already finished in the file and will be left out
+                </p>
+              )}
+              {plan.invalid.length > 0 && (
+                <div className="p-3 rounded-lg bg-destructive/10 space-y-1">
+                  <p className="flex items-center gap-2 font-medium text-destructive">
+                    <AlertTriangle className="w-4 h-4" />
+                    {plan.invalid.length} invalid row{plan.invalid.length === 1 ? "" : "s"} will be skipped
+                  </p>
+                  {plan.invalid.slice(0, MAX_LISTED_ERRORS).map(({ row, errors }) => (
+                    <p key={row} className="text-muted-foreground">
+                      Row {row}: {errors.join("; ")}
+                    </p>
+                  ))}
+                  {plan.invalid.length > MAX_LISTED_ERRORS && (
+                    <p className="text-muted-foreground">…and {plan.invalid.length - MAX_LISTED_ERRORS} more</p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Submit */}
+          <div className="flex gap-3">
+            <Button type="button" variant="ghost" className="flex-1" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="game"
+              className="flex-1"
+              onClick={handleImport}
+              disabled={loading || !plan || plan.goals.length === 0}
+            >
+              {loading ? "Importing..." : "Import"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,6 +6,7 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { useEffect, useState } from "react";
 import { ThemeType } from "@/config/game";
+import { getThemePack } from "@/themes";
 
 interface ObstacleLayerProps {
   theme: ThemeType;
@@ -14,34 +15,6 @@ interface ObstacleLayerProps {
   aiWinning?: boolean;
 }
 
-// Theme-specific obstacles
-const THEME_OBSTACLES: Record<ThemeType, { emoji: string; size: string }[]> = {
-  forest: [
-    { emoji: "🪨", size: "text-3xl" },
-    { emoji: "🌲", size: "text-4xl" },
-    { emoji: "🦊", size: "text-2xl" },
-    { emoji: "🍄", size: "text-2xl" },
-  ],
-  coding: [
-    { emoji: "🐛", size: "text-3xl" },
-    { emoji: "❌", size: "text-2xl" },
-    { emoji: "💥", size: "text-3xl" },
-    { emoji: "⚠️", size: "text-2xl" },
-  ],
-  ninja: [
-    { emoji: "⚔️", size: "text-3xl" },
-    { emoji: "🗡️", size: "text-2xl" },
-    { emoji: "🥷", size: "text-3xl" },
-    { emoji: "🌀", size: "text-2xl" },
-  ],
-  agent: [
-    { emoji: "💣", size: "text-3xl" },
-    { emoji: "🔫", size: "text-2xl" },
-    { emoji: "🚨", size: "text-3xl" },
-    { emoji: "🎯", size: "text-2xl" },
-  ],
-};
-
 interface Obstacle {
   id: number;
   emoji: string;
@@ -52,7 +25,7 @@ interface Obstacle {
 
 export function ObstacleLayer({ theme, isActive, speed, aiWinning }: ObstacleLayerProps) {
   const [obstacles, setObstacles] = useState<Obstacle[]>([]);
-  const obstacleTypes = THEME_OBSTACLES[theme];
+  const obstacleTypes = getThemePack(theme).obstacles;
   
   // Spawn obstacles
   useEffect(() => {
@@ -0,0 +1,46 @@
+import { cn } from "@/lib/utils";
+import { OpponentType } from "@/config/game";
+import { getAvailableOpponents } from "@/strategies/game";
+
+interface OpponentSelectorProps {
+  selected: OpponentType;
+  onChange: (opponent: OpponentType) => void;
+}
+
+const opponentOptions = getAvailableOpponents();
+
+function formatMultiplier(value: number): string {
+  return `×${value}`;
+}
+
+export function OpponentSelector({ selected, onChange }: OpponentSelectorProps) {
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {opponentOptions.map(({ id, name, description, emoji, modifiers }) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => onChange(id)}
+          className={cn(
+            "flex flex-col items-center p-3 rounded-xl border-2 transition-all text-center",
+            selected === id
+              ? "border-primary bg-primary/10 shadow-lg shadow-primary/20"
+              : "border-border hover:border-primary/50"
+          )}
+        >
+          <span className="text-3xl">{emoji}</span>
+          <span className={cn(
+            "text-sm mt-1 font-medium",
+            selected === id ? "text-primary" : "text-foreground"
+          )}>
+            {name}
+          </span>
+          <span className="text-[10px] text-muted-foreground mt-1 line-clamp-3">{description}</span>
+          <span className="text-[10px] text-muted-foreground mt-2">
+            You {formatMultiplier(modifiers.userPointsMultiplier)} · AI {formatMultiplier(modifiers.aiGainMultiplier)}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
 
 import { motion } from "framer-motion";
 import { ThemeType } from "@/config/game";
+import { getThemePack } from "@/themes";
 
 interface ParallaxBackgroundProps {
   theme: ThemeType;
@@ -14,47 +15,6 @@ interface ParallaxBackgroundProps {
   aiWinning?: boolean;
 }
 
-// Theme-specific colors and gradients
-const THEME_LAYERS: Record<ThemeType, {
-  far: string;
-  mid: string;
-  near: string;
-  ground: string;
-}> = {
-  forest: {
-    far: "from-emerald-900/30 via-transparent to-emerald-900/30",
-    mid: "from-green-800/40 via-transparent to-green-800/40",
-    near: "from-green-700/50 via-transparent to-green-700/50",
-    ground: "from-amber-900/60 to-amber-800/40",
-  },
-  coding: {
-    far: "from-blue-900/30 via-transparent to-blue-900/30",
-    mid: "from-cyan-800/40 via-transparent to-cyan-800/40",
-    near: "from-purple-700/50 via-transparent to-purple-700/50",
-    ground: "from-slate-900/60 to-slate-800/40",
-  },
-  ninja: {
-    far: "from-red-900/30 via-transparent to-red-900/30",
-    mid: "from-orange-800/40 via-transparent to-orange-800/40",
-    near: "from-pink-700/50 via-transparent to-pink-700/50",
-    ground: "from-stone-900/60 to-stone-800/40",
-  },
-  agent: {
-    far: "from-gray-900/30 via-transparent to-gray-900/30",
-    mid: "from-zinc-800/40 via-transparent to-zinc-800/40",
-    near: "from-neutral-700/50 via-transparent to-neutral-700/50",
-    ground: "from-slate-900/60 to-slate-800/40",
-  },
-};
-
-// Theme-specific decorations
-const THEME_DECORATIONS: Record<ThemeType, string[]> = {
-  forest: ["🌲", "🌳", "🌿", "🍃"],
-  coding: ["</>", "{ }", "[ ]", "01"],
-  ninja: ["⛩️", "🎋", "🌸", "☯️"],
-  agent: ["🎯", "💣", "🔒", "📡"],
-};
-
 export function ParallaxBackground({
   theme,
   speed,
@@ -62,8 +22,9 @@ export function ParallaxBackground({
   userWinning,
   aiWinning,
 }: ParallaxBackgroundProps) {
-  const layers = THEME_LAYERS[theme];
-  const decorations = THEME_DECORATIONS[theme];
+  // Gradient layers and drifting decorations come from the theme pack
+  const layers = getThemePack(theme).parallax;
+  const decorations = layers.decorations;
   
   // Adjust speed based on game state
   const baseSpeed = isActive ? speed : speed * 0.3;
@@ -0,0 +1,31 @@
+/**
+ * PlayerAvatar - The user's uploaded picture, or their bundled avatar when there is none
+ * Also falls back when the uploaded file can't be loaded, e.g. after it was removed
+ */
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import { avatarPublicUrl } from "@/lib/avatar";
+import { AVATARS, AvatarType, DEFAULT_AVATAR, isValidAvatar } from "@/config/game";
+
+interface PlayerAvatarProps {
+  avatarUrl?: string | null; // profiles.avatar_url, a path in the avatars bucket
+  avatarType?: AvatarType | null;
+  alt?: string;
+  className?: string;
+}
+
+export function PlayerAvatar({ avatarUrl, avatarType, alt = "You", className }: PlayerAvatarProps) {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const fallback = AVATARS[avatarType && isValidAvatar(avatarType) ? avatarType : DEFAULT_AVATAR];
+  const src = avatarUrl && avatarUrl !== failedUrl ? avatarPublicUrl(avatarUrl) : fallback;
+
+  return (
+    <img
+      src={src}
+      alt={alt}
+      className={cn("object-cover", className)}
+      onError={() => avatarUrl && setFailedUrl(avatarUrl)}
+    />
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * RecurrencePicker - Choose how a daily goal repeats
+ * Presets cover weekdays, Mon/Wed/Fri, a day of the month and every N days
+ */
+
+import { Repeat } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RecurrencePreset, RECURRENCE_PRESETS } from "@/engine/game";
+
+interface RecurrencePickerProps {
+  id: string;
+  preset: RecurrencePreset;
+  value: number;
+  onPresetChange: (preset: RecurrencePreset) => void;
+  onValueChange: (value: number) => void;
+  allowNone?: boolean;
+}
+
+export function RecurrencePicker({
+  id,
+  preset,
+  value,
+  onPresetChange,
+  onValueChange,
+  allowNone = true,
+}: RecurrencePickerProps) {
+  const presets = allowNone ? RECURRENCE_PRESETS : RECURRENCE_PRESETS.filter((p) => p.id !== "none");
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="flex items-center gap-2">
+        <Repeat className="w-4 h-4" />
+        Repeat
+      </Label>
+      <div className="flex gap-2">
+        <Select value={preset} onValueChange={(next) => onPresetChange(next as RecurrencePreset)}>
+          <SelectTrigger id={id} className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((p) => (
+              <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {preset === "monthly" && (
+          <Input
+            type="number"
+            className="w-24"
+            min={1}
+            max={31}
+            value={value}
+            onChange={(e) => onValueChange(Number(e.target.value))}
+            aria-label="Day of month"
+          />
+        )}
+        {preset === "interval" && (
+          <Input
+            type="number"
+            className="w-24"
+            min={1}
+            max={365}
+            value={value}
+            onChange={(e) => onValueChange(Number(e.target.value))}
+            aria-label="Number of days"
+          />
+        )}
+      </div>
+      {preset === "monthly" && (
+        <p className="text-xs text-muted-foreground">Months without this day are skipped</p>
+      )}
+    </div>
+  );
+}
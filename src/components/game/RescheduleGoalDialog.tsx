@@ -0,0 +1,94 @@
+import { format, parseISO } from "date-fns";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowRight, ShieldAlert, Zap } from "lucide-react";
+import { DeadlineGoal, scoreGoalCompletion, scoreMissedGoal } from "@/engine/game";
+import { DifficultyType, OpponentType } from "@/config/game";
+import { getGameStrategy } from "@/strategies/game";
+
+interface ReschedulableGoal extends DeadlineGoal {
+  title: string;
+}
+
+interface RescheduleGoalDialogProps {
+  goal: ReschedulableGoal | null;
+  dueDate: string | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+  timezone: string;
+  dayEndTime: string;
+  opponent?: OpponentType;
+  difficulty?: DifficultyType;
+}
+
+export function RescheduleGoalDialog({
+  goal,
+  dueDate,
+  onConfirm,
+  onCancel,
+  timezone,
+  dayEndTime,
+  opponent,
+  difficulty,
+}: RescheduleGoalDialogProps) {
+  if (!goal || !dueDate) return null;
+
+  const strategy = getGameStrategy(opponent, difficulty);
+  const now = new Date();
+  const moved: DeadlineGoal = { ...goal, due_date: dueDate };
+
+  // What completing right now would score, before and after the move
+  const before = strategy.applyScoringModifiers(scoreGoalCompletion({ goal, completedAt: now, timezone, dayEndTime }));
+  const after = strategy.applyScoringModifiers(scoreGoalCompletion({ goal: moved, completedAt: now, timezone, dayEndTime }));
+  const missed = strategy.applyScoringModifiers(scoreMissedGoal(moved));
+
+  return (
+    <AlertDialog open onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="bg-card border-border/50">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="font-display">Reschedule "{goal.title}"?</AlertDialogTitle>
+          <AlertDialogDescription className="flex items-center gap-2">
+            {goal.due_date ? format(parseISO(goal.due_date), "EEE, MMM d") : "No due date"}
+            <ArrowRight className="w-4 h-4" />
+            {format(parseISO(dueDate), "EEE, MMM d")}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {/* Scoring Preview */}
+        <div className="space-y-2 text-xs text-muted-foreground">
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-muted/30">
+            <Zap className="w-4 h-4 text-accent shrink-0" />
+            <div className="space-y-1">
+              <p>
+                Complete now as scheduled: <span className="text-foreground font-medium">{before.message}</span>
+              </p>
+              <p>
+                Complete now after the move: <span className="text-foreground font-medium">{after.message}</span>
+              </p>
+            </div>
+          </div>
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10">
+            <ShieldAlert className="w-4 h-4 text-destructive shrink-0" />
+            <p>
+              Not done by {format(parseISO(dueDate), "EEE, MMM d")} at {(goal.due_time || dayEndTime).slice(0, 5)}:{" "}
+              <span className="text-foreground font-medium">{missed.message}</span>
+            </p>
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Reschedule</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,15 +1,24 @@
-import { Trophy, Bot, Swords } from "lucide-react";
+import { Trophy, Bot, Swords, Gauge } from "lucide-react";
 import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { SCORING_CONFIG, DifficultyType, OpponentType } from "@/config/game";
+import { getGameStrategy } from "@/strategies/game";
+import { scoreMissedGoal } from "@/engine/game";
 
 interface ScoreBoardProps {
   userPoints: number;
   aiPoints: number;
   username: string;
+  opponent?: OpponentType;
+  difficulty?: DifficultyType;
 }
 
-export function ScoreBoard({ userPoints, aiPoints, username }: ScoreBoardProps) {
+export function ScoreBoard({ userPoints, aiPoints, username, opponent, difficulty }: ScoreBoardProps) {
   const userWinning = userPoints > aiPoints;
   const tied = userPoints === aiPoints;
+  const strategy = getGameStrategy(opponent, difficulty);
+  const pointsToWin = strategy.getPointsToWin();
+  const missedPenalty = strategy.applyScoringModifiers(scoreMissedGoal({ goal_type: "daily" })).aiPoints;
 
   return (
     <Card className="p-6 bg-gradient-to-br from-card via-card to-card/50 overflow-hidden relative">
@@ -26,6 +35,18 @@ export function ScoreBoard({ userPoints, aiPoints, username }: ScoreBoardProps)
           <h2 className="font-display font-bold text-lg text-foreground">Battle Score</h2>
         </div>
 
+        {/* Difficulty & Victory Threshold */}
+        <div className="mb-6 space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Gauge className="w-3 h-3" />
+              {strategy.difficulty.name}
+            </span>
+            <span>{Math.min(userPoints, pointsToWin)} / {pointsToWin} pts to win</span>
+          </div>
+          <Progress value={Math.min(100, (userPoints / pointsToWin) * 100)} className="h-2 bg-muted" />
+        </div>
+
         {/* Scores */}
         <div className="flex items-center justify-between gap-4">
           {/* User Score */}
@@ -53,7 +74,7 @@ export function ScoreBoard({ userPoints, aiPoints, username }: ScoreBoardProps)
             <div className="w-16 h-16 mx-auto mb-3 rounded-full bg-gradient-to-br from-secondary to-secondary/60 flex items-center justify-center shadow-lg shadow-secondary/30">
               <Bot className={`w-8 h-8 ${!userWinning && !tied ? "text-secondary-foreground animate-pulse" : "text-secondary-foreground"}`} />
             </div>
-            <p className="text-sm text-muted-foreground mb-1">AI Rival</p>
+            <p className="text-sm text-muted-foreground mb-1">{strategy.opponent.emoji} {strategy.opponent.name}</p>
             <p className={`text-4xl font-display font-bold ${!userWinning && !tied ? "text-destructive" : "text-foreground"}`}>
               {aiPoints}
             </p>
@@ -65,10 +86,11 @@ export function ScoreBoard({ userPoints, aiPoints, username }: ScoreBoardProps)
         <div className="mt-6 p-4 rounded-lg bg-muted/30 text-xs text-muted-foreground">
           <p className="font-medium mb-2 text-foreground">Point System:</p>
           <div className="grid grid-cols-2 gap-2">
-            <span className="text-success">+20 pts</span><span>Complete early</span>
-            <span className="text-success">+10 pts</span><span>Complete on time</span>
-            <span className="text-accent">+5 pts</span><span>Daily task done</span>
-            <span className="text-destructive">AI +15</span><span>Missed goal</span>
+            <span className="text-success">+{SCORING_CONFIG.daily.earlyCompletion.userPoints} pts</span><span>Complete early</span>
+            <span className="text-success">+{SCORING_CONFIG.longTerm.onTimeCompletion.userPoints} pts</span><span>Complete on time</span>
+            <span className="text-accent">+{SCORING_CONFIG.daily.onTimeCompletion.userPoints} pts</span><span>Daily task done</span>
+            <span className="text-destructive">AI +{missedPenalty}</span><span>Missed goal</span>
+            <span className="text-accent">+{SCORING_CONFIG.victory.streakBonus}/day</span><span>Streak bonus (max +{SCORING_CONFIG.victory.streakBonusCap})</span>
           </div>
         </div>
       </div>
@@ -0,0 +1,179 @@
+/**
+ * ScoreHistory - Ledger of every point award and penalty
+ * Filterable by day (in the user's timezone) and by source
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import { History, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PointEvent, PointEventSource } from "@/config/game";
+import { getZonedDate, getZonedTime, zonedTimeToUtc } from "@/engine/game";
+
+interface ScoreHistoryProps {
+  userId: string;
+  timezone: string;
+}
+
+type LedgerRow = PointEvent & { goals: { title: string } | null };
+
+const SOURCE_LABELS: Record<PointEventSource, string> = {
+  goal_completed: "Goal completed",
+  goal_missed: "Missed goal",
+  missed_reversal: "Missed goal reversed",
+  checklist_item: "Subtask",
+  streak_bonus: "Streak bonus",
+  manual_adjustment: "Adjustment",
+};
+
+const PAGE_SIZE = 100;
+
+// In the profile timezone, like the day filter, rather than the browser's
+function formatEventTime(createdAt: string, timezone: string): string {
+  const instant = new Date(createdAt);
+  return `${format(parseISO(getZonedDate(instant, timezone)), "MMM d")}, ${getZonedTime(instant, timezone)}`;
+}
+
+function formatPoints(points: number): string {
+  return points > 0 ? `+${points}` : `${points}`;
+}
+
+export function ScoreHistory({ userId, timezone }: ScoreHistoryProps) {
+  const [events, setEvents] = useState<LedgerRow[]>([]);
+  const [day, setDay] = useState("");
+  const [source, setSource] = useState<PointEventSource | "all">("all");
+
+  const fetchEvents = useCallback(async () => {
+    let query = supabase
+      .from("point_events")
+      .select("*, goals(title)")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (day) {
+      const nextDay = format(addDays(parseISO(day), 1), "yyyy-MM-dd");
+      query = query
+        .gte("created_at", zonedTimeToUtc(day, "00:00", timezone).toISOString())
+        .lt("created_at", zonedTimeToUtc(nextDay, "00:00", timezone).toISOString());
+    }
+
+    if (source !== "all") {
+      query = query.eq("source", source);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching score history:", error);
+      return;
+    }
+
+    setEvents(data as LedgerRow[]);
+  }, [userId, timezone, day, source]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  // New ledger entries arrive as points are awarded
+  useEffect(() => {
+    const channel = supabase
+      .channel("point-events-changes")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "point_events",
+          filter: `user_id=eq.${userId}`,
+        },
+        () => {
+          fetchEvents();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchEvents]);
+
+  return (
+    <Card className="bg-card/80">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-display text-lg">
+          <History className="w-5 h-5 text-primary" />
+          Score History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            className="flex-1"
+            value={day}
+            onChange={(e) => setDay(e.target.value)}
+            aria-label="Filter by day"
+          />
+          {day && (
+            <Button variant="ghost" size="icon" onClick={() => setDay("")} aria-label="Clear day filter">
+              <X className="w-4 h-4" />
+            </Button>
+          )}
+          <Select value={source} onValueChange={(value) => setSource(value as PointEventSource | "all")}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              {(Object.keys(SOURCE_LABELS) as PointEventSource[]).map((key) => (
+                <SelectItem key={key} value={key}>{SOURCE_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Ledger */}
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No score changes found</p>
+        ) : (
+          <div className="space-y-2">
+            {events.map((event) => (
+              <div
+                key={event.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/30 text-sm"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">
+                    {event.goals?.title || SOURCE_LABELS[event.source]}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {formatEventTime(event.created_at, timezone)} · {event.reason || SOURCE_LABELS[event.source]}
+                  </p>
+                </div>
+                <div className="flex-shrink-0 text-right text-xs font-medium">
+                  {event.user_points !== 0 && (
+                    <p className={event.user_points > 0 ? "text-success" : "text-destructive"}>
+                      {formatPoints(event.user_points)} pts
+                    </p>
+                  )}
+                  {event.ai_points !== 0 && (
+                    <p className={event.ai_points > 0 ? "text-destructive" : "text-success"}>
+                      AI {formatPoints(event.ai_points)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,19 @@
 /**
  * StreakBadge - Animated streak display with fire effects
  * Shows current streak with milestone-based visual upgrades
+ * The tooltip explains the daily streak bonus
  */
 
 import { motion } from "framer-motion";
 import { Flame, Award, Trophy, Crown } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { getStreakBonus } from "@/engine/game";
 
 interface StreakBadgeProps {
   currentStreak: number;
   longestStreak: number;
   compact?: boolean;
+  bonusClaimedToday?: boolean;
 }
 
 type StreakTier = "none" | "bronze" | "silver" | "gold" | "legendary";
@@ -66,126 +70,161 @@ const TIER_STYLES: Record<StreakTier, {
   },
 };
 
-export function StreakBadge({ currentStreak, longestStreak, compact = false }: StreakBadgeProps) {
-  const tier = getStreakTier(currentStreak);
-  const styles = TIER_STYLES[tier];
-  const Icon = styles.icon;
+function StreakBonusText({ currentStreak, bonusClaimedToday }: { currentStreak: number; bonusClaimedToday: boolean }) {
+  const nextBonus = getStreakBonus(currentStreak + 1);
 
-  if (compact) {
+  if (bonusClaimedToday) {
+    const todayBonus = getStreakBonus(currentStreak);
     return (
-      <motion.div
-        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gradient-to-r ${styles.bgGradient} ${styles.glowColor} shadow-lg`}
-        whileHover={{ scale: 1.05 }}
-        animate={tier !== "none" ? { 
-          boxShadow: [
-            `0 0 10px hsl(var(--primary) / 0.3)`,
-            `0 0 20px hsl(var(--primary) / 0.5)`,
-            `0 0 10px hsl(var(--primary) / 0.3)`,
-          ]
-        } : {}}
-        transition={{ repeat: Infinity, duration: 2 }}
-      >
-        <motion.div
-          animate={tier !== "none" ? { scale: [1, 1.2, 1], rotate: [0, 10, -10, 0] } : {}}
-          transition={{ repeat: Infinity, duration: 1.5 }}
-        >
-          <Icon className={`w-4 h-4 ${styles.textColor}`} />
-        </motion.div>
-        <span className={`text-sm font-bold ${styles.textColor}`}>
-          {currentStreak}
-        </span>
-      </motion.div>
+      <div className="space-y-1 text-xs">
+        <p className="font-medium">{todayBonus > 0 ? `Today's streak bonus: +${todayBonus} ✓` : "Streak started today ✓"}</p>
+        <p className="text-muted-foreground">Complete a goal tomorrow for +{nextBonus}</p>
+      </div>
     );
   }
 
   return (
-    <motion.div
-      className={`relative overflow-hidden rounded-xl p-4 bg-gradient-to-br ${styles.bgGradient} ${styles.glowColor} shadow-xl`}
-      initial={{ opacity: 0, y: 20 }}
-      animate={{ opacity: 1, y: 0 }}
-      whileHover={{ scale: 1.02 }}
-    >
-      {/* Animated fire particles for active streaks */}
-      {tier !== "none" && (
-        <div className="absolute inset-0 overflow-hidden pointer-events-none">
-          {[...Array(5)].map((_, i) => (
-            <motion.div
-              key={i}
-              className="absolute w-2 h-2 rounded-full bg-yellow-300/60"
-              style={{
-                left: `${20 + i * 15}%`,
-                bottom: 0,
-              }}
-              animate={{
-                y: [0, -40, -60],
-                opacity: [0, 1, 0],
-                scale: [0.5, 1, 0],
-              }}
-              transition={{
-                repeat: Infinity,
-                duration: 1 + i * 0.2,
-                delay: i * 0.3,
-                ease: "easeOut",
-              }}
-            />
-          ))}
-        </div>
-      )}
-
-      <div className="relative z-10 flex items-center justify-between">
-        <div className="flex items-center gap-3">
+    <div className="space-y-1 text-xs">
+      <p className="font-medium">Streak bonus: +{nextBonus} on your first completion today</p>
+      <p className="text-muted-foreground">Grows every consecutive day</p>
+    </div>
+  );
+}
+
+export function StreakBadge({ currentStreak, longestStreak, compact = false, bonusClaimedToday = false }: StreakBadgeProps) {
+  const tier = getStreakTier(currentStreak);
+  const styles = TIER_STYLES[tier];
+  const Icon = styles.icon;
+
+  if (compact) {
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
           <motion.div
-            className="relative"
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gradient-to-r ${styles.bgGradient} ${styles.glowColor} shadow-lg`}
+            whileHover={{ scale: 1.05 }}
             animate={tier !== "none" ? { 
-              scale: [1, 1.15, 1],
-              rotate: [0, 5, -5, 0],
+              boxShadow: [
+                `0 0 10px hsl(var(--primary) / 0.3)`,
+                `0 0 20px hsl(var(--primary) / 0.5)`,
+                `0 0 10px hsl(var(--primary) / 0.3)`,
+              ]
             } : {}}
-            transition={{ repeat: Infinity, duration: 1.5 }}
+            transition={{ repeat: Infinity, duration: 2 }}
           >
-            <Icon className={`w-8 h-8 ${styles.textColor}`} />
-            {tier === "legendary" && (
-              <motion.div
-                className="absolute -inset-2 bg-gradient-to-r from-yellow-400 to-orange-500 rounded-full blur-md -z-10"
-                animate={{ opacity: [0.5, 1, 0.5] }}
-                transition={{ repeat: Infinity, duration: 1 }}
-              />
-            )}
+            <motion.div
+              animate={tier !== "none" ? { scale: [1, 1.2, 1], rotate: [0, 10, -10, 0] } : {}}
+              transition={{ repeat: Infinity, duration: 1.5 }}
+            >
+              <Icon className={`w-4 h-4 ${styles.textColor}`} />
+            </motion.div>
+            <span className={`text-sm font-bold ${styles.textColor}`}>
+              {currentStreak}
+            </span>
           </motion.div>
-          <div>
-            <p className={`text-xs font-medium ${styles.textColor} opacity-80`}>
-              {styles.label}
-            </p>
-            <p className={`text-2xl font-bold ${styles.textColor}`}>
-              {currentStreak} Day{currentStreak !== 1 ? "s" : ""}
-            </p>
-          </div>
-        </div>
+        </TooltipTrigger>
+        <TooltipContent>
+          <StreakBonusText currentStreak={currentStreak} bonusClaimedToday={bonusClaimedToday} />
+        </TooltipContent>
+      </Tooltip>
+    );
+  }
 
-        <div className={`text-right ${styles.textColor}`}>
-          <p className="text-xs opacity-70">Best</p>
-          <p className="text-lg font-semibold">{longestStreak}</p>
-        </div>
-      </div>
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <motion.div
+          className={`relative overflow-hidden rounded-xl p-4 bg-gradient-to-br ${styles.bgGradient} ${styles.glowColor} shadow-xl`}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          whileHover={{ scale: 1.02 }}
+        >
+          {/* Animated fire particles for active streaks */}
+          {tier !== "none" && (
+            <div className="absolute inset-0 overflow-hidden pointer-events-none">
+              {[...Array(5)].map((_, i) => (
+                <motion.div
+                  key={i}
+                  className="absolute w-2 h-2 rounded-full bg-yellow-300/60"
+                  style={{
+                    left: `${20 + i * 15}%`,
+                    bottom: 0,
+                  }}
+                  animate={{
+                    y: [0, -40, -60],
+                    opacity: [0, 1, 0],
+                    scale: [0.5, 1, 0],
+                  }}
+                  transition={{
+                    repeat: Infinity,
+                    duration: 1 + i * 0.2,
+                    delay: i * 0.3,
+                    ease: "easeOut",
+                  }}
+                />
+              ))}
+            </div>
+          )}
 
-      {/* Progress to next tier */}
-      {tier !== "legendary" && currentStreak > 0 && (
-        <div className="mt-3 relative">
-          <div className="h-1.5 bg-black/20 rounded-full overflow-hidden">
-            <motion.div
-              className="h-full bg-white/60 rounded-full"
-              initial={{ width: 0 }}
-              animate={{ 
-                width: `${getProgressToNextTier(currentStreak)}%` 
-              }}
-              transition={{ duration: 0.5 }}
-            />
+          <div className="relative z-10 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <motion.div
+                className="relative"
+                animate={tier !== "none" ? { 
+                  scale: [1, 1.15, 1],
+                  rotate: [0, 5, -5, 0],
+                } : {}}
+                transition={{ repeat: Infinity, duration: 1.5 }}
+              >
+                <Icon className={`w-8 h-8 ${styles.textColor}`} />
+                {tier === "legendary" && (
+                  <motion.div
+                    className="absolute -inset-2 bg-gradient-to-r from-yellow-400 to-orange-500 rounded-full blur-md -z-10"
+                    animate={{ opacity: [0.5, 1, 0.5] }}
+                    transition={{ repeat: Infinity, duration: 1 }}
+                  />
+                )}
+              </motion.div>
+              <div>
+                <p className={`text-xs font-medium ${styles.textColor} opacity-80`}>
+                  {styles.label}
+                </p>
+                <p className={`text-2xl font-bold ${styles.textColor}`}>
+                  {currentStreak} Day{currentStreak !== 1 ? "s" : ""}
+                </p>
+              </div>
+            </div>
+
+            <div className={`text-right ${styles.textColor}`}>
+              <p className="text-xs opacity-70">Best</p>
+              <p className="text-lg font-semibold">{longestStreak}</p>
+            </div>
           </div>
-          <p className={`text-xs mt-1 ${styles.textColor} opacity-70`}>
-            {getNextTierText(currentStreak)}
-          </p>
-        </div>
-      )}
-    </motion.div>
+
+          {/* Progress to next tier */}
+          {tier !== "legendary" && currentStreak > 0 && (
+            <div className="mt-3 relative">
+              <div className="h-1.5 bg-black/20 rounded-full overflow-hidden">
+                <motion.div
+                  className="h-full bg-white/60 rounded-full"
+                  initial={{ width: 0 }}
+                  animate={{ 
+                    width: `${getProgressToNextTier(currentStreak)}%` 
+                  }}
+                  transition={{ duration: 0.5 }}
+                />
+              </div>
+              <p className={`text-xs mt-1 ${styles.textColor} opacity-70`}>
+                {getNextTierText(currentStreak)}
+              </p>
+            </div>
+          )}
+        </motion.div>
+      </TooltipTrigger>
+      <TooltipContent>
+        <StreakBonusText currentStreak={currentStreak} bonusClaimedToday={bonusClaimedToday} />
+      </TooltipContent>
+    </Tooltip>
   );
 }
 
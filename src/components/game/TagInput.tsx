@@ -0,0 +1,101 @@
+/**
+ * TagInput - Free-form tags typed as chips
+ * Enter or a comma adds the tag; Backspace on an empty field removes the last one
+ */
+
+import { useState } from "react";
+import { Hash, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MAX_GOAL_TAGS } from "@/config/game";
+import { normalizeTag } from "@/engine/game";
+
+interface TagInputProps {
+  id: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[]; // tags already used on other goals
+}
+
+export function TagInput({ id, value, onChange, suggestions = [] }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const full = value.length >= MAX_GOAL_TAGS;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft("");
+    if (!tag || full || value.includes(tag)) return;
+    onChange([...value, tag]);
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter((t) => t !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const query = normalizeTag(draft);
+  const matches = query
+    ? suggestions.filter((tag) => tag.startsWith(query) && !value.includes(tag)).slice(0, 5)
+    : [];
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="flex items-center gap-2">
+        <Hash className="w-4 h-4" />
+        Tags (Optional)
+      </Label>
+      <div className="flex flex-wrap items-center gap-1.5 p-2 rounded-md border border-input bg-background">
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-full text-xs font-medium bg-primary/15 text-primary"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="rounded-full hover:bg-primary/20"
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => draft.trim() && addTag(draft)}
+          placeholder={full ? `Up to ${MAX_GOAL_TAGS} tags` : value.length === 0 ? "e.g. deep-work, morning" : ""}
+          disabled={full}
+          className="flex-1 min-w-[8rem] h-7 border-0 p-0 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              // Fires before the input's blur would add the half-typed draft
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(tag);
+              }}
+              className="px-2 py-0.5 rounded-full text-xs text-muted-foreground border border-border hover:border-primary/50 hover:text-foreground transition-colors"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
-import { Trophy, Sparkles } from "lucide-react";
+import { Trophy, Sparkles, Flame } from "lucide-react";
 
 interface VictoryAnimationProps {
   points: number;
   message: string;
+  bonus?: number; // Streak bonus paid with this completion
+  bonusMessage?: string;
 }
 
-export function VictoryAnimation({ points, message }: VictoryAnimationProps) {
+export function VictoryAnimation({ points, message, bonus = 0, bonusMessage }: VictoryAnimationProps) {
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center pointer-events-none">
       {/* Overlay */}
@@ -29,6 +31,12 @@ export function VictoryAnimation({ points, message }: VictoryAnimationProps) {
             +{points}
           </p>
           <p className="text-lg text-foreground mt-2">{message}</p>
+          {bonus > 0 && (
+            <p className="flex items-center justify-center gap-1 text-sm font-medium text-accent mt-2 animate-score-pop">
+              <Flame className="w-4 h-4" />
+              {bonusMessage || `Streak bonus +${bonus}`}
+            </p>
+          )}
         </div>
 
         {/* Side sparkles */}
@@ -3,21 +3,30 @@
  */
 
 import { motion } from "framer-motion";
-import { ThemeType, GameState } from "@/config/game/types";
-import { THEME_CONFIGS } from "@/config/game/themes.config";
+import { ThemeType, GameState, VictoryDanceMoves } from "@/config/game/types";
+import { getThemePack } from "@/themes";
 
 interface VictoryDanceProps {
   winner: "user" | "ai";
   theme: ThemeType;
   userSprite: string;
   aiSprite: string;
+  dance?: VictoryDanceMoves; // the user's equipped dance, used when they win
+  aiSpriteFilter?: string; // CSS filter from the user's AI skin
 }
 
-export function VictoryDance({ winner, theme, userSprite, aiSprite }: VictoryDanceProps) {
-  const config = THEME_CONFIGS[theme];
+const DEFAULT_DANCE: VictoryDanceMoves = {
+  y: [0, -30, 0, -25, 0, -15, 0],
+  rotate: [0, -5, 5, -5, 5, 0],
+  scale: [1, 1.1, 1, 1.05, 1],
+};
+
+export function VictoryDance({ winner, theme, userSprite, aiSprite, dance, aiSpriteFilter }: VictoryDanceProps) {
+  const config = getThemePack(theme);
   const isUserWinner = winner === "user";
   const winnerSprite = isUserWinner ? userSprite : aiSprite;
   const loserSprite = isUserWinner ? aiSprite : userSprite;
+  const moves = isUserWinner && dance ? dance : DEFAULT_DANCE;
   const effects = isUserWinner ? config.effects.victoryEffects : config.effects.defeatEffects;
   const message = isUserWinner ? config.messages.victoryText : config.messages.defeatText;
 
@@ -64,11 +73,7 @@ export function VictoryDance({ winner, theme, userSprite, aiSprite }: VictoryDan
       {/* Winner with victory dance */}
       <motion.div
         className="relative z-10"
-        animate={{
-          y: [0, -30, 0, -25, 0, -15, 0],
-          rotate: [0, -5, 5, -5, 5, 0],
-          scale: [1, 1.1, 1, 1.05, 1],
-        }}
+        animate={moves}
         transition={{
           duration: 1.5,
           repeat: Infinity,
@@ -97,6 +102,7 @@ export function VictoryDance({ winner, theme, userSprite, aiSprite }: VictoryDan
           src={winnerSprite}
           alt={isUserWinner ? "You win!" : "AI wins!"}
           className="w-40 h-40 object-contain drop-shadow-2xl relative z-10"
+          style={{ filter: isUserWinner ? undefined : aiSpriteFilter }}
         />
 
         {/* Winner label */}
@@ -128,6 +134,7 @@ export function VictoryDance({ winner, theme, userSprite, aiSprite }: VictoryDan
           src={loserSprite}
           alt={isUserWinner ? "AI loses" : "You lose"}
           className="w-20 h-20 object-contain grayscale brightness-75"
+          style={{ filter: isUserWinner && aiSpriteFilter ? `${aiSpriteFilter} grayscale(1) brightness(0.75)` : undefined }}
         />
       </motion.div>
 
@@ -0,0 +1,25 @@
+/**
+ * Arena Rival - A friend racing in the AI's place in head-to-head mode
+ */
+
+import { AvatarType } from "@/config/game";
+import { LeaderboardEntry } from "@/hooks/useFriends";
+import { getThemePack } from "@/themes";
+
+export interface ArenaRival {
+  name: string;
+  points: number; // the friend's live round score, shown in place of the AI's
+  sprite: string; // the action sprite of the friend's own theme
+  avatarUrl: string | null;
+  avatarType: AvatarType | null;
+}
+
+export function toArenaRival(entry: LeaderboardEntry): ArenaRival {
+  return {
+    name: entry.username || "Friend",
+    points: entry.round_points,
+    sprite: getThemePack(entry.background_theme).assets.userSprite,
+    avatarUrl: entry.avatar_url,
+    avatarType: entry.avatar_type,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Achievements Configuration - The trophy case catalogue
+ * Each achievement unlocks once its rule's metric reaches the target; see engine/game/achievements.ts
+ * Server-side ids and targets live in public.unlock_achievements() and must be kept in sync
+ */
+
+import { Achievement } from "./types";
+
+// Completions before this local hour count as dawn completions
+export const EARLY_BIRD_HOUR = 7;
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first-goal",
+    name: "First Steps",
+    description: "Complete your first goal",
+    emoji: "👣",
+    rule: { metric: "completions", target: 1 },
+  },
+  {
+    id: "completions-50",
+    name: "Half Century",
+    description: "Complete 50 goals",
+    emoji: "🎯",
+    rule: { metric: "completions", target: 50 },
+  },
+  {
+    id: "completions-250",
+    name: "Goal Machine",
+    description: "Complete 250 goals",
+    emoji: "⚙️",
+    rule: { metric: "completions", target: 250 },
+  },
+  {
+    id: "early-10",
+    name: "Ahead of Schedule",
+    description: "Complete 10 goals early",
+    emoji: "⏩",
+    rule: { metric: "earlyCompletions", target: 10 },
+  },
+  {
+    id: "early-50",
+    name: "Time Bender",
+    description: "Complete 50 goals early",
+    emoji: "⏳",
+    rule: { metric: "earlyCompletions", target: 50 },
+  },
+  {
+    id: "dawn-1",
+    name: "Early Bird",
+    description: `Complete a goal before ${EARLY_BIRD_HOUR}am`,
+    emoji: "🐦",
+    rule: { metric: "dawnCompletions", target: 1 },
+  },
+  {
+    id: "dawn-10",
+    name: "Sunrise Club",
+    description: `Complete 10 goals before ${EARLY_BIRD_HOUR}am`,
+    emoji: "🌅",
+    rule: { metric: "dawnCompletions", target: 10 },
+  },
+  {
+    id: "streak-7",
+    name: "Week on Fire",
+    description: "Complete a goal every day for 7 days",
+    emoji: "🔥",
+    rule: { metric: "longestStreak", target: 7 },
+  },
+  {
+    id: "streak-60",
+    name: "Eternal Flame",
+    description: "Complete a goal every day for 60 days",
+    emoji: "☄️",
+    rule: { metric: "longestStreak", target: 60 },
+  },
+  {
+    id: "round-win-1",
+    name: "First Victory",
+    description: "Beat the AI in a daily round",
+    emoji: "🥊",
+    rule: { metric: "roundWins", target: 1 },
+  },
+  {
+    id: "round-win-30",
+    name: "Champion",
+    description: "Beat the AI in 30 daily rounds",
+    emoji: "🏆",
+    rule: { metric: "roundWins", target: 30 },
+  },
+  {
+    id: "win-streak-3",
+    name: "Hat Trick",
+    description: "Beat the AI 3 days in a row",
+    emoji: "🎩",
+    rule: { metric: "winStreak", target: 3 },
+  },
+  {
+    id: "win-streak-7",
+    name: "Unstoppable",
+    description: "Beat the AI 7 days in a row",
+    emoji: "🚀",
+    rule: { metric: "winStreak", target: 7 },
+  },
+  {
+    id: "perfect-month",
+    name: "Flawless Month",
+    description: "Finish a calendar month without missing a goal",
+    emoji: "💎",
+    rule: { metric: "perfectMonths", target: 1 },
+  },
+];
@@ -38,3 +38,7 @@ export const AVATAR_CONFIGS: Record<AvatarType, AvatarConfig> = {
 };
 
 export const DEFAULT_AVATAR: AvatarType = "boy";
+
+// Uploaded pictures are cropped square and stored at this size, in pixels
+export const AVATAR_UPLOAD_SIZE = 256;
+export const MAX_AVATAR_FILE_MB = 10; // checked before resizing
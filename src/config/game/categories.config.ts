@@ -0,0 +1,25 @@
+/**
+ * Category Configuration - Colour palette and starter categories for goals
+ * Colours are stored as hex on goal_categories, so the palette can change without a migration
+ */
+
+export const CATEGORY_COLORS = [
+  "#22d3ee", // cyan
+  "#a78bfa", // violet
+  "#f472b6", // pink
+  "#f87171", // red
+  "#fb923c", // orange
+  "#facc15", // yellow
+  "#4ade80", // green
+  "#60a5fa", // blue
+] as const;
+
+// Offered while a user has no categories yet
+export const SUGGESTED_CATEGORIES: { name: string; color: string }[] = [
+  { name: "Work", color: "#60a5fa" },
+  { name: "Health", color: "#4ade80" },
+  { name: "Learning", color: "#a78bfa" },
+];
+
+export const MAX_GOAL_TAGS = 10; // mirrors the goals.tags CHECK constraint
+export const MAX_TAG_LENGTH = 24;
@@ -0,0 +1,83 @@
+/**
+ * Cosmetics Configuration - Everything the Locker sells
+ * Prices and slots are mirrored by the cosmetic_item SQL function, which is what purchases are charged from
+ */
+
+import { CosmeticItem, CosmeticSlot } from "./types";
+
+export const COSMETIC_SLOTS: { slot: CosmeticSlot; name: string }[] = [
+  { slot: "hat", name: "Hats" },
+  { slot: "trail", name: "Trails" },
+  { slot: "dance", name: "Victory Dances" },
+  { slot: "aiSprite", name: "AI Skins" },
+];
+
+export const COSMETIC_ITEMS: CosmeticItem[] = [
+  { id: "hat.cap", slot: "hat", name: "Cap", description: "Keeps the sun out of your eyes", price: 50, emoji: "🧢" },
+  { id: "hat.helmet", slot: "hat", name: "Rescue Helmet", description: "Safety first", price: 80, emoji: "⛑️" },
+  { id: "hat.graduate", slot: "hat", name: "Mortarboard", description: "For the lifelong learner", price: 120, emoji: "🎓" },
+  { id: "hat.tophat", slot: "hat", name: "Top Hat", description: "Win in style", price: 200, emoji: "🎩" },
+
+  { id: "trail.sparkles", slot: "trail", name: "Sparkles", description: "A little shimmer behind you", price: 75, emoji: "✨" },
+  { id: "trail.hearts", slot: "trail", name: "Hearts", description: "Leave some love on the track", price: 100, emoji: "💖" },
+  { id: "trail.fire", slot: "trail", name: "Fire", description: "You're on fire", price: 150, emoji: "🔥" },
+  { id: "trail.rainbow", slot: "trail", name: "Rainbow", description: "Every colour at once", price: 250, emoji: "🌈" },
+
+  {
+    id: "dance.bounce",
+    slot: "dance",
+    name: "Bounce",
+    description: "Big happy hops",
+    price: 120,
+    dance: { y: [0, -50, 0, -50, 0, -30, 0], rotate: [0, 0, 0, 0, 0, 0], scale: [1, 1.15, 0.9, 1.15, 0.9, 1] },
+  },
+  {
+    id: "dance.wiggle",
+    slot: "dance",
+    name: "Wiggle",
+    description: "Shake it side to side",
+    price: 150,
+    dance: { y: [0, -8, 0, -8, 0], rotate: [0, -20, 20, -20, 20, 0], scale: [1, 1.05, 1, 1.05, 1] },
+  },
+  {
+    id: "dance.spin",
+    slot: "dance",
+    name: "Spin",
+    description: "A full twirl on the podium",
+    price: 200,
+    dance: { y: [0, -20, 0], rotate: [0, 180, 360], scale: [1, 1.1, 1] },
+  },
+
+  {
+    id: "aiSprite.crimson",
+    slot: "aiSprite",
+    name: "Crimson Rival",
+    description: "Your opponent sees red",
+    price: 150,
+    filter: "hue-rotate(140deg) saturate(1.4)",
+  },
+  {
+    id: "aiSprite.ghost",
+    slot: "aiSprite",
+    name: "Ghost",
+    description: "A pale shadow of an opponent",
+    price: 200,
+    filter: "grayscale(1) brightness(1.4) opacity(0.75)",
+  },
+  {
+    id: "aiSprite.inverted",
+    slot: "aiSprite",
+    name: "Negative",
+    description: "Your opponent, inside out",
+    price: 250,
+    filter: "invert(1) hue-rotate(180deg)",
+  },
+  {
+    id: "aiSprite.golden",
+    slot: "aiSprite",
+    name: "Golden Rival",
+    description: "A worthy opponent, cast in gold",
+    price: 300,
+    filter: "sepia(1) saturate(3) hue-rotate(-10deg)",
+  },
+];
@@ -0,0 +1,47 @@
+/**
+ * Difficulty Configurations - Presets that scale the AI and the victory threshold
+ * Applied on top of the chosen opponent's modifiers
+ * Server-side values live in public.difficulty_modifiers() and must be kept in sync
+ */
+
+import { DifficultyConfig, DifficultyType } from "./types";
+import { SCORING_CONFIG } from "./scoring.config";
+
+const BASE_POINTS_TO_WIN = SCORING_CONFIG.victory.pointsToWin;
+
+export const DIFFICULTY_CONFIGS: Record<DifficultyType, DifficultyConfig> = {
+  easy: {
+    id: "easy",
+    name: "Easy",
+    description: "A forgiving AI and a lower bar for victory",
+    aiGainMultiplier: 0.5,
+    missedPenaltyMultiplier: 0.5,
+    pointsToWin: Math.round(BASE_POINTS_TO_WIN * 0.6),
+  },
+  normal: {
+    id: "normal",
+    name: "Normal",
+    description: "Standard scoring",
+    aiGainMultiplier: 1,
+    missedPenaltyMultiplier: 1,
+    pointsToWin: BASE_POINTS_TO_WIN,
+  },
+  hard: {
+    id: "hard",
+    name: "Hard",
+    description: "Misses hurt more and victory takes longer",
+    aiGainMultiplier: 1.25,
+    missedPenaltyMultiplier: 1.5,
+    pointsToWin: Math.round(BASE_POINTS_TO_WIN * 1.5),
+  },
+  nightmare: {
+    id: "nightmare",
+    name: "Nightmare",
+    description: "Every miss is brutal. Only for the truly disciplined",
+    aiGainMultiplier: 1.5,
+    missedPenaltyMultiplier: 2,
+    pointsToWin: BASE_POINTS_TO_WIN * 2,
+  },
+};
+
+export const DEFAULT_DIFFICULTY: DifficultyType = "normal";
@@ -7,16 +7,13 @@
 export * from "./types";
 
 // Configurations
-export { THEME_CONFIGS, DEFAULT_THEME } from "./themes.config";
-export { AVATAR_CONFIGS, DEFAULT_AVATAR } from "./avatars.config";
+export { AVATAR_CONFIGS, DEFAULT_AVATAR, AVATAR_UPLOAD_SIZE, MAX_AVATAR_FILE_MB } from "./avatars.config";
 export { SCORING_CONFIG } from "./scoring.config";
+export { OPPONENT_CONFIGS, DEFAULT_OPPONENT } from "./opponents.config";
+export { DIFFICULTY_CONFIGS, DEFAULT_DIFFICULTY } from "./difficulty.config";
+export { CATEGORY_COLORS, SUGGESTED_CATEGORIES, MAX_GOAL_TAGS, MAX_TAG_LENGTH } from "./categories.config";
+export { COSMETIC_SLOTS, COSMETIC_ITEMS } from "./cosmetics.config";
+export { ACHIEVEMENTS, EARLY_BIRD_HOUR } from "./achievements.config";
 
 // Asset Registry
-export {
-  BACKGROUNDS,
-  AVATARS,
-  ACTION_SPRITES,
-  AI_SPRITES,
-  isValidTheme,
-  isValidAvatar,
-} from "./assets.registry";
+export { AVATARS, isValidAvatar } from "./assets.registry";
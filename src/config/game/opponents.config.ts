@@ -0,0 +1,69 @@
+/**
+ * Opponent Configurations - AI personalities the user can compete against
+ * To add a new opponent:
+ * 1. Add the opponent type to types.ts
+ * 2. Add configuration here
+ * 3. Implement and register its strategy in src/strategies/game
+ * Server-side multipliers live in public.opponent_modifiers() and must be kept in sync
+ */
+
+import { OpponentConfig, OpponentType } from "./types";
+
+export const OPPONENT_CONFIGS: Record<OpponentType, OpponentConfig> = {
+  sloth: {
+    id: "sloth",
+    name: "Sloth",
+    description: "Naps until the afternoon and only half-cares about your misses",
+    emoji: "🦥",
+    modifiers: {
+      userPointsMultiplier: 1,
+      aiGainMultiplier: 0.5,
+      passivePointsPerDay: 6,
+    },
+    taunts: {
+      userWinning: ["Wake me when it's over... 😴", "No rush. Seriously.", "You go ahead, I'll catch up. Maybe."],
+      aiWinning: ["Huh, I'm winning? Neat.", "Slow and steady, friend 🦥"],
+      tied: ["*yawns*", "Is it nap time yet?"],
+      victory: ["I won without trying. Again."],
+      defeat: ["Fine. I needed the rest anyway."],
+    },
+  },
+  rival: {
+    id: "rival",
+    name: "Rival",
+    description: "A fair fight: standard scoring and a steady pace all day",
+    emoji: "🤖",
+    modifiers: {
+      userPointsMultiplier: 1,
+      aiGainMultiplier: 1,
+      passivePointsPerDay: 12,
+    },
+    taunts: {
+      userWinning: ["Enjoy the lead while it lasts.", "Lucky streak. Won't last."],
+      aiWinning: ["Keep up if you can!", "Every minute counts. Mine are counting."],
+      tied: ["Dead even. Your move.", "Let's see what you've got."],
+      victory: ["Good game. I'll take the win."],
+      defeat: ["Rematch tomorrow."],
+    },
+  },
+  relentless: {
+    id: "relentless",
+    name: "Relentless",
+    description: "Never stops, speeds up toward the deadline and punishes every miss",
+    emoji: "🔥",
+    modifiers: {
+      userPointsMultiplier: 1.25,
+      aiGainMultiplier: 1.5,
+      passivePointsPerDay: 30,
+    },
+    taunts: {
+      userWinning: ["I'm only getting faster.", "The clock is on my side."],
+      aiWinning: ["Pathetic. Finish something.", "I don't sleep. Do you? 🔥"],
+      tied: ["A tie is just my lead, delayed."],
+      victory: ["Inevitable."],
+      defeat: ["Tomorrow I start earlier."],
+    },
+  },
+};
+
+export const DEFAULT_OPPONENT: OpponentType = "rival";
@@ -1,9 +1,17 @@
 /**
  * Scoring Configuration - Point values and rules
  * Modify these values to adjust game balance
+ * Server-side values live in public.scoring_rule() and must be kept in sync
  */
 
-export const SCORING_CONFIG = {
+import { DailyScoringRule, LongTermScoringRule, ScoringRule } from "./types";
+
+export const SCORING_CONFIG: {
+  daily: Record<DailyScoringRule, ScoringRule>;
+  longTerm: Record<LongTermScoringRule, ScoringRule>;
+  checklist: { creditedItemsPerGoal: number };
+  victory: { pointsToWin: number; streakBonus: number; streakBonusCap: number };
+} = {
   // Daily goals
   daily: {
     earlyCompletion: {
@@ -45,6 +53,11 @@ export const SCORING_CONFIG = {
       aiPoints: 0,
       message: "Goal completed! +10 points",
     },
+    checklistItem: {
+      userPoints: 2,
+      aiPoints: 0,
+      message: "Subtask done! +2 points", // Partial credit, only before the deadline
+    },
     missed: {
       userPoints: 0,
       aiPoints: 15,
@@ -52,9 +65,15 @@ export const SCORING_CONFIG = {
     },
   },
   
+  // Checklist partial credit
+  checklist: {
+    creditedItemsPerGoal: 5, // Subtasks that can earn checklistItem credit on one goal, however many it has
+  },
+
   // Victory thresholds
   victory: {
     pointsToWin: 100, // Points needed for end-of-day victory
-    streakBonus: 5, // Bonus points per consecutive day
+    streakBonus: 5, // Bonus points per consecutive day, paid on the first completion of a day
+    streakBonusCap: 30, // Most a single day's streak bonus can be worth
   },
 };
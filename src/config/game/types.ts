@@ -3,48 +3,59 @@
  * Contributors can extend these types to add new themes, avatars, and behaviors
  */
 
-export type ThemeType = "forest" | "coding" | "ninja" | "agent";
+export type ThemeType = string; // id of a registered theme pack, see src/themes
 export type AvatarType = "boy" | "girl" | "fighter" | "ninja" | "agent";
 export type GameState = "active" | "userWinning" | "aiWinning" | "tied" | "endOfDay" | "victory" | "defeat";
 
-export interface ThemeMessages {
-  action: string;
-  userWinText: string;
-  aiWinText: string;
-  tieText: string;
-  victoryText: string;
-  defeatText: string;
-  endOfDayText: string;
+export interface AvatarConfig {
+  id: AvatarType;
+  name: string;
+  description: string;
 }
 
-export interface ThemeAnimations {
-  userAnimation: string;
-  aiAnimation: string;
-  victoryAnimation: string;
-  defeatAnimation: string;
-}
+export type OpponentType = "sloth" | "rival" | "relentless";
 
-export interface ThemeEffects {
-  effects: string[];
-  victoryEffects: string[];
-  defeatEffects: string[];
+export interface OpponentModifiers {
+  userPointsMultiplier: number; // Applied to points the user earns
+  aiGainMultiplier: number; // Applied to points the AI gains, never to its penalties
+  passivePointsPerDay: number; // AI points accrued in the arena by end of day
 }
 
-export interface ThemeConfig {
-  id: ThemeType;
+export type DifficultyType = "easy" | "normal" | "hard" | "nightmare";
+
+export interface DifficultyConfig {
+  id: DifficultyType;
   name: string;
   description: string;
-  messages: ThemeMessages;
-  animations: ThemeAnimations;
-  effects: ThemeEffects;
-  backgroundSpeed: number;
-  characterSpeed: number;
+  aiGainMultiplier: number; // AI points from completions and passive pace
+  missedPenaltyMultiplier: number; // AI points from missed goals
+  pointsToWin: number; // Points the user needs for an end-of-day victory
 }
 
-export interface AvatarConfig {
-  id: AvatarType;
+export interface OpponentConfig {
+  id: OpponentType;
   name: string;
   description: string;
+  emoji: string;
+  modifiers: OpponentModifiers;
+  taunts: Partial<Record<GameState, string[]>>;
+}
+
+export type ScoringCategory = "daily" | "longTerm";
+export type DailyScoringRule = "earlyCompletion" | "onTimeCompletion" | "missed";
+export type LongTermScoringRule =
+  | "earlyCompletion"
+  | "onTimeCompletion"
+  | "lateCompletion"
+  | "noDeadline"
+  | "checklistItem"
+  | "missed";
+export type ScoringRuleId = `daily.${DailyScoringRule}` | `longTerm.${LongTermScoringRule}`;
+
+export interface ScoringRule {
+  userPoints: number;
+  aiPoints: number;
+  message: string;
 }
 
 export interface GameResult {
@@ -52,4 +63,104 @@ export interface GameResult {
   userPoints: number;
   aiPoints: number;
   message: string;
+  rule: ScoringRuleId;
+}
+
+export type GoalStatus = "active" | "completed" | "missed" | "archived";
+
+export type PointEventSource =
+  | "goal_completed"
+  | "goal_missed"
+  | "missed_reversal"
+  | "checklist_item"
+  | "streak_bonus"
+  | "manual_adjustment";
+
+export interface PointEvent {
+  id: string;
+  goal_id: string | null;
+  source: PointEventSource;
+  rule_id: string | null;
+  user_points: number;
+  ai_points: number;
+  reason: string | null;
+  created_at: string;
+}
+
+export type RoundWinner = "user" | "ai" | "draw";
+
+export interface DailyRound {
+  id: string;
+  round_date: string;
+  user_points: number;
+  ai_points: number; // includes passive_ai_points
+  passive_ai_points: number;
+  points_to_win: number;
+  winner: RoundWinner;
+  ai_opponent: string;
+  difficulty: string;
+  settled_at: string;
+}
+
+export interface GoalCategory {
+  id: string;
+  name: string;
+  color: string; // #rrggbb
+  created_at: string;
+}
+
+export type CosmeticSlot = "hat" | "trail" | "dance" | "aiSprite";
+
+export type VictoryDanceMoves = {
+  y: number[];
+  rotate: number[];
+  scale: number[];
+};
+
+export interface CosmeticItem {
+  id: string; // `${slot}.${name}`, as stored in cosmetic_inventory
+  slot: CosmeticSlot;
+  name: string;
+  description: string;
+  price: number; // coins
+  emoji?: string; // hats and trails
+  dance?: VictoryDanceMoves; // victory dances
+  filter?: string; // AI sprite skins, as a CSS filter over the theme's AI sprite
+}
+
+export interface OwnedCosmetic {
+  item_id: string;
+  slot: CosmeticSlot;
+  equipped: boolean;
+  purchased_at: string;
+}
+
+export type EquippedCosmetics = Partial<Record<CosmeticSlot, CosmeticItem>>;
+
+// What an achievement rule measures, over the player's whole history
+export type AchievementMetric =
+  | "completions"
+  | "earlyCompletions"
+  | "dawnCompletions" // completed before EARLY_BIRD_HOUR, local time
+  | "longestStreak" // consecutive days with a completion
+  | "roundWins"
+  | "winStreak" // consecutive rounds won against the AI
+  | "perfectMonths"; // finished calendar months with completions and no missed goals
+
+export interface AchievementRule {
+  metric: AchievementMetric;
+  target: number;
+}
+
+export interface Achievement {
+  id: string; // stored in user_achievements, never renamed
+  name: string;
+  description: string;
+  emoji: string;
+  rule: AchievementRule;
+}
+
+export interface UnlockedAchievement {
+  achievement_id: string;
+  unlocked_at: string;
 }
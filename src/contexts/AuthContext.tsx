@@ -1,6 +1,9 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { getLocalTimezone } from "@/engine/game";
+import { clearUserData } from "@/lib/offline";
+import { AVATAR_BUCKET, avatarPath } from "@/lib/avatar";
 
 interface AuthContextType {
   user: User | null;
@@ -9,6 +12,7 @@ interface AuthContextType {
   signUp: (email: string, password: string, username: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  deleteAccount: () => Promise<{ error: Error | null }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -46,6 +50,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         emailRedirectTo: redirectUrl,
         data: {
           username,
+          timezone: getLocalTimezone(),
         },
       },
     });
@@ -64,8 +69,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await supabase.auth.signOut();
   };
 
+  // The server removes every user-owned row and the auth user; this device then forgets them too
+  const deleteAccount = async () => {
+    // Storage files can only be removed through the Storage API, so the avatar goes before the account
+    if (user) {
+      const { error: storageError } = await supabase.storage.from(AVATAR_BUCKET).remove([avatarPath(user.id)]);
+      if (storageError) return { error: storageError };
+    }
+
+    const { error } = await supabase.rpc("delete_account");
+    if (error) return { error };
+
+    if (user) {
+      await clearUserData(user.id).catch((err) => console.error("Error clearing offline data:", err));
+    }
+    // The session's user no longer exists, so only the local session can be cleared
+    await supabase.auth.signOut({ scope: "local" });
+    return { error: null };
+  };
+
   return (
-    <AuthContext.Provider value={{ user, session, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, session, loading, signUp, signIn, signOut, deleteAccount }}>
       {children}
     </AuthContext.Provider>
   );
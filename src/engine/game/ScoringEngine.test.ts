@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import { SCORING_CONFIG } from "@/config/game/scoring.config";
+import { getGameStrategy } from "@/strategies/game";
+import {
+  buildResult,
+  getChecklistItemRule,
+  getCompletionRule,
+  getStreakBonus,
+  scoreChecklistItem,
+  scoreGoalCompletion,
+  scoreMissedGoal,
+} from "./ScoringEngine";
+import { DeadlineGoal } from "./deadlines";
+
+const timezone = "UTC";
+const dayEndTime = "23:00";
+
+const dailyGoal = (due_time: string | null = null): DeadlineGoal => ({
+  goal_type: "daily",
+  due_date: null,
+  due_time,
+  created_at: "2026-03-10T08:00:00Z",
+});
+
+const longTermGoal = (due_date: string | null, due_time: string | null = null): DeadlineGoal => ({
+  goal_type: "long_term",
+  due_date,
+  due_time,
+  created_at: "2026-03-01T08:00:00Z",
+});
+
+const at = (iso: string) => new Date(iso);
+
+describe("getCompletionRule", () => {
+  describe("daily goals", () => {
+    it("scores a goal without a due time as on time", () => {
+      expect(getCompletionRule({ goal: dailyGoal(), completedAt: at("2026-03-10T22:00:00Z"), timezone, dayEndTime })).toBe(
+        "daily.onTimeCompletion"
+      );
+    });
+
+    it("scores a completion before the due time as early", () => {
+      expect(
+        getCompletionRule({ goal: dailyGoal("12:00"), completedAt: at("2026-03-10T11:59:00Z"), timezone, dayEndTime })
+      ).toBe("daily.earlyCompletion");
+    });
+
+    it("scores a completion at or after the due time as on time", () => {
+      expect(
+        getCompletionRule({ goal: dailyGoal("12:00"), completedAt: at("2026-03-10T12:00:00Z"), timezone, dayEndTime })
+      ).toBe("daily.onTimeCompletion");
+      expect(
+        getCompletionRule({ goal: dailyGoal("12:00"), completedAt: at("2026-03-10T18:00:00Z"), timezone, dayEndTime })
+      ).toBe("daily.onTimeCompletion");
+    });
+
+    it("reads the due time in the user's timezone", () => {
+      // 12:00 in New York is 16:00 UTC in March after the DST switch
+      const goal = dailyGoal("12:00");
+      const options = { goal, timezone: "America/New_York", dayEndTime };
+      expect(getCompletionRule({ ...options, completedAt: at("2026-03-10T15:30:00Z") })).toBe("daily.earlyCompletion");
+      expect(getCompletionRule({ ...options, completedAt: at("2026-03-10T16:30:00Z") })).toBe("daily.onTimeCompletion");
+    });
+  });
+
+  describe("long-term goals", () => {
+    it("scores a goal without a due date as having no deadline", () => {
+      expect(
+        getCompletionRule({ goal: longTermGoal(null), completedAt: at("2026-06-01T12:00:00Z"), timezone, dayEndTime })
+      ).toBe("longTerm.noDeadline");
+    });
+
+    it("scores a bare due date met by day end as on time", () => {
+      expect(
+        getCompletionRule({ goal: longTermGoal("2026-03-15"), completedAt: at("2026-03-15T22:59:00Z"), timezone, dayEndTime })
+      ).toBe("longTerm.onTimeCompletion");
+    });
+
+    it("scores a due date with a due time met as early", () => {
+      expect(
+        getCompletionRule({
+          goal: longTermGoal("2026-03-15", "09:00"),
+          completedAt: at("2026-03-15T08:00:00Z"),
+          timezone,
+          dayEndTime,
+        })
+      ).toBe("longTerm.earlyCompletion");
+    });
+
+    it("scores a completion after the deadline as late", () => {
+      expect(
+        getCompletionRule({ goal: longTermGoal("2026-03-15"), completedAt: at("2026-03-15T23:01:00Z"), timezone, dayEndTime })
+      ).toBe("longTerm.lateCompletion");
+      expect(
+        getCompletionRule({
+          goal: longTermGoal("2026-03-15", "09:00"),
+          completedAt: at("2026-03-15T09:01:00Z"),
+          timezone,
+          dayEndTime,
+        })
+      ).toBe("longTerm.lateCompletion");
+    });
+  });
+});
+
+describe("scoreGoalCompletion", () => {
+  it("awards the configured points for the rule that fired", () => {
+    const result = scoreGoalCompletion({
+      goal: dailyGoal("12:00"),
+      completedAt: at("2026-03-10T09:00:00Z"),
+      timezone,
+      dayEndTime,
+    });
+    expect(result).toMatchObject({
+      rule: "daily.earlyCompletion",
+      userPoints: SCORING_CONFIG.daily.earlyCompletion.userPoints,
+      aiPoints: SCORING_CONFIG.daily.earlyCompletion.aiPoints,
+      winner: "user",
+    });
+  });
+
+  it("calls a draw when both sides gain the same", () => {
+    expect(buildResult("daily.onTimeCompletion").winner).toBe("tie");
+  });
+});
+
+describe("scoreMissedGoal", () => {
+  it("hands the AI the daily penalty", () => {
+    expect(scoreMissedGoal({ goal_type: "daily" })).toMatchObject({
+      rule: "daily.missed",
+      aiPoints: SCORING_CONFIG.daily.missed.aiPoints,
+      winner: "ai",
+    });
+  });
+
+  it("hands the AI the long-term penalty", () => {
+    expect(scoreMissedGoal({ goal_type: "long_term" })).toMatchObject({
+      rule: "longTerm.missed",
+      aiPoints: SCORING_CONFIG.longTerm.missed.aiPoints,
+      winner: "ai",
+    });
+  });
+});
+
+describe("checklist items", () => {
+  it("earns partial credit up to the deadline", () => {
+    const input = { goal: longTermGoal("2026-03-15"), completedAt: at("2026-03-14T12:00:00Z"), timezone, dayEndTime };
+    expect(getChecklistItemRule(input)).toBe("longTerm.checklistItem");
+    expect(scoreChecklistItem(input)?.userPoints).toBe(SCORING_CONFIG.longTerm.checklistItem.userPoints);
+  });
+
+  it("earns nothing once the deadline has passed", () => {
+    const input = { goal: longTermGoal("2026-03-15"), completedAt: at("2026-03-16T12:00:00Z"), timezone, dayEndTime };
+    expect(getChecklistItemRule(input)).toBeNull();
+    expect(scoreChecklistItem(input)).toBeNull();
+  });
+
+  it("always earns credit on a goal without a deadline", () => {
+    expect(
+      getChecklistItemRule({ goal: longTermGoal(null), completedAt: at("2027-01-01T00:00:00Z"), timezone, dayEndTime })
+    ).toBe("longTerm.checklistItem");
+  });
+
+  it("earns nothing once the goal's subtasks have used up their credit", () => {
+    const input = { goal: longTermGoal(null), completedAt: at("2026-03-14T12:00:00Z"), timezone, dayEndTime };
+    const { creditedItemsPerGoal } = SCORING_CONFIG.checklist;
+    expect(getChecklistItemRule(input, creditedItemsPerGoal - 1)).toBe("longTerm.checklistItem");
+    expect(getChecklistItemRule(input, creditedItemsPerGoal)).toBeNull();
+    expect(scoreChecklistItem(input, creditedItemsPerGoal)).toBeNull();
+  });
+});
+
+describe("getStreakBonus", () => {
+  const { streakBonus, streakBonusCap } = SCORING_CONFIG.victory;
+
+  it("pays nothing on the first day of a streak", () => {
+    expect(getStreakBonus(0)).toBe(0);
+    expect(getStreakBonus(1)).toBe(0);
+  });
+
+  it("grows with each further day up to the cap", () => {
+    expect(getStreakBonus(2)).toBe(Math.min(streakBonus, streakBonusCap));
+    expect(getStreakBonus(3)).toBe(Math.min(streakBonus * 2, streakBonusCap));
+    expect(getStreakBonus(1000)).toBe(streakBonusCap);
+  });
+});
+
+describe("opponent and difficulty modifiers", () => {
+  it("leaves standard scoring untouched for the Rival on Normal", () => {
+    const result = buildResult("longTerm.onTimeCompletion");
+    expect(getGameStrategy("rival", "normal").applyScoringModifiers(result)).toBe(result);
+  });
+
+  it("scales user points and AI gains by the opponent", () => {
+    const result = getGameStrategy("relentless", "normal").applyScoringModifiers(buildResult("daily.onTimeCompletion"));
+    expect(result.userPoints).toBe(Math.round(SCORING_CONFIG.daily.onTimeCompletion.userPoints * 1.25));
+    expect(result.aiPoints).toBe(Math.round(SCORING_CONFIG.daily.onTimeCompletion.aiPoints * 1.5));
+    expect(result.message).toContain("Relentless");
+  });
+
+  it("never scales an AI loss", () => {
+    const result = getGameStrategy("relentless", "nightmare").applyScoringModifiers(buildResult("daily.earlyCompletion"));
+    expect(result.aiPoints).toBe(SCORING_CONFIG.daily.earlyCompletion.aiPoints);
+  });
+
+  it("scales AI gains on completions by the difficulty", () => {
+    const result = getGameStrategy("rival", "hard").applyScoringModifiers(buildResult("longTerm.lateCompletion"));
+    expect(result.aiPoints).toBe(Math.round(SCORING_CONFIG.longTerm.lateCompletion.aiPoints * 1.25));
+    expect(result.message).toContain("Rival · Hard");
+  });
+
+  it("scales missed penalties by the difficulty's penalty multiplier", () => {
+    const { aiPoints } = SCORING_CONFIG.daily.missed;
+    expect(getGameStrategy("rival", "nightmare").applyScoringModifiers(scoreMissedGoal({ goal_type: "daily" })).aiPoints).toBe(
+      Math.round(aiPoints * 2)
+    );
+    expect(getGameStrategy("sloth", "easy").applyScoringModifiers(scoreMissedGoal({ goal_type: "daily" })).aiPoints).toBe(
+      Math.round(aiPoints * 0.5 * 0.5)
+    );
+  });
+
+  it("falls back to the Rival on Normal for unknown settings", () => {
+    const result = buildResult("longTerm.noDeadline");
+    expect(getGameStrategy("unknown", "impossible").applyScoringModifiers(result)).toBe(result);
+  });
+});
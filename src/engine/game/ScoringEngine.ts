@@ -0,0 +1,118 @@
+/**
+ * Scoring Engine - Pure goal scoring driven by SCORING_CONFIG
+ * Every path that awards points (client or server) must produce the same rule ids
+ * The SQL counterpart is public.score_goal() in supabase/migrations
+ */
+
+import { SCORING_CONFIG } from "@/config/game/scoring.config";
+import { GameResult, ScoringCategory, ScoringRule, ScoringRuleId } from "@/config/game/types";
+import { DeadlineGoal, getGoalDeadline, getZonedDate, zonedTimeToUtc } from "./deadlines";
+
+export interface ScoringInput {
+  goal: DeadlineGoal;
+  completedAt: Date;
+  timezone: string;
+  dayEndTime: string;
+}
+
+/**
+ * Resolve a rule id to its configured point values
+ */
+export function getScoringRule(ruleId: ScoringRuleId): ScoringRule {
+  const [category, key] = ruleId.split(".") as [ScoringCategory, string];
+  return (SCORING_CONFIG[category] as Record<string, ScoringRule>)[key];
+}
+
+/**
+ * Build a GameResult from the rule that fired
+ */
+export function buildResult(ruleId: ScoringRuleId): GameResult {
+  const rule = getScoringRule(ruleId);
+  const { userPoints, aiPoints } = rule;
+
+  return {
+    winner: userPoints > aiPoints ? "user" : aiPoints > userPoints ? "ai" : "tie",
+    userPoints,
+    aiPoints,
+    message: rule.message,
+    rule: ruleId,
+  };
+}
+
+/**
+ * Decide which rule applies to a goal completed at the given time
+ */
+export function getCompletionRule({ goal, completedAt, timezone, dayEndTime }: ScoringInput): ScoringRuleId {
+  const completedMs = completedAt.getTime();
+
+  if (goal.goal_type === "daily") {
+    if (!goal.due_time) return "daily.onTimeCompletion";
+
+    const goalDay = getZonedDate(new Date(goal.created_at), timezone);
+    const dueAt = zonedTimeToUtc(goalDay, goal.due_time, timezone);
+    return completedMs < dueAt.getTime() ? "daily.earlyCompletion" : "daily.onTimeCompletion";
+  }
+
+  if (!goal.due_date) return "longTerm.noDeadline";
+
+  const deadline = getGoalDeadline(goal, timezone, dayEndTime);
+  if (completedMs > deadline.getTime()) return "longTerm.lateCompletion";
+
+  // An explicit due time rewards beating it; a bare due date only asks for on-time
+  return goal.due_time ? "longTerm.earlyCompletion" : "longTerm.onTimeCompletion";
+}
+
+/**
+ * Score a goal completed by the user
+ */
+export function scoreGoalCompletion(input: ScoringInput): GameResult {
+  return buildResult(getCompletionRule(input));
+}
+
+/**
+ * Score a goal whose deadline passed without completion
+ */
+export function scoreMissedGoal(goal: Pick<DeadlineGoal, "goal_type">): GameResult {
+  return buildResult(goal.goal_type === "daily" ? "daily.missed" : "longTerm.missed");
+}
+
+/**
+ * Decide whether ticking a checklist item earns partial credit
+ * Returns null once the goal's deadline has passed or its subtasks have used up their credit
+ */
+export function getChecklistItemRule(
+  { goal, completedAt, timezone, dayEndTime }: ScoringInput,
+  creditedItems: number = 0
+): ScoringRuleId | null {
+  if (creditedItems >= SCORING_CONFIG.checklist.creditedItemsPerGoal) return null;
+
+  const deadline = getGoalDeadline(goal, timezone, dayEndTime);
+  if (deadline && completedAt.getTime() > deadline.getTime()) return null;
+
+  return "longTerm.checklistItem";
+}
+
+/**
+ * Score a checklist item ticked by the user, or null when it earns nothing
+ */
+export function scoreChecklistItem(input: ScoringInput, creditedItems: number = 0): GameResult | null {
+  const ruleId = getChecklistItemRule(input, creditedItems);
+  return ruleId ? buildResult(ruleId) : null;
+}
+
+/**
+ * Bonus for the first completion of a day, growing with the streak
+ * Day one of a streak earns nothing; each further day adds victory.streakBonus up to the cap
+ */
+export function getStreakBonus(currentStreak: number): number {
+  const { streakBonus, streakBonusCap } = SCORING_CONFIG.victory;
+  if (currentStreak < 2) return 0;
+  return Math.min(streakBonus * (currentStreak - 1), streakBonusCap);
+}
+
+/**
+ * Player-facing reason recorded with a streak bonus
+ */
+export function getStreakBonusMessage(currentStreak: number): string {
+  return `${currentStreak}-day streak! +${getStreakBonus(currentStreak)} bonus points`;
+}
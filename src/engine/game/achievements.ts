@@ -0,0 +1,76 @@
+/**
+ * Achievements - Measuring goal and round history against the achievement catalogue
+ * Goal metrics come from getGoalStats over all time, so outcomes and streaks are
+ * counted exactly as the Stats page shows them
+ */
+
+import { ACHIEVEMENTS, EARLY_BIRD_HOUR } from "@/config/game/achievements.config";
+import { Achievement, AchievementMetric, DailyRound } from "@/config/game/types";
+import { shiftDate } from "./deadlines";
+import { StatsGoal, getGoalStats } from "./stats";
+import { getRoundDate } from "./rounds";
+
+export type AchievementProgress = Record<AchievementMetric, number>;
+
+export interface AchievementHistory {
+  goals: StatsGoal[];
+  rounds: Pick<DailyRound, "round_date" | "winner">[];
+  now: Date;
+  timezone: string;
+  dayEndTime: string;
+}
+
+/**
+ * Longest run of rounds won on consecutive days; a round not played breaks the run
+ */
+function getLongestWinStreak(rounds: AchievementHistory["rounds"]): number {
+  const wins = [...new Set(rounds.filter((round) => round.winner === "user").map((round) => round.round_date))].sort();
+
+  let longest = 0;
+  let current = 0;
+  wins.forEach((date, i) => {
+    current = i > 0 && wins[i - 1] === shiftDate(date, -1) ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+}
+
+export function getAchievementProgress({ goals, rounds, now, timezone, dayEndTime }: AchievementHistory): AchievementProgress {
+  const stats = getGoalStats(goals, { range: "all", now, timezone, dayEndTime });
+  const { early, onTime, late } = stats.outcomes;
+
+  // Only months that are over can be flawless
+  const currentMonth = getRoundDate(now, timezone, dayEndTime).slice(0, 7);
+  const months = new Map<string, { completed: number; missed: number }>();
+  stats.days
+    .filter((day) => day.date.slice(0, 7) < currentMonth)
+    .forEach((day) => {
+      const month = months.get(day.date.slice(0, 7)) ?? { completed: 0, missed: 0 };
+      month.completed += day.completed;
+      month.missed += day.missed;
+      months.set(day.date.slice(0, 7), month);
+    });
+
+  return {
+    completions: early + onTime + late,
+    earlyCompletions: early,
+    dawnCompletions: stats.completionsByHour.slice(0, EARLY_BIRD_HOUR).reduce((sum, count) => sum + count, 0),
+    longestStreak: stats.longestStreak,
+    roundWins: rounds.filter((round) => round.winner === "user").length,
+    winStreak: getLongestWinStreak(rounds),
+    perfectMonths: [...months.values()].filter((month) => month.completed > 0 && month.missed === 0).length,
+  };
+}
+
+export function isAchievementEarned(achievement: Achievement, progress: AchievementProgress): boolean {
+  return progress[achievement.rule.metric] >= achievement.rule.target;
+}
+
+/**
+ * Catalogue entries the history has earned that are not unlocked yet
+ */
+export function getNewAchievements(progress: AchievementProgress, unlockedIds: Set<string>): Achievement[] {
+  return ACHIEVEMENTS.filter(
+    (achievement) => !unlockedIds.has(achievement.id) && isAchievementEarned(achievement, progress)
+  );
+}
@@ -0,0 +1,56 @@
+/**
+ * Calendar - Month and week grids over "yyyy-MM-dd" dates
+ * Weeks start on Sunday, matching the react-day-picker default used elsewhere
+ */
+
+import { DeadlineGoal, getZonedDate, shiftDate } from "./deadlines";
+
+export type CalendarView = "month" | "week";
+
+function getWeekday(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function getWeekStart(date: string): string {
+  return shiftDate(date, -getWeekday(date));
+}
+
+function getMonthStart(date: string): string {
+  return `${date.slice(0, 8)}01`;
+}
+
+function shiftMonth(date: string, months: number): string {
+  const [year, month] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1 + months, 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * Every day shown for the view containing `anchor`: whole weeks, so a month spans 4-6 rows
+ */
+export function getCalendarDays(view: CalendarView, anchor: string): string[] {
+  const start = getWeekStart(view === "month" ? getMonthStart(anchor) : anchor);
+  const lastDay = view === "month" ? shiftDate(shiftMonth(anchor, 1), -1) : anchor;
+  const end = shiftDate(getWeekStart(lastDay), 6);
+
+  const days: string[] = [];
+  for (let date = start; date <= end; date = shiftDate(date, 1)) {
+    days.push(date);
+  }
+  return days;
+}
+
+/**
+ * Move the anchor a whole month or week forwards or backwards
+ */
+export function shiftCalendar(view: CalendarView, anchor: string, step: number): string {
+  return view === "month" ? shiftMonth(anchor, step) : shiftDate(anchor, step * 7);
+}
+
+/**
+ * The day a goal is shown on: long-term goals on their due date, daily goals on the day they belong to
+ */
+export function getGoalCalendarDate(goal: DeadlineGoal, timeZone: string): string | null {
+  if (goal.goal_type === "daily") return getZonedDate(new Date(goal.created_at), timeZone);
+  return goal.due_date;
+}
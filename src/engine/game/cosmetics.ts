@@ -0,0 +1,25 @@
+/**
+ * Cosmetics - Looking up catalogue items and working out what a player is wearing
+ */
+
+import { COSMETIC_ITEMS } from "@/config/game/cosmetics.config";
+import { CosmeticItem, EquippedCosmetics, OwnedCosmetic } from "@/config/game/types";
+
+const ITEMS_BY_ID = new Map(COSMETIC_ITEMS.map((item) => [item.id, item]));
+
+export function getCosmeticItem(itemId: string): CosmeticItem | undefined {
+  return ITEMS_BY_ID.get(itemId);
+}
+
+/**
+ * Equipped items by slot; items no longer in the catalogue are skipped
+ */
+export function getEquippedCosmetics(owned: OwnedCosmetic[]): EquippedCosmetics {
+  const equipped: EquippedCosmetics = {};
+
+  for (const entry of owned) {
+    const item = entry.equipped ? getCosmeticItem(entry.item_id) : undefined;
+    if (item) equipped[item.slot] = item;
+  }
+  return equipped;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { getNextDayEnd, zonedTimeToUtc } from "./deadlines";
+
+// Expected instants are what Postgres returns for `'<date> <time>'::timestamp AT TIME ZONE '<zone>'`,
+// so the client and the server agree on every deadline
+describe("zonedTimeToUtc", () => {
+  it("converts an ordinary wall time using the zone's offset", () => {
+    expect(zonedTimeToUtc("2026-01-15", "09:00", "America/New_York").toISOString()).toBe("2026-01-15T14:00:00.000Z");
+    expect(zonedTimeToUtc("2026-07-15", "09:00", "America/New_York").toISOString()).toBe("2026-07-15T13:00:00.000Z");
+  });
+
+  describe("America/New_York", () => {
+    it("reads a time in the spring-forward gap with the offset from before the jump", () => {
+      // 02:30 never happens on 8 March 2026; Postgres treats it as 02:30 EST, i.e. 03:30 EDT
+      expect(zonedTimeToUtc("2026-03-08", "02:30", "America/New_York").toISOString()).toBe("2026-03-08T07:30:00.000Z");
+    });
+
+    it("resolves an ambiguous fall-back time to the later instant", () => {
+      // 01:30 happens twice on 1 November 2026; Postgres picks the second, in EST
+      expect(zonedTimeToUtc("2026-11-01", "01:30", "America/New_York").toISOString()).toBe("2026-11-01T06:30:00.000Z");
+    });
+
+    it("uses the new offset either side of a transition", () => {
+      expect(zonedTimeToUtc("2026-03-08", "01:59", "America/New_York").toISOString()).toBe("2026-03-08T06:59:00.000Z");
+      expect(zonedTimeToUtc("2026-03-08", "03:00", "America/New_York").toISOString()).toBe("2026-03-08T07:00:00.000Z");
+      expect(zonedTimeToUtc("2026-11-01", "02:00", "America/New_York").toISOString()).toBe("2026-11-01T07:00:00.000Z");
+    });
+  });
+
+  describe("Australia/Sydney", () => {
+    it("reads a time in the October spring-forward gap with the offset from before the jump", () => {
+      // Clocks go from 02:00 AEST to 03:00 AEDT on 4 October 2026
+      expect(zonedTimeToUtc("2026-10-04", "02:30", "Australia/Sydney").toISOString()).toBe("2026-10-03T16:30:00.000Z");
+    });
+
+    it("resolves an ambiguous April fall-back time to the later instant", () => {
+      // Clocks go from 03:00 AEDT back to 02:00 AEST on 5 April 2026
+      expect(zonedTimeToUtc("2026-04-05", "02:30", "Australia/Sydney").toISOString()).toBe("2026-04-04T16:30:00.000Z");
+    });
+
+    it("uses summer time over the southern summer", () => {
+      expect(zonedTimeToUtc("2026-01-15", "23:59", "Australia/Sydney").toISOString()).toBe("2026-01-15T12:59:00.000Z");
+      expect(zonedTimeToUtc("2026-07-15", "23:59", "Australia/Sydney").toISOString()).toBe("2026-07-15T13:59:00.000Z");
+    });
+  });
+});
+
+describe("getNextDayEnd", () => {
+  it("returns today's day end while it is still ahead", () => {
+    expect(getNextDayEnd(new Date("2026-03-08T04:00:00Z"), "America/New_York").toISOString()).toBe(
+      "2026-03-08T04:59:00.000Z"
+    );
+  });
+
+  it("follows the new offset on the day clocks spring forward", () => {
+    // Less than 24 hours after the previous day end
+    expect(getNextDayEnd(new Date("2026-03-08T05:00:00Z"), "America/New_York").toISOString()).toBe(
+      "2026-03-09T03:59:00.000Z"
+    );
+  });
+
+  it("follows the new offset on the day clocks fall back", () => {
+    expect(getNextDayEnd(new Date("2026-11-01T12:00:00Z"), "America/New_York").toISOString()).toBe(
+      "2026-11-02T04:59:00.000Z"
+    );
+    expect(getNextDayEnd(new Date("2026-04-05T00:00:00Z"), "Australia/Sydney").toISOString()).toBe(
+      "2026-04-05T13:59:00.000Z"
+    );
+  });
+
+  it("handles a day end inside the gap or the overlap", () => {
+    expect(getNextDayEnd(new Date("2026-03-08T06:00:00Z"), "America/New_York", "02:30").toISOString()).toBe(
+      "2026-03-08T07:30:00.000Z"
+    );
+    expect(getNextDayEnd(new Date("2026-11-01T05:45:00Z"), "America/New_York", "01:30").toISOString()).toBe(
+      "2026-11-01T06:30:00.000Z"
+    );
+  });
+});
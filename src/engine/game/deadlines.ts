@@ -0,0 +1,155 @@
+/**
+ * Deadlines - Timezone-aware goal deadline calculations
+ * All wall-clock times (due_time, day_end_time) are interpreted in the user's IANA timezone
+ */
+
+export const DEFAULT_DAY_END_TIME = "23:59";
+
+export interface DeadlineGoal {
+  goal_type: "daily" | "long_term";
+  due_date: string | null;
+  due_time: string | null;
+  created_at: string;
+}
+
+/**
+ * Browser timezone, used when the profile has none stored
+ */
+export function getLocalTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * IANA timezones the runtime knows about, always including the current one
+ */
+export function getSupportedTimezones(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf("timeZone") : ["UTC"];
+  const local = getLocalTimezone();
+  return zones.includes(local) ? zones : [local, ...zones];
+}
+
+function getZonedParts(instant: Date, timeZone: string) {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(instant)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+function getTimezoneOffset(instant: Date, timeZone: string): number {
+  const p = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * Calendar date ("yyyy-MM-dd") of an instant in the given timezone
+ */
+export function getZonedDate(instant: Date, timeZone: string): string {
+  const p = getZonedParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/**
+ * Wall-clock time ("HH:mm") of an instant in the given timezone
+ */
+export function getZonedTime(instant: Date, timeZone: string): string {
+  const p = getZonedParts(instant, timeZone);
+  return `${String(p.hour % 24).padStart(2, "0")}:${String(p.minute).padStart(2, "0")}`;
+}
+
+/**
+ * Shift a calendar date ("yyyy-MM-dd") by a number of days
+ */
+export function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to an absolute instant
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hours, minutes, seconds = 0] = time.split(":").map(Number);
+  const naive = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Offsets either side of any DST transition near this wall time
+  const oneDay = 24 * 60 * 60 * 1000;
+  const offsetBefore = getTimezoneOffset(new Date(naive - oneDay), timeZone);
+  const offsetAfter = getTimezoneOffset(new Date(naive + oneDay), timeZone);
+
+  // Matches Postgres AT TIME ZONE: an ambiguous fall-back time resolves to the later
+  // instant, and a time inside a spring-forward gap uses the offset from before the jump
+  if (getTimezoneOffset(new Date(naive - offsetAfter), timeZone) === offsetAfter) {
+    return new Date(naive - offsetAfter);
+  }
+  return new Date(naive - offsetBefore);
+}
+
+/**
+ * The next time the wall clock in `timeZone` reads `time` after `now`, honouring DST
+ */
+export function getNextLocalTime(now: Date, timeZone: string, time: string): Date {
+  const today = getZonedDate(now, timeZone);
+  const todayAt = zonedTimeToUtc(today, time, timeZone);
+  if (todayAt.getTime() > now.getTime()) return todayAt;
+
+  return zonedTimeToUtc(shiftDate(today, 1), time, timeZone);
+}
+
+/**
+ * The next end of day after `now`, honouring DST in the given timezone
+ */
+export function getNextDayEnd(
+  now: Date,
+  timeZone: string,
+  dayEndTime: string = DEFAULT_DAY_END_TIME
+): Date {
+  return getNextLocalTime(now, timeZone, dayEndTime);
+}
+
+/**
+ * Absolute deadline for a goal, or null when it has none
+ * Daily goals end at day_end_time on the day they were created
+ */
+export function getGoalDeadline(
+  goal: DeadlineGoal,
+  timeZone: string,
+  dayEndTime: string = DEFAULT_DAY_END_TIME
+): Date | null {
+  if (goal.goal_type === "daily") {
+    const createdDay = getZonedDate(new Date(goal.created_at), timeZone);
+    return zonedTimeToUtc(createdDay, dayEndTime, timeZone);
+  }
+
+  if (!goal.due_date) return null;
+  return zonedTimeToUtc(goal.due_date, goal.due_time || dayEndTime, timeZone);
+}
+
+/**
+ * Whether an incomplete goal has passed its deadline
+ */
+export function isGoalOverdue(
+  goal: DeadlineGoal,
+  now: Date,
+  timeZone: string,
+  dayEndTime: string = DEFAULT_DAY_END_TIME
+): boolean {
+  const deadline = getGoalDeadline(goal, timeZone, dayEndTime);
+  return deadline !== null && now.getTime() > deadline.getTime();
+}
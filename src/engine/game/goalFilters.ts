@@ -0,0 +1,119 @@
+/**
+ * Goal Filters - Search, category/tag filtering and sorting for goal lists
+ */
+
+import { MAX_TAG_LENGTH } from "@/config/game/categories.config";
+import { DEFAULT_DAY_END_TIME, DeadlineGoal, getGoalDeadline, getZonedDate, zonedTimeToUtc } from "./deadlines";
+
+export type GoalSort = "newest" | "due" | "category";
+
+export const GOAL_SORT_LABELS: Record<GoalSort, string> = {
+  newest: "Newest",
+  due: "Due time",
+  category: "Category",
+};
+
+// null shows every goal, UNCATEGORIZED only those without a category
+export const UNCATEGORIZED = "none";
+
+export interface GoalFilter {
+  search: string;
+  categoryId: string | null;
+  tags: string[]; // a goal must carry every selected tag
+}
+
+export interface FilterableGoal extends DeadlineGoal {
+  title: string;
+  description: string | null;
+  category_id: string | null;
+  tags: string[];
+}
+
+interface SortCategory {
+  id: string;
+  name: string;
+}
+
+/**
+ * Canonical form of a tag: lowercase, no leading #, words joined by dashes
+ * Commas and semicolons separate tags in CSV and iCalendar, so they are dropped
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/[,;]/g, "")
+    .replace(/\s+/g, "-")
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Every tag in use across the goals, alphabetically
+ */
+export function getGoalTags(goals: { tags: string[] }[]): string[] {
+  return [...new Set(goals.flatMap((goal) => goal.tags ?? []))].sort();
+}
+
+export function filterGoals<T extends FilterableGoal>(goals: T[], filter: GoalFilter): T[] {
+  const search = filter.search.trim().toLowerCase();
+
+  return goals.filter((goal) => {
+    if (filter.categoryId === UNCATEGORIZED) {
+      if (goal.category_id) return false;
+    } else if (filter.categoryId && goal.category_id !== filter.categoryId) {
+      return false;
+    }
+    if (!filter.tags.every((tag) => goal.tags?.includes(tag))) return false;
+    if (!search) return true;
+
+    return (
+      goal.title.toLowerCase().includes(search) ||
+      (goal.description ?? "").toLowerCase().includes(search) ||
+      (goal.tags ?? []).some((tag) => tag.includes(search.replace(/^#/, "")))
+    );
+  });
+}
+
+/**
+ * When a goal is due; a daily goal's own due time comes before the end of its day
+ */
+function getDueInstant(goal: DeadlineGoal, timeZone: string, dayEndTime: string): number {
+  if (goal.goal_type === "daily" && goal.due_time) {
+    const createdDay = getZonedDate(new Date(goal.created_at), timeZone);
+    return zonedTimeToUtc(createdDay, goal.due_time, timeZone).getTime();
+  }
+  return getGoalDeadline(goal, timeZone, dayEndTime)?.getTime() ?? Infinity;
+}
+
+/**
+ * Sorted copy of the goals; ties keep the newest goal first
+ * Goals without a deadline, or without a category, go last
+ */
+export function sortGoals<T extends FilterableGoal>(
+  goals: T[],
+  sort: GoalSort,
+  options: { categories: SortCategory[]; timezone: string; dayEndTime?: string }
+): T[] {
+  const newestFirst = (a: T, b: T) => b.created_at.localeCompare(a.created_at);
+
+  if (sort === "newest") return [...goals].sort(newestFirst);
+
+  if (sort === "due") {
+    const dayEndTime = options.dayEndTime ?? DEFAULT_DAY_END_TIME;
+    const due = new Map(goals.map((goal) => [goal, getDueInstant(goal, options.timezone, dayEndTime)]));
+    return [...goals].sort((a, b) => due.get(a)! - due.get(b)! || newestFirst(a, b));
+  }
+
+  const names = new Map(options.categories.map((category) => [category.id, category.name.toLowerCase()]));
+  const nameOf = (goal: T) => (goal.category_id && names.get(goal.category_id)) || null;
+  return [...goals].sort((a, b) => {
+    const [nameA, nameB] = [nameOf(a), nameOf(b)];
+    if (nameA !== nameB) {
+      if (nameA === null) return 1;
+      if (nameB === null) return -1;
+      return nameA.localeCompare(nameB);
+    }
+    return newestFirst(a, b);
+  });
+}
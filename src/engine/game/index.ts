@@ -0,0 +1,90 @@
+/**
+ * Game Engine Index
+ */
+
+export {
+  type ScoringInput,
+  getScoringRule,
+  getCompletionRule,
+  scoreGoalCompletion,
+  scoreMissedGoal,
+  getChecklistItemRule,
+  scoreChecklistItem,
+  getStreakBonus,
+  getStreakBonusMessage,
+} from "./ScoringEngine";
+
+export {
+  type DeadlineGoal,
+  DEFAULT_DAY_END_TIME,
+  getLocalTimezone,
+  getSupportedTimezones,
+  getZonedDate,
+  getZonedTime,
+  shiftDate,
+  zonedTimeToUtc,
+  getNextLocalTime,
+  getNextDayEnd,
+  getGoalDeadline,
+  isGoalOverdue,
+} from "./deadlines";
+
+export {
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  type RecurrencePreset,
+  RECURRENCE_PRESETS,
+  buildRecurrenceRule,
+  getRecurrencePreset,
+  occursOn,
+  getNextOccurrence,
+  describeRecurrence,
+} from "./recurrence";
+
+export {
+  type RoundWindow,
+  type RoundRecord,
+  getRoundWindow,
+  getRoundDate,
+  getRoundRecord,
+} from "./rounds";
+
+export {
+  type StatsRange,
+  type StatsGoal,
+  type DailyStats,
+  type OutcomeBreakdown,
+  type CategoryStats,
+  type GoalStats,
+  STATS_RANGE_DAYS,
+  getGoalStats,
+} from "./stats";
+
+export {
+  type CalendarView,
+  getCalendarDays,
+  shiftCalendar,
+  getGoalCalendarDate,
+} from "./calendar";
+
+export {
+  type GoalSort,
+  type GoalFilter,
+  type FilterableGoal,
+  GOAL_SORT_LABELS,
+  UNCATEGORIZED,
+  normalizeTag,
+  getGoalTags,
+  filterGoals,
+  sortGoals,
+} from "./goalFilters";
+
+export { getCosmeticItem, getEquippedCosmetics } from "./cosmetics";
+
+export {
+  type AchievementProgress,
+  type AchievementHistory,
+  getAchievementProgress,
+  isAchievementEarned,
+  getNewAchievements,
+} from "./achievements";
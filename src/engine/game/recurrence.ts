@@ -0,0 +1,115 @@
+/**
+ * Recurrence - RRULE-style schedules for recurring daily goals
+ * The SQL counterpart is public.series_occurs_on() in supabase/migrations
+ */
+
+import { shiftDate } from "./deadlines";
+
+export type RecurrenceFrequency = "weekly" | "monthly" | "interval";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  by_weekday: number[] | null; // 0 = Sunday ... 6 = Saturday
+  by_month_day: number | null; // 1-31, months without that day are skipped
+  interval_days: number | null; // every N days counted from start_date
+  start_date: string; // "yyyy-MM-dd"
+}
+
+export type RecurrencePreset = "none" | "weekdays" | "monWedFri" | "monthly" | "interval";
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const MON_WED_FRI = [1, 3, 5];
+
+export const RECURRENCE_PRESETS: { id: RecurrencePreset; label: string }[] = [
+  { id: "none", label: "Does not repeat" },
+  { id: "weekdays", label: "Every weekday" },
+  { id: "monWedFri", label: "Mon / Wed / Fri" },
+  { id: "monthly", label: "Monthly on a day" },
+  { id: "interval", label: "Every N days" },
+];
+
+/**
+ * Build a rule from a preset and its parameter (day of month or N days)
+ */
+export function buildRecurrenceRule(
+  preset: Exclude<RecurrencePreset, "none">,
+  startDate: string,
+  value = 1
+): RecurrenceRule {
+  const base = { by_weekday: null, by_month_day: null, interval_days: null, start_date: startDate };
+
+  switch (preset) {
+    case "weekdays":
+      return { ...base, frequency: "weekly", by_weekday: WEEKDAYS };
+    case "monWedFri":
+      return { ...base, frequency: "weekly", by_weekday: MON_WED_FRI };
+    case "monthly":
+      return { ...base, frequency: "monthly", by_month_day: value };
+    case "interval":
+      return { ...base, frequency: "interval", interval_days: Math.max(1, value) };
+  }
+}
+
+/**
+ * Map a stored rule back to the preset that produced it
+ */
+export function getRecurrencePreset(rule: RecurrenceRule): Exclude<RecurrencePreset, "none"> {
+  if (rule.frequency === "monthly") return "monthly";
+  if (rule.frequency === "interval") return "interval";
+
+  const days = [...(rule.by_weekday || [])].sort().join(",");
+  return days === MON_WED_FRI.join(",") ? "monWedFri" : "weekdays";
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Whether the schedule has an occurrence on the given calendar date
+ */
+export function occursOn(rule: RecurrenceRule, date: string): boolean {
+  if (date < rule.start_date) return false;
+
+  const [year, month, day] = date.split("-").map(Number);
+
+  switch (rule.frequency) {
+    case "weekly":
+      return (rule.by_weekday || []).includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+    case "monthly":
+      return day === rule.by_month_day;
+    case "interval":
+      return daysBetween(rule.start_date, date) % Math.max(1, rule.interval_days || 1) === 0;
+  }
+}
+
+/**
+ * Next occurrence on or after the given date, searching at most a year ahead
+ */
+export function getNextOccurrence(rule: RecurrenceRule, fromDate: string): string | null {
+  for (let offset = 0; offset <= 366; offset++) {
+    const candidate = shiftDate(fromDate, offset);
+    if (occursOn(rule, candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Human readable schedule, e.g. "Every Mon, Wed, Fri"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.frequency) {
+    case "weekly": {
+      const days = [...(rule.by_weekday || [])].sort();
+      if (days.join(",") === WEEKDAYS.join(",")) return "Every weekday";
+      return `Every ${days.map((d) => WEEKDAY_NAMES[d]).join(", ")}`;
+    }
+    case "monthly":
+      return `Monthly on day ${rule.by_month_day}`;
+    case "interval":
+      return rule.interval_days === 1 ? "Every day" : `Every ${rule.interval_days} days`;
+  }
+}
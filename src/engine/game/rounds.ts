@@ -0,0 +1,58 @@
+/**
+ * Rounds - Each local day is its own battle, settled at day_end_time
+ * The SQL counterparts are public.round_window() and public.round_date_of() in supabase/migrations
+ */
+
+import { DailyRound } from "@/config/game/types";
+import { DEFAULT_DAY_END_TIME, getNextDayEnd, getZonedDate, shiftDate, zonedTimeToUtc } from "./deadlines";
+
+export interface RoundWindow {
+  roundDate: string; // "yyyy-MM-dd" of the day_end_time that closes the round
+  start: Date; // exclusive
+  end: Date; // inclusive
+}
+
+export interface RoundRecord {
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number; // 0-100, draws count as played
+}
+
+/**
+ * The round in progress at `now`: from the previous day end up to the next one
+ */
+export function getRoundWindow(
+  now: Date,
+  timeZone: string,
+  dayEndTime: string = DEFAULT_DAY_END_TIME
+): RoundWindow {
+  const end = getNextDayEnd(now, timeZone, dayEndTime);
+  const roundDate = getZonedDate(end, timeZone);
+  const start = zonedTimeToUtc(shiftDate(roundDate, -1), dayEndTime, timeZone);
+
+  return { roundDate, start, end };
+}
+
+/**
+ * The round an instant counts toward; the day end itself belongs to the round it closes
+ */
+export function getRoundDate(
+  instant: Date,
+  timeZone: string,
+  dayEndTime: string = DEFAULT_DAY_END_TIME
+): string {
+  return getRoundWindow(new Date(instant.getTime() - 1), timeZone, dayEndTime).roundDate;
+}
+
+/**
+ * Win/loss/draw tally over settled rounds
+ */
+export function getRoundRecord(rounds: Pick<DailyRound, "winner">[]): RoundRecord {
+  const wins = rounds.filter((r) => r.winner === "user").length;
+  const losses = rounds.filter((r) => r.winner === "ai").length;
+  const draws = rounds.length - wins - losses;
+  const winRate = rounds.length > 0 ? Math.round((wins / rounds.length) * 100) : 0;
+
+  return { wins, losses, draws, winRate };
+}
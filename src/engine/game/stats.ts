@@ -0,0 +1,193 @@
+/**
+ * Stats - Performance history derived from the goals table
+ * Points and outcomes are bucketed by round, streaks by calendar day like
+ * public.update_streak_on_goal_complete()
+ */
+
+import { GoalStatus } from "@/config/game/types";
+import { DeadlineGoal, getGoalDeadline, getZonedDate, getZonedTime, shiftDate } from "./deadlines";
+import { getCompletionRule } from "./ScoringEngine";
+import { getRoundDate } from "./rounds";
+
+export type StatsRange = "week" | "month" | "all";
+
+export const STATS_RANGE_DAYS: Record<Exclude<StatsRange, "all">, number> = {
+  week: 7,
+  month: 30,
+};
+
+export interface StatsGoal extends DeadlineGoal {
+  status: GoalStatus;
+  completed_at: string | null;
+  points_earned: number;
+  ai_points_earned: number;
+  category_id?: string | null;
+}
+
+export interface DailyStats {
+  date: string; // round date, "yyyy-MM-dd"
+  userPoints: number;
+  aiPoints: number;
+  completed: number;
+  missed: number;
+  completionRate: number | null; // 0-100, null when nothing was settled that day
+  streak: number;
+}
+
+export interface OutcomeBreakdown {
+  early: number;
+  onTime: number;
+  late: number;
+  missed: number;
+}
+
+export interface CategoryStats {
+  categoryId: string | null; // null collects uncategorised goals
+  userPoints: number;
+  aiPoints: number;
+  completed: number;
+  missed: number;
+  completionRate: number | null;
+}
+
+export interface GoalStats {
+  days: DailyStats[];
+  outcomes: OutcomeBreakdown;
+  completionRate: number | null;
+  completionsByHour: number[]; // 24 buckets in the user's timezone
+  longestStreak: number;
+  categories: CategoryStats[]; // busiest first
+}
+
+interface StatsOptions {
+  range: StatsRange;
+  now: Date;
+  timezone: string;
+  dayEndTime: string;
+}
+
+type Outcome = keyof OutcomeBreakdown;
+
+interface SettledGoal {
+  goal: StatsGoal;
+  roundDate: string;
+  outcome: Outcome;
+}
+
+function completionRate(completed: number, missed: number): number | null {
+  const settled = completed + missed;
+  return settled > 0 ? Math.round((completed / settled) * 100) : null;
+}
+
+/**
+ * Where and how a finished goal counts: completions on the day they happened, misses on their deadline
+ */
+function settle(goal: StatsGoal, timezone: string, dayEndTime: string): SettledGoal | null {
+  if (goal.status === "completed" && goal.completed_at) {
+    const completedAt = new Date(goal.completed_at);
+    const rule = getCompletionRule({ goal, completedAt, timezone, dayEndTime });
+    const outcome: Outcome = rule.endsWith("earlyCompletion")
+      ? "early"
+      : rule.endsWith("lateCompletion")
+        ? "late"
+        : "onTime";
+
+    return { goal, roundDate: getRoundDate(completedAt, timezone, dayEndTime), outcome };
+  }
+
+  if (goal.status === "missed") {
+    const deadline = getGoalDeadline(goal, timezone, dayEndTime);
+    if (!deadline) return null;
+    return { goal, roundDate: getRoundDate(deadline, timezone, dayEndTime), outcome: "missed" };
+  }
+
+  return null;
+}
+
+/**
+ * Streak length at the end of each calendar day that had a completion
+ */
+function getStreaks(goals: StatsGoal[], timezone: string): Map<string, number> {
+  const days = [
+    ...new Set(
+      goals
+        .filter((goal) => goal.status === "completed" && goal.completed_at)
+        .map((goal) => getZonedDate(new Date(goal.completed_at!), timezone))
+    ),
+  ].sort();
+
+  const streaks = new Map<string, number>();
+  days.forEach((day) => streaks.set(day, (streaks.get(shiftDate(day, -1)) ?? 0) + 1));
+  return streaks;
+}
+
+export function getGoalStats(goals: StatsGoal[], { range, now, timezone, dayEndTime }: StatsOptions): GoalStats {
+  const today = getRoundDate(now, timezone, dayEndTime);
+  const settled = goals
+    .map((goal) => settle(goal, timezone, dayEndTime))
+    .filter((entry): entry is SettledGoal => entry !== null);
+
+  const firstDate = settled.reduce((first, entry) => (entry.roundDate < first ? entry.roundDate : first), today);
+  const startDate = range === "all" ? firstDate : shiftDate(today, -(STATS_RANGE_DAYS[range] - 1));
+  const inRange = settled.filter((entry) => entry.roundDate >= startDate && entry.roundDate <= today);
+
+  const streaks = getStreaks(goals, timezone);
+  const days: DailyStats[] = [];
+
+  for (let date = startDate; date <= today; date = shiftDate(date, 1)) {
+    const entries = inRange.filter((entry) => entry.roundDate === date);
+    const completed = entries.filter((entry) => entry.outcome !== "missed").length;
+    const missed = entries.length - completed;
+
+    // Today's streak is still alive until the day ends without a completion
+    const streak = streaks.get(date) ?? (date === today ? streaks.get(shiftDate(date, -1)) ?? 0 : 0);
+
+    days.push({
+      date,
+      userPoints: entries.reduce((sum, entry) => sum + entry.goal.points_earned, 0),
+      aiPoints: entries.reduce((sum, entry) => sum + entry.goal.ai_points_earned, 0),
+      completed,
+      missed,
+      completionRate: completionRate(completed, missed),
+      streak,
+    });
+  }
+
+  const outcomes: OutcomeBreakdown = { early: 0, onTime: 0, late: 0, missed: 0 };
+  inRange.forEach((entry) => outcomes[entry.outcome]++);
+
+  const completionsByHour: number[] = Array(24).fill(0);
+  inRange
+    .filter((entry) => entry.outcome !== "missed")
+    .forEach((entry) => completionsByHour[Number(getZonedTime(new Date(entry.goal.completed_at!), timezone).slice(0, 2))]++);
+
+  const byCategory = new Map<string | null, CategoryStats>();
+  inRange.forEach(({ goal, outcome }) => {
+    const categoryId = goal.category_id ?? null;
+    const stats = byCategory.get(categoryId) ?? {
+      categoryId,
+      userPoints: 0,
+      aiPoints: 0,
+      completed: 0,
+      missed: 0,
+      completionRate: null,
+    };
+    stats.userPoints += goal.points_earned;
+    stats.aiPoints += goal.ai_points_earned;
+    if (outcome === "missed") stats.missed++;
+    else stats.completed++;
+    byCategory.set(categoryId, stats);
+  });
+  const categories = [...byCategory.values()]
+    .map((stats) => ({ ...stats, completionRate: completionRate(stats.completed, stats.missed) }))
+    .sort((a, b) => b.completed + b.missed - (a.completed + a.missed));
+
+  return {
+    days,
+    outcomes,
+    completionRate: completionRate(inRange.length - outcomes.missed, outcomes.missed),
+    completionsByHour,
+    longestStreak: Math.max(0, ...days.map((day) => day.streak)),
+    categories,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * useAchievements - Unlocked achievements, progress toward the rest, and unlocking new ones
+ * Progress is shown from the goal and round history already loaded; when it looks like something
+ * new is earned, unlock_achievements() checks the rules against the stored history itself, records
+ * the unlocks, and the new ones are announced with a toast and a fanfare
+ */
+
+import { useEffect, useMemo, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { ACHIEVEMENTS, UnlockedAchievement } from "@/config/game";
+import { AchievementProgress, getAchievementProgress, getNewAchievements } from "@/engine/game";
+import { OfflineGoal } from "@/lib/offline";
+import { useToast } from "./use-toast";
+import { useRoundHistory } from "./useRounds";
+import { useSoundEffects } from "./useSoundEffects";
+
+export const achievementKeys = {
+  all: ["achievements"] as const,
+  unlocked: (userId: string) => ["achievements", userId] as const,
+};
+
+async function fetchUnlocked(userId: string): Promise<UnlockedAchievement[]> {
+  const { data, error } = await supabase
+    .from("user_achievements")
+    .select("achievement_id, unlocked_at")
+    .eq("user_id", userId)
+    .order("unlocked_at", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+export function useUnlockedAchievements(userId: string | undefined) {
+  return useQuery({
+    queryKey: achievementKeys.unlocked(userId ?? ""),
+    queryFn: () => fetchUnlocked(userId!),
+    enabled: !!userId,
+  });
+}
+
+interface HistoryOptions {
+  goals: OfflineGoal[];
+  timezone: string;
+  dayEndTime: string;
+}
+
+/**
+ * Progress on every achievement metric; null until the round history has loaded
+ */
+export function useAchievementProgress(
+  userId: string | undefined,
+  { goals, timezone, dayEndTime }: HistoryOptions
+): AchievementProgress | null {
+  const { data: rounds } = useRoundHistory(userId);
+
+  return useMemo(
+    () => (rounds ? getAchievementProgress({ goals, rounds, now: new Date(), timezone, dayEndTime }) : null),
+    [goals, rounds, timezone, dayEndTime]
+  );
+}
+
+export function useUnlockAchievements(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    // Resolves with only the unlocks that are new; one another tab already stored is left out
+    mutationFn: async (): Promise<UnlockedAchievement[]> => {
+      const { data, error } = await supabase.rpc("unlock_achievements");
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (unlocked) => {
+      queryClient.setQueryData<UnlockedAchievement[]>(achievementKeys.unlocked(userId ?? ""), (old) => [
+        ...(old ?? []),
+        ...unlocked,
+      ]);
+    },
+  });
+}
+
+interface UseAchievementUnlocksProps extends HistoryOptions {
+  soundEnabled: boolean;
+  ready: boolean; // goals are loaded, so a missing completion is not mistaken for none
+}
+
+/**
+ * Ask the server to unlock whatever the history has newly earned, and celebrate what it stores
+ */
+export function useAchievementUnlocks(userId: string | undefined, { soundEnabled, ready, ...history }: UseAchievementUnlocksProps) {
+  const { toast } = useToast();
+  const { playSound } = useSoundEffects(soundEnabled);
+  const { data: unlocked } = useUnlockedAchievements(userId);
+  const progress = useAchievementProgress(userId, history);
+  const { mutate: unlock } = useUnlockAchievements(userId);
+  const pending = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!ready || !unlocked || !progress) return;
+
+    const earned = getNewAchievements(progress, new Set(unlocked.map((entry) => entry.achievement_id))).filter(
+      (achievement) => !pending.current.has(achievement.id)
+    );
+    if (earned.length === 0) return;
+
+    earned.forEach((achievement) => pending.current.add(achievement.id));
+    unlock(undefined, {
+      onSuccess: (stored) => {
+        const ids = new Set(stored.map((entry) => entry.achievement_id));
+        const announced = ACHIEVEMENTS.filter((achievement) => ids.has(achievement.id));
+        if (announced.length === 0) return;
+
+        playSound("achievement");
+        // Only one toast shows at a time, so a batch of unlocks shares it
+        toast({
+          title:
+            announced.length === 1
+              ? `${announced[0].emoji} Achievement unlocked!`
+              : `🏆 ${announced.length} achievements unlocked!`,
+          description: announced.map((achievement) => achievement.name).join(", "),
+        });
+      },
+      // Offline or rejected: the next history change tries again
+      onError: (error) => console.error("Error unlocking achievements:", error),
+      onSettled: () => earned.forEach((achievement) => pending.current.delete(achievement.id)),
+    });
+  }, [ready, unlocked, progress, unlock, playSound, toast]);
+}
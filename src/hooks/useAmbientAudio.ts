@@ -5,6 +5,7 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import { ThemeType } from "@/config/game";
+import { getThemePack, ThemeAudio } from "@/themes";
 import { IntensityLevel } from "./useGameLoop";
 import { INTENSITY_CONFIGS } from "@/config/game/intensity.config";
 
@@ -15,50 +16,6 @@ interface AudioNodes {
   compressor: DynamicsCompressorNode;
 }
 
-interface ThemeAudioConfig {
-  baseFreq: number;
-  scale: number[];
-  waveform: OscillatorType;
-  bassFreq: number;
-  style: "rhythmic" | "ambient" | "action" | "tension";
-  beatPattern: number[];
-}
-
-const THEME_AUDIO_CONFIGS: Record<ThemeType, ThemeAudioConfig> = {
-  forest: {
-    baseFreq: 220,
-    scale: [0, 2, 4, 5, 7, 9, 11, 12], // Major scale - uplifting
-    waveform: "sawtooth",
-    bassFreq: 55,
-    style: "rhythmic",
-    beatPattern: [1, 0, 1, 0, 1, 1, 0, 1], // Running rhythm
-  },
-  coding: {
-    baseFreq: 330,
-    scale: [0, 3, 5, 7, 10, 12], // Minor pentatonic - techy
-    waveform: "square",
-    bassFreq: 65,
-    style: "ambient",
-    beatPattern: [1, 0, 0, 1, 0, 0, 1, 0], // Data pulse
-  },
-  ninja: {
-    baseFreq: 196,
-    scale: [0, 2, 3, 5, 7, 8, 10, 12], // Minor scale - dramatic
-    waveform: "triangle",
-    bassFreq: 49,
-    style: "action",
-    beatPattern: [1, 1, 0, 1, 1, 0, 1, 0], // Combat rhythm
-  },
-  agent: {
-    baseFreq: 262,
-    scale: [0, 1, 4, 5, 7, 8, 11, 12], // Harmonic minor - suspense
-    waveform: "sine",
-    bassFreq: 58,
-    style: "tension",
-    beatPattern: [1, 0, 0, 0, 1, 0, 0, 0], // Heartbeat
-  },
-};
-
 export function useAmbientAudio(
   theme: ThemeType,
   enabled: boolean = true,
@@ -164,7 +121,7 @@ export function useAmbientAudio(
   }, []);
 
   // Main beat/sequence player
-  const playBeat = useCallback((config: ThemeAudioConfig, nodes: AudioNodes, intensityConfig: typeof INTENSITY_CONFIGS["low"]) => {
+  const playBeat = useCallback((config: ThemeAudio, nodes: AudioNodes, intensityConfig: typeof INTENSITY_CONFIGS["low"]) => {
     const { baseFreq, scale, waveform, bassFreq, beatPattern, style } = config;
     const beatActive = beatPattern[beatIndexRef.current % beatPattern.length];
     const noteVolume = intensityConfig.audioVolume * 0.3;
@@ -246,7 +203,7 @@ export function useAmbientAudio(
       nodes.context.resume();
     }
 
-    const config = THEME_AUDIO_CONFIGS[theme];
+    const config = getThemePack(theme).audio;
     const intensityConfig = INTENSITY_CONFIGS[intensity];
     
     // Fade in
@@ -302,7 +259,7 @@ export function useAmbientAudio(
     if (!isPlaying || !audioNodesRef.current) return;
     
     const intensityConfig = INTENSITY_CONFIGS[intensity];
-    const config = THEME_AUDIO_CONFIGS[theme];
+    const config = getThemePack(theme).audio;
     
     // Update master volume
     audioNodesRef.current.masterGain.gain.setTargetAtTime(
@@ -0,0 +1,59 @@
+/**
+ * useAvatar - Upload and remove the user's own profile picture
+ * The picture lives in Storage; profiles.avatar_url holds its path and the bundled avatar is the fallback
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { AVATAR_BUCKET, avatarPath, versionedAvatarPath } from "@/lib/avatar";
+import { Profile, profileKeys } from "@/hooks/useProfile";
+
+export function useUploadAvatar(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (image: Blob): Promise<string> => {
+      const path = avatarPath(userId!);
+      const bucket = supabase.storage.from(AVATAR_BUCKET);
+
+      const { error } = await bucket.upload(path, image, { upsert: true, contentType: image.type });
+      if (error) throw error;
+
+      const storedPath = versionedAvatarPath(userId!);
+      const { error: profileError } = await supabase
+        .from("profiles")
+        .update({ avatar_url: storedPath })
+        .eq("user_id", userId!);
+      if (profileError) throw profileError;
+      return storedPath;
+    },
+    onSuccess: (storedPath) => {
+      queryClient.setQueryData<Profile | null>(profileKeys.detail(userId ?? ""), (old) =>
+        old ? { ...old, avatar_url: storedPath } : old
+      );
+    },
+  });
+}
+
+/**
+ * Go back to the bundled avatar; the profile is cleared before the file so it never links to a missing picture
+ */
+export function useRemoveAvatar(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from("profiles").update({ avatar_url: null }).eq("user_id", userId!);
+      if (error) throw error;
+
+      // The profile no longer uses the file, so a leftover copy is not worth failing over
+      const { error: storageError } = await supabase.storage.from(AVATAR_BUCKET).remove([avatarPath(userId!)]);
+      if (storageError) console.error("Error removing avatar file:", storageError);
+    },
+    onSuccess: () => {
+      queryClient.setQueryData<Profile | null>(profileKeys.detail(userId ?? ""), (old) =>
+        old ? { ...old, avatar_url: null } : old
+      );
+    },
+  });
+}
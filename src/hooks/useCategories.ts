@@ -0,0 +1,131 @@
+/**
+ * useCategories - The user's goal categories and their mutations
+ * Categories need a connection to change; goals that use one keep working offline
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { GoalCategory } from "@/config/game";
+import { goalKeys } from "@/hooks/useGoals";
+
+export const categoryKeys = {
+  all: ["categories"] as const,
+  list: (userId: string) => ["categories", userId] as const,
+};
+
+async function fetchCategories(userId: string): Promise<GoalCategory[]> {
+  const { data, error } = await supabase
+    .from("goal_categories")
+    .select("id, name, color, created_at")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+export function useCategories(userId: string | undefined) {
+  return useQuery({
+    queryKey: categoryKeys.list(userId ?? ""),
+    queryFn: () => fetchCategories(userId!),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Message for a failed save; names are unique per user regardless of case
+ */
+export function describeCategoryError(error: { code?: string }, name: string): string {
+  return error.code === "23505" ? `You already have a category called "${name.trim()}"` : "Failed to save category";
+}
+
+interface NewCategory {
+  name: string;
+  color: string;
+}
+
+export function useCreateCategory(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, color }: NewCategory): Promise<GoalCategory> => {
+      const { data, error } = await supabase
+        .from("goal_categories")
+        .insert({ user_id: userId!, name: name.trim(), color })
+        .select("id, name, color, created_at")
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (category) => {
+      queryClient.setQueryData<GoalCategory[]>(categoryKeys.list(userId ?? ""), (old) =>
+        [...(old ?? []), category].sort((a, b) => a.name.localeCompare(b.name))
+      );
+    },
+  });
+}
+
+interface CategoryChange {
+  id: string;
+  name?: string;
+  color?: string;
+}
+
+export function useUpdateCategory(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = categoryKeys.list(userId ?? "");
+
+  return useMutation({
+    mutationFn: async ({ id, ...change }: CategoryChange) => {
+      const { error } = await supabase
+        .from("goal_categories")
+        .update({ ...change, name: change.name?.trim() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onMutate: async ({ id, ...change }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<GoalCategory[]>(key);
+
+      queryClient.setQueryData<GoalCategory[]>(key, (old) =>
+        old?.map((category) =>
+          category.id === id
+            ? { ...category, name: change.name?.trim() ?? category.name, color: change.color ?? category.color }
+            : category
+        )
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+  });
+}
+
+/**
+ * Delete a category; the server leaves its goals uncategorised, so the goal list is refetched
+ */
+export function useDeleteCategory(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = categoryKeys.list(userId ?? "");
+
+  return useMutation({
+    mutationFn: async (categoryId: string) => {
+      const { error } = await supabase.from("goal_categories").delete().eq("id", categoryId);
+      if (error) throw error;
+    },
+    onMutate: async (categoryId) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<GoalCategory[]>(key);
+
+      queryClient.setQueryData<GoalCategory[]>(key, (old) => old?.filter((category) => category.id !== categoryId));
+      return { previous };
+    },
+    onError: (_error, _categoryId, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: goalKeys.all });
+    },
+  });
+}
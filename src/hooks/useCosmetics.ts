@@ -0,0 +1,112 @@
+/**
+ * useCosmetics - Coin balance, owned cosmetics, and buying and equipping them
+ * Purchases and equipping run server-side, which checks ownership and charges the catalogue price
+ */
+
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { EquippedCosmetics, OwnedCosmetic } from "@/config/game";
+import { getEquippedCosmetics } from "@/engine/game";
+
+export const cosmeticKeys = {
+  all: ["cosmetics"] as const,
+  inventory: (userId: string) => ["cosmetics", userId, "inventory"] as const,
+  balance: (userId: string) => ["cosmetics", userId, "balance"] as const,
+};
+
+async function fetchInventory(userId: string): Promise<OwnedCosmetic[]> {
+  const { data, error } = await supabase
+    .from("cosmetic_inventory")
+    .select("item_id, slot, equipped, purchased_at")
+    .eq("user_id", userId)
+    .order("purchased_at", { ascending: true });
+
+  if (error) throw error;
+  return data as OwnedCosmetic[];
+}
+
+export function useInventory(userId: string | undefined) {
+  return useQuery({
+    queryKey: cosmeticKeys.inventory(userId ?? ""),
+    queryFn: () => fetchInventory(userId!),
+    enabled: !!userId,
+  });
+}
+
+export function useEquippedCosmetics(userId: string | undefined): EquippedCosmetics {
+  const { data: inventory } = useInventory(userId);
+  return useMemo(() => getEquippedCosmetics(inventory ?? []), [inventory]);
+}
+
+export function useCoinBalance(userId: string | undefined) {
+  return useQuery({
+    queryKey: cosmeticKeys.balance(userId ?? ""),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("coin_balance");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Message for a failed purchase; the server explains a refusal (not enough coins, already owned)
+ */
+export function describePurchaseError(error: { code?: string; message?: string }): string {
+  return error.code === "P0001" && error.message ? error.message : "Failed to buy this item";
+}
+
+export function usePurchaseCosmetic(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (itemId: string): Promise<number> => {
+      const { data, error } = await supabase.rpc("purchase_cosmetic", { item_id: itemId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (balance) => {
+      queryClient.setQueryData(cosmeticKeys.balance(userId ?? ""), balance);
+      queryClient.invalidateQueries({ queryKey: cosmeticKeys.inventory(userId ?? "") });
+    },
+  });
+}
+
+interface EquipChange {
+  itemId: string;
+  equip: boolean;
+}
+
+export function useEquipCosmetic(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = cosmeticKeys.inventory(userId ?? "");
+
+  return useMutation({
+    mutationFn: async ({ itemId, equip }: EquipChange) => {
+      const { error } = await supabase.rpc("equip_cosmetic", { item_id: itemId, equip });
+      if (error) throw error;
+    },
+    onMutate: async ({ itemId, equip }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<OwnedCosmetic[]>(key);
+      const slot = previous?.find((owned) => owned.item_id === itemId)?.slot;
+
+      // Equipping swaps out whatever else was in the slot, as the server does
+      queryClient.setQueryData<OwnedCosmetic[]>(key, (old) =>
+        old?.map((owned) =>
+          owned.item_id === itemId
+            ? { ...owned, equipped: equip }
+            : equip && owned.slot === slot
+              ? { ...owned, equipped: false }
+              : owned
+        )
+      );
+      return { previous };
+    },
+    onError: (_error, _change, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * useFriends - Friend invites, the weekly leaderboard and the head-to-head rival's live score
+ * Friends only ever see each other's public side: username, avatar, theme and scores
+ */
+
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { AvatarType, ThemeType } from "@/config/game";
+
+export interface Friend {
+  friendship_id: string;
+  friend_id: string;
+  username: string | null;
+  avatar_url: string | null;
+  avatar_type: AvatarType | null;
+  background_theme: ThemeType | null;
+  status: "pending" | "accepted";
+  incoming: boolean; // a pending invite the user has yet to answer
+  created_at: string;
+}
+
+export interface LeaderboardEntry {
+  user_id: string;
+  username: string | null;
+  avatar_url: string | null;
+  avatar_type: AvatarType | null;
+  background_theme: ThemeType | null;
+  round_points: number; // the round in progress, in that player's own timezone
+  week_points: number;
+}
+
+export const friendKeys = {
+  all: ["friends"] as const,
+  list: (userId: string) => ["friends", userId] as const,
+  leaderboard: (userId: string) => ["friends", userId, "leaderboard"] as const,
+};
+
+// Realtime says when someone scores; polling catches a friend's round or week rolling over
+const LEADERBOARD_REFRESH_MS = 60 * 1000;
+
+export function useFriends(userId: string | undefined) {
+  return useQuery({
+    queryKey: friendKeys.list(userId ?? ""),
+    queryFn: async (): Promise<Friend[]> => {
+      const { data, error } = await supabase.rpc("friend_list");
+      if (error) throw error;
+      return data as Friend[];
+    },
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Refetch the friend list when an invite arrives, is answered or a friendship ends
+ */
+export function useFriendsRealtime(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel('friendship-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'friendships' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: friendKeys.list(userId) });
+          queryClient.invalidateQueries({ queryKey: friendKeys.leaderboard(userId) });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+}
+
+export function useLeaderboard(userId: string | undefined, enabled: boolean = true) {
+  return useQuery({
+    queryKey: friendKeys.leaderboard(userId ?? ""),
+    queryFn: async (): Promise<LeaderboardEntry[]> => {
+      const { data, error } = await supabase.rpc("friend_leaderboard");
+      if (error) throw error;
+      return data as LeaderboardEntry[];
+    },
+    enabled: !!userId && enabled,
+    refetchInterval: LEADERBOARD_REFRESH_MS,
+  });
+}
+
+/**
+ * Refetch the leaderboard when the user or a friend scores
+ * The player_stats row only says someone scored; its totals go stale at a round or week rollover,
+ * so the scores themselves always come from friend_leaderboard
+ * Row-level security decides whose changes arrive, so the channel needs no filter
+ */
+export function useLeaderboardRealtime(userId: string | undefined, enabled: boolean = true) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId || !enabled) return;
+
+    const channel = supabase
+      .channel('player-stats-changes')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'player_stats' },
+        () => {
+          queryClient.invalidateQueries({ queryKey: friendKeys.leaderboard(userId) });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, enabled, queryClient]);
+}
+
+/**
+ * The head-to-head rival with a live score; null while not set, loading, or no longer a friend
+ */
+export function useRival(userId: string | undefined, rivalId: string | null | undefined): LeaderboardEntry | null {
+  const { data: leaderboard } = useLeaderboard(userId, !!rivalId);
+  useLeaderboardRealtime(userId, !!rivalId);
+
+  return (rivalId && leaderboard?.find((entry) => entry.user_id === rivalId)) || null;
+}
+
+/**
+ * Message for a failed invite; the server explains a refusal (unknown or ambiguous username, already friends)
+ */
+export function describeFriendRequestError(error: { code?: string; message?: string }): string {
+  return (error.code === "P0001" || error.code === "P0002") && error.message ? error.message : "Failed to send the invite";
+}
+
+export function useSendFriendRequest(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (username: string): Promise<"pending" | "accepted"> => {
+      const { data, error } = await supabase.rpc("send_friend_request", { friend_username: username });
+      if (error) throw error;
+      return data as "pending" | "accepted";
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: friendKeys.list(userId ?? "") });
+      queryClient.invalidateQueries({ queryKey: friendKeys.leaderboard(userId ?? "") });
+    },
+  });
+}
+
+export function useAcceptFriendRequest(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = friendKeys.list(userId ?? "");
+
+  return useMutation({
+    mutationFn: async (friendshipId: string) => {
+      const { error } = await supabase.rpc("accept_friend_request", { request_id: friendshipId });
+      if (error) throw error;
+    },
+    onMutate: async (friendshipId) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Friend[]>(key);
+
+      queryClient.setQueryData<Friend[]>(key, (old) =>
+        old?.map((friend) =>
+          friend.friendship_id === friendshipId ? { ...friend, status: "accepted", incoming: false } : friend
+        )
+      );
+      return { previous };
+    },
+    onError: (_error, _friendshipId, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: friendKeys.leaderboard(userId ?? "") });
+    },
+  });
+}
+
+/**
+ * Decline or cancel an invite, or unfriend
+ */
+export function useRemoveFriendship(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = friendKeys.list(userId ?? "");
+
+  return useMutation({
+    mutationFn: async (friendshipId: string) => {
+      const { error } = await supabase.from("friendships").delete().eq("id", friendshipId);
+      if (error) throw error;
+    },
+    onMutate: async (friendshipId) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Friend[]>(key);
+
+      queryClient.setQueryData<Friend[]>(key, (old) => old?.filter((friend) => friend.friendship_id !== friendshipId));
+      return { previous };
+    },
+    onError: (_error, _friendshipId, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: friendKeys.leaderboard(userId ?? "") });
+    },
+  });
+}
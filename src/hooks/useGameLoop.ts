@@ -6,6 +6,8 @@
 
 import { useState, useEffect, useMemo, useCallback } from "react";
 import { GameState } from "@/config/game/types";
+import { getLocalTimezone, getNextDayEnd } from "@/engine/game";
+import { IGameStrategy } from "@/strategies/game";
 
 export type IntensityLevel = "low" | "medium" | "high" | "critical";
 
@@ -29,6 +31,9 @@ export interface GameLoopState {
   
   // Threat level (combination of time + score)
   threatLevel: number; // 0-1 overall threat
+
+  // AI points accrued passively so far today by the opponent strategy
+  passiveAiPoints: number;
 }
 
 interface UseGameLoopProps {
@@ -37,20 +42,15 @@ interface UseGameLoopProps {
   dayEndTime: string; // "23:00" format
   timezone?: string;
   isActive: boolean;
+  strategy?: IGameStrategy;
 }
 
-// Calculate milliseconds until EOD
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calculate milliseconds until EOD in the user's timezone
 function calculateTimeToEOD(dayEndTime: string, timezone?: string): number {
   const now = new Date();
-  const [hours, minutes] = dayEndTime.split(":").map(Number);
-  
-  const eod = new Date();
-  eod.setHours(hours, minutes, 0, 0);
-  
-  // If EOD has passed, it's for tomorrow
-  if (eod.getTime() <= now.getTime()) {
-    eod.setDate(eod.getDate() + 1);
-  }
+  const eod = getNextDayEnd(now, timezone || getLocalTimezone(), dayEndTime);
   
   return Math.max(0, eod.getTime() - now.getTime());
 }
@@ -116,12 +116,20 @@ export function useGameLoop({
   dayEndTime,
   timezone,
   isActive,
+  strategy,
 }: UseGameLoopProps): GameLoopState {
   const [timeToEOD, setTimeToEOD] = useState(() => 
     calculateTimeToEOD(dayEndTime, timezone)
   );
   const [pulse, setPulse] = useState(0);
   const [beatCount, setBeatCount] = useState(0);
+
+  // The opponent keeps moving even when nothing is completed or missed
+  const passiveAiPoints = useMemo(
+    () => (strategy ? strategy.getPassiveAiPoints(1 - timeToEOD / DAY_MS) : 0),
+    [strategy, timeToEOD]
+  );
+  const totalAiPoints = aiPoints + passiveAiPoints;
   
   // Update time every second
   useEffect(() => {
@@ -143,7 +151,7 @@ export function useGameLoop({
     
     const animate = () => {
       const elapsed = Date.now() - startTime;
-      const { value: intensityValue } = calculateIntensity(timeToEOD, userPoints, aiPoints);
+      const { value: intensityValue } = calculateIntensity(timeToEOD, userPoints, totalAiPoints);
       
       // Faster pulse at higher intensity (400ms to 150ms cycle)
       const cycleDuration = 400 - intensityValue * 250;
@@ -157,13 +165,13 @@ export function useGameLoop({
     
     animationFrame = requestAnimationFrame(animate);
     return () => cancelAnimationFrame(animationFrame);
-  }, [isActive, timeToEOD, userPoints, aiPoints]);
+  }, [isActive, timeToEOD, userPoints, totalAiPoints]);
   
   // Beat counter - for synchronized animations
   useEffect(() => {
     if (!isActive) return;
     
-    const { value: intensityValue } = calculateIntensity(timeToEOD, userPoints, aiPoints);
+    const { value: intensityValue } = calculateIntensity(timeToEOD, userPoints, totalAiPoints);
     // Beat interval: 1000ms at low intensity, 300ms at critical
     const beatInterval = 1000 - intensityValue * 700;
     
@@ -172,18 +180,18 @@ export function useGameLoop({
     }, beatInterval);
     
     return () => clearInterval(interval);
-  }, [isActive, timeToEOD, userPoints, aiPoints]);
+  }, [isActive, timeToEOD, userPoints, totalAiPoints]);
   
   // Calculate derived state
   const gameLoopState = useMemo((): GameLoopState => {
     const { level: intensity, value: intensityValue } = calculateIntensity(
       timeToEOD,
       userPoints,
-      aiPoints
+      totalAiPoints
     );
     
     // Momentum calculation
-    const scoreDiff = userPoints - aiPoints;
+    const scoreDiff = userPoints - totalAiPoints;
     let momentum: "user" | "ai" | "neutral";
     let momentumStrength: number;
     
@@ -218,8 +226,9 @@ export function useGameLoop({
       pulse,
       beatCount,
       threatLevel,
+      passiveAiPoints,
     };
-  }, [timeToEOD, userPoints, aiPoints, pulse, beatCount]);
+  }, [timeToEOD, userPoints, totalAiPoints, passiveAiPoints, pulse, beatCount]);
   
   return gameLoopState;
 }
@@ -0,0 +1,329 @@
+/**
+ * useGoals - Goal queries and mutations on top of the offline store
+ * The cache holds the server copy with the outbox applied; mutations update it
+ * optimistically, queue through the outbox and roll back if the server rejects them
+ */
+
+import { useEffect, useState } from "react";
+import { MutateOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { ChecklistItem } from "@/components/game/GoalChecklist";
+import {
+  OfflineGoal,
+  GoalDraft,
+  GoalMutation,
+  SyncResult,
+  applyOutbox,
+  cacheGoals,
+  enqueueMutation,
+  getCachedGoals,
+  getOutbox,
+  isSameMutation,
+  subscribeToSync,
+  syncOutbox,
+} from "@/lib/offline";
+
+export const goalKeys = {
+  all: ["goals"] as const,
+  list: (userId: string) => ["goals", userId] as const,
+  outbox: (userId: string) => ["goals", userId, "outbox"] as const,
+};
+
+async function fetchGoals(userId: string): Promise<OfflineGoal[]> {
+  const outbox = await getOutbox(userId);
+
+  const { data, error } = await supabase
+    .from("goals")
+    .select("*, goal_checklist_items(*)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    // Offline or unreachable: fall back to the last snapshot
+    return applyOutbox(await getCachedGoals(userId), outbox);
+  }
+
+  await cacheGoals(userId, data as OfflineGoal[]);
+  return applyOutbox(data as OfflineGoal[], outbox);
+}
+
+export function useGoals(userId: string | undefined) {
+  return useQuery({
+    queryKey: goalKeys.list(userId ?? ""),
+    queryFn: () => fetchGoals(userId!),
+    enabled: !!userId,
+    // The query falls back to IndexedDB, so it must run while offline too
+    networkMode: "always",
+  });
+}
+
+/**
+ * Online state and outbox size; flushes the outbox on mount and on reconnect
+ */
+export function useGoalSync(userId: string | undefined, onSyncResult?: (result: SyncResult) => void) {
+  const queryClient = useQueryClient();
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  const { data: pendingCount = 0 } = useQuery({
+    queryKey: goalKeys.outbox(userId ?? ""),
+    queryFn: async () => (await getOutbox(userId!)).length,
+    enabled: !!userId,
+    networkMode: "always",
+  });
+
+  useEffect(() => {
+    if (!onSyncResult) return;
+    return subscribeToSync(onSyncResult);
+  }, [onSyncResult]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const flush = async () => {
+      const results = await syncOutbox(userId);
+      queryClient.invalidateQueries({ queryKey: goalKeys.outbox(userId) });
+      if (results.length > 0) {
+        queryClient.invalidateQueries({ queryKey: goalKeys.list(userId) });
+      }
+    };
+
+    const handleOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const handleOffline = () => setOnline(false);
+
+    if (navigator.onLine) flush();
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [userId, queryClient]);
+
+  return { online, pendingCount };
+}
+
+type MergeRow = { id: string };
+
+function upsertById<T extends MergeRow>(rows: T[], row: T): T[] {
+  return rows.some((r) => r.id === row.id)
+    ? rows.map((r) => (r.id === row.id ? { ...r, ...row } : r))
+    : [row, ...rows];
+}
+
+/**
+ * Apply goal and subtask changes from realtime straight to the cache
+ */
+export function useGoalsRealtime(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const key = goalKeys.list(userId);
+
+    // Pending outbox changes are re-applied so a server update cannot hide them
+    const update = async (change: (goals: OfflineGoal[]) => OfflineGoal[]) => {
+      const outbox = await getOutbox(userId);
+      queryClient.setQueryData<OfflineGoal[]>(key, (old) => (old ? applyOutbox(change(old), outbox) : old));
+    };
+
+    const goalsChannel = supabase
+      .channel('goals-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'goals',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            update((goals) => goals.filter((goal) => goal.id !== (payload.old as MergeRow).id));
+            return;
+          }
+
+          const row = payload.new as OfflineGoal;
+          update((goals) => {
+            const existing = goals.find((goal) => goal.id === row.id);
+            return upsertById(goals, {
+              ...row,
+              goal_checklist_items: existing?.goal_checklist_items ?? [],
+              pending: false,
+            });
+          });
+        }
+      )
+      .subscribe();
+
+    const checklistChannel = supabase
+      .channel('checklist-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'goal_checklist_items',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            const itemId = (payload.old as MergeRow).id;
+            update((goals) =>
+              goals.map((goal) => ({
+                ...goal,
+                goal_checklist_items: goal.goal_checklist_items.filter((item) => item.id !== itemId),
+              }))
+            );
+            return;
+          }
+
+          const item = payload.new as ChecklistItem;
+          update((goals) =>
+            goals.map((goal) =>
+              goal.id === item.goal_id
+                ? { ...goal, goal_checklist_items: upsertById(goal.goal_checklist_items, item) }
+                : goal
+            )
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(goalsChannel);
+      supabase.removeChannel(checklistChannel);
+    };
+  }, [userId, queryClient]);
+}
+
+class SyncConflictError extends Error {}
+
+/**
+ * Whether a goal mutation failed because the server rejected it; useGoalSync listeners already report those
+ */
+export function isSyncConflict(error: Error): boolean {
+  return error instanceof SyncConflictError;
+}
+
+/**
+ * Queue a mutation, replay the outbox and surface a server rejection as an error
+ * Resolves once the change is on the server, or immediately when offline
+ */
+async function queueMutation(userId: string, mutation: GoalMutation): Promise<SyncResult | null> {
+  await enqueueMutation(userId, mutation);
+  if (!navigator.onLine) return null;
+
+  // A replay already in flight read the outbox before this entry was added
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const result = (await syncOutbox(userId)).find((r) => isSameMutation(r.mutation, mutation));
+    if (result?.outcome === "conflict") throw new SyncConflictError(result.reason);
+    if (result) return result;
+  }
+  return null;
+}
+
+interface OutboxMutationContext {
+  previous?: OfflineGoal[];
+}
+
+// Variables are turned into a GoalMutation once, so the optimistic update and the queued entry match
+function useOutboxMutation<TVariables>(
+  userId: string | undefined,
+  toMutation: (variables: TVariables) => GoalMutation
+) {
+  const queryClient = useQueryClient();
+  const key = goalKeys.list(userId ?? "");
+
+  const mutation = useMutation<SyncResult | null, Error, GoalMutation, OutboxMutationContext>({
+    mutationFn: (goalMutation) => queueMutation(userId!, goalMutation),
+    // Offline writes go to the outbox rather than waiting for the network
+    networkMode: "always",
+    onMutate: async (goalMutation) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<OfflineGoal[]>(key);
+
+      queryClient.setQueryData<OfflineGoal[]>(key, (old) =>
+        applyOutbox(old ?? [], [{ userId: userId!, mutation: goalMutation, queuedAt: new Date().toISOString() }])
+      );
+      return { previous };
+    },
+    onError: (_error, _goalMutation, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: goalKeys.outbox(userId ?? "") });
+    },
+  });
+
+  return {
+    ...mutation,
+    mutate: (
+      variables: TVariables,
+      options?: MutateOptions<SyncResult | null, Error, GoalMutation, OutboxMutationContext>
+    ) => mutation.mutate(toMutation(variables), options),
+    mutateAsync: (variables: TVariables) => mutation.mutateAsync(toMutation(variables)),
+  };
+}
+
+export function useCreateGoal(userId: string | undefined) {
+  return useOutboxMutation(userId, (goal: GoalDraft): GoalMutation => ({
+    type: "create",
+    // Ids are minted locally so later mutations in the outbox can refer to the goal
+    goal: { ...goal, id: crypto.randomUUID(), user_id: userId!, created_at: new Date().toISOString() },
+  }));
+}
+
+/**
+ * Complete a goal; made offline, the time is captured now and the server honours it for a sync within a few minutes
+ */
+export function useCompleteGoal(userId: string | undefined) {
+  return useOutboxMutation(userId, (goalId: string): GoalMutation => ({
+    type: "complete",
+    goalId,
+    completedAt: new Date().toISOString(),
+    offline: !navigator.onLine,
+  }));
+}
+
+export function useDeleteGoal(userId: string | undefined) {
+  return useOutboxMutation(userId, (goalId: string): GoalMutation => ({ type: "delete", goalId }));
+}
+
+interface RescheduleGoal {
+  goalId: string;
+  dueDate: string;
+}
+
+/**
+ * Move a long-term goal to another due date; needs a connection, as the outbox only queues
+ * creates, completions and deletes
+ * The server refuses once the current deadline has passed, so a missed penalty can't be put off
+ */
+export function useRescheduleGoal(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = goalKeys.list(userId ?? "");
+
+  return useMutation({
+    mutationFn: async ({ goalId, dueDate }: RescheduleGoal) => {
+      const { error } = await supabase.rpc("reschedule_goal", { goal_id: goalId, due_date: dueDate });
+      if (error) throw error;
+    },
+    onMutate: async ({ goalId, dueDate }) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<OfflineGoal[]>(key);
+
+      queryClient.setQueryData<OfflineGoal[]>(key, (old) =>
+        old?.map((goal) => (goal.id === goalId ? { ...goal, due_date: dueDate } : goal))
+      );
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+  });
+}
@@ -0,0 +1,116 @@
+/**
+ * useProfile - Shared profile cache for Dashboard and Settings
+ * Realtime changes are written straight into the cache; saves update it optimistically
+ */
+
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { TablesUpdate } from "@/integrations/supabase/types";
+import { AvatarType, DifficultyType, OpponentType, ThemeType } from "@/config/game";
+
+export interface Profile {
+  id: string;
+  user_id: string;
+  username: string | null;
+  avatar_url: string | null; // uploaded picture's path in Storage; see avatarPublicUrl()
+  avatar_type: AvatarType | null;
+  background_theme: ThemeType | null;
+  total_points: number;
+  ai_points: number;
+  notification_time: string | null;
+  notifications_enabled: boolean;
+  day_end_time: string | null;
+  timezone: string | null;
+  ai_opponent: OpponentType | null;
+  difficulty: DifficultyType | null;
+  // Asked for in Settings; the round in progress keeps ai_opponent and difficulty until it is settled
+  next_ai_opponent: OpponentType | null;
+  next_difficulty: DifficultyType | null;
+  rival_id: string | null; // head-to-head friend, replacing the AI in the arena
+  current_streak: number | null;
+  longest_streak: number | null;
+  last_streak_bonus_date: string | null;
+  sound_enabled: boolean | null;
+}
+
+export type ProfileUpdate = TablesUpdate<"profiles">;
+
+export const profileKeys = {
+  all: ["profile"] as const,
+  detail: (userId: string) => ["profile", userId] as const,
+};
+
+async function fetchProfile(userId: string): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Profile | null;
+}
+
+export function useProfile(userId: string | undefined) {
+  return useQuery({
+    queryKey: profileKeys.detail(userId ?? ""),
+    queryFn: () => fetchProfile(userId!),
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Keep the cached profile in step with server-side scoring and other tabs
+ */
+export function useProfileRealtime(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel('profile-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'profiles',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          queryClient.setQueryData<Profile | null>(profileKeys.detail(userId), (old) =>
+            old ? { ...old, ...(payload.new as Profile) } : (payload.new as Profile)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient]);
+}
+
+export function useUpdateProfile(userId: string | undefined) {
+  const queryClient = useQueryClient();
+  const key = profileKeys.detail(userId ?? "");
+
+  return useMutation({
+    mutationFn: async (changes: ProfileUpdate) => {
+      const { error } = await supabase.from("profiles").update(changes).eq("user_id", userId!);
+      if (error) throw error;
+    },
+    onMutate: async (changes) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Profile | null>(key);
+
+      queryClient.setQueryData<Profile | null>(key, (old) => (old ? { ...old, ...(changes as Partial<Profile>) } : old));
+      return { previous };
+    },
+    onError: (_error, _changes, context) => {
+      queryClient.setQueryData(key, context?.previous);
+    },
+  });
+}
@@ -0,0 +1,111 @@
+/**
+ * useReminders - Local notifications about pending goals
+ * A daily reminder fires at notification_time, and a warning escalates when the
+ * arena intensity climbs to high and then critical before end of day
+ * Timers run in the page, so reminders need the app open (a background tab or the installed app);
+ * there is deliberately no push delivery, which would need a push service and a server-side sender,
+ * and Settings says so next to the reminder time
+ */
+
+import { useEffect, useRef } from "react";
+import { IntensityLevel } from "./useGameLoop";
+import { OfflineGoal } from "@/lib/offline";
+import { LocalNotification, showLocalNotification } from "@/lib/notifications";
+import { getNextDayEnd, getNextLocalTime } from "@/engine/game";
+
+interface UseRemindersProps {
+  enabled: boolean;
+  goals: Pick<OfflineGoal, "title" | "status">[];
+  notificationTime: string;
+  dayEndTime: string;
+  timezone: string;
+  intensity: IntensityLevel;
+}
+
+// Matches the profiles.notification_time column default
+export const DEFAULT_NOTIFICATION_TIME = "19:00";
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+const MAX_LISTED_GOALS = 5;
+const ESCALATION_KEY = "goalgame-intensity-warning";
+
+// Only these levels notify; a level is announced at most once per round
+const ESCALATION_RANK: Partial<Record<IntensityLevel, number>> = { high: 1, critical: 2 };
+
+function formatRemaining(ms: number): string {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function buildReminder(pending: string[]): LocalNotification {
+  const listed = pending.slice(0, MAX_LISTED_GOALS).map((title) => `• ${title}`);
+  if (pending.length > MAX_LISTED_GOALS) listed.push(`…and ${pending.length - MAX_LISTED_GOALS} more`);
+
+  return {
+    title: `${pending.length} goal${pending.length === 1 ? "" : "s"} still pending`,
+    body: listed.join("\n"),
+    tag: "daily-reminder",
+  };
+}
+
+function buildWarning(level: IntensityLevel, pending: string[], remaining: string): LocalNotification {
+  const goalCount = `${pending.length} goal${pending.length === 1 ? "" : "s"}`;
+
+  return level === "critical"
+    ? {
+        title: "Final stretch!",
+        body: `Only ${remaining} left and ${goalCount} to go. Finish "${pending[0]}" before the AI takes the day.`,
+        tag: "intensity-warning",
+      }
+    : {
+        title: "The AI is closing in",
+        body: `${goalCount} pending with ${remaining} until end of day.`,
+        tag: "intensity-warning",
+      };
+}
+
+export function useReminders({ enabled, goals, notificationTime, dayEndTime, timezone, intensity }: UseRemindersProps) {
+  // Read at fire time so a changing goal list does not reset the timer
+  const pendingRef = useRef<string[]>([]);
+  pendingRef.current = goals.filter((goal) => goal.status === "active").map((goal) => goal.title);
+
+  // Daily reminder at notification_time in the user's timezone
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Polled rather than one long timeout, which a sleeping device would push back
+    let nextAt = getNextLocalTime(new Date(), timezone, notificationTime);
+
+    const check = () => {
+      const now = new Date();
+      if (now < nextAt) return;
+
+      nextAt = getNextLocalTime(now, timezone, notificationTime);
+      if (pendingRef.current.length > 0) {
+        showLocalNotification(buildReminder(pendingRef.current));
+      }
+    };
+
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [enabled, notificationTime, timezone]);
+
+  // Escalating warning as the arena heats up
+  useEffect(() => {
+    const rank = ESCALATION_RANK[intensity];
+    if (!enabled || !rank || pendingRef.current.length === 0) return;
+
+    const now = new Date();
+    const dayEnd = getNextDayEnd(now, timezone, dayEndTime);
+
+    // Keyed by the round's end so reloads and other tabs do not repeat a warning
+    const [lastRound, lastRank] = (localStorage.getItem(ESCALATION_KEY) ?? "").split("|");
+    if (lastRound === dayEnd.toISOString() && Number(lastRank) >= rank) return;
+
+    localStorage.setItem(ESCALATION_KEY, `${dayEnd.toISOString()}|${rank}`);
+    showLocalNotification(
+      buildWarning(intensity, pendingRef.current, formatRemaining(dayEnd.getTime() - now.getTime()))
+    );
+  }, [enabled, intensity, dayEndTime, timezone]);
+}
@@ -0,0 +1,57 @@
+/**
+ * useRounds - Settled daily rounds, for a date range or the whole history
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { DailyRound } from "@/config/game";
+import { fetchPaged } from "@/lib/transfer";
+
+export const roundKeys = {
+  all: ["rounds"] as const,
+  range: (userId: string, from: string, to: string) => ["rounds", userId, from, to] as const,
+  history: (userId: string) => ["rounds", userId, "history"] as const,
+};
+
+async function fetchRounds(userId: string, from: string, to: string): Promise<DailyRound[]> {
+  const { data, error } = await supabase
+    .from("daily_rounds")
+    .select("*")
+    .eq("user_id", userId)
+    .gte("round_date", from)
+    .lte("round_date", to)
+    .order("round_date", { ascending: true });
+
+  if (error) throw error;
+  return data as DailyRound[];
+}
+
+export function useRounds(userId: string | undefined, from: string, to: string) {
+  return useQuery({
+    queryKey: roundKeys.range(userId ?? "", from, to),
+    queryFn: () => fetchRounds(userId!, from, to),
+    enabled: !!userId,
+  });
+}
+
+// Only what achievements need from every round ever played
+// Paged, as a long-time player has more rounds than one response returns
+async function fetchRoundHistory(userId: string): Promise<Pick<DailyRound, "round_date" | "winner">[]> {
+  const rounds = await fetchPaged((from, to) =>
+    supabase
+      .from("daily_rounds")
+      .select("round_date, winner")
+      .eq("user_id", userId)
+      .order("round_date", { ascending: true })
+      .range(from, to)
+  );
+  return rounds as Pick<DailyRound, "round_date" | "winner">[];
+}
+
+export function useRoundHistory(userId: string | undefined) {
+  return useQuery({
+    queryKey: roundKeys.history(userId ?? ""),
+    queryFn: () => fetchRoundHistory(userId!),
+    enabled: !!userId,
+  });
+}
@@ -17,7 +17,8 @@ type SoundType =
   | "streak"
   | "streakLost"
   | "footsteps"
-  | "dodge";
+  | "dodge"
+  | "achievement";
 
 interface SoundConfig {
   frequency: number;
@@ -108,6 +109,12 @@ const SOUND_CONFIGS: Record<SoundType, SoundConfig | SoundConfig[]> = {
     volume: 0.2,
     frequencyEnd: 1200,
   },
+  achievement: [
+    { frequency: 783.99, duration: 0.1, type: "triangle", volume: 0.35 },
+    { frequency: 987.77, duration: 0.1, type: "triangle", volume: 0.35 },
+    { frequency: 1174.66, duration: 0.1, type: "triangle", volume: 0.4 },
+    { frequency: 1567.98, duration: 0.35, type: "sine", volume: 0.45 },
+  ],
 };
 
 export function useSoundEffects(enabled: boolean = true) {
@@ -14,10 +14,245 @@ export type Database = {
   }
   public: {
     Tables: {
+      cosmetic_inventory: {
+        Row: {
+          equipped: boolean
+          item_id: string
+          price_paid: number
+          purchased_at: string
+          slot: string
+          user_id: string
+        }
+        Insert: {
+          equipped?: boolean
+          item_id: string
+          price_paid: number
+          purchased_at?: string
+          slot: string
+          user_id: string
+        }
+        Update: {
+          equipped?: boolean
+          item_id?: string
+          price_paid?: number
+          purchased_at?: string
+          slot?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      daily_rounds: {
+        Row: {
+          ai_opponent: string
+          ai_points: number
+          difficulty: string
+          id: string
+          passive_ai_points: number
+          points_to_win: number
+          round_date: string
+          settled_at: string
+          user_id: string
+          user_points: number
+          winner: string
+        }
+        Insert: {
+          ai_opponent: string
+          ai_points?: number
+          difficulty: string
+          id?: string
+          passive_ai_points?: number
+          points_to_win: number
+          round_date: string
+          settled_at?: string
+          user_id: string
+          user_points?: number
+          winner: string
+        }
+        Update: {
+          ai_opponent?: string
+          ai_points?: number
+          difficulty?: string
+          id?: string
+          passive_ai_points?: number
+          points_to_win?: number
+          round_date?: string
+          settled_at?: string
+          user_id?: string
+          user_points?: number
+          winner?: string
+        }
+        Relationships: []
+      }
+      friendships: {
+        Row: {
+          accepted_at: string | null
+          addressee_id: string
+          created_at: string
+          id: string
+          requester_id: string
+          status: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          addressee_id: string
+          created_at?: string
+          id?: string
+          requester_id: string
+          status?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          addressee_id?: string
+          created_at?: string
+          id?: string
+          requester_id?: string
+          status?: string
+        }
+        Relationships: []
+      }
+      goal_categories: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          color: string
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      goal_checklist_items: {
+        Row: {
+          completed: boolean
+          completed_at: string | null
+          created_at: string
+          credited: boolean
+          goal_id: string
+          id: string
+          position: number
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          completed_at?: string | null
+          created_at?: string
+          credited?: boolean
+          goal_id: string
+          id?: string
+          position?: number
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed?: boolean
+          completed_at?: string | null
+          created_at?: string
+          credited?: boolean
+          goal_id?: string
+          id?: string
+          position?: number
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_checklist_items_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goal_series: {
+        Row: {
+          active: boolean
+          by_month_day: number | null
+          by_weekday: number[] | null
+          category_id: string | null
+          created_at: string
+          description: string | null
+          due_time: string | null
+          frequency: string
+          id: string
+          interval_days: number | null
+          last_materialized_date: string | null
+          start_date: string
+          tags: string[]
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          by_month_day?: number | null
+          by_weekday?: number[] | null
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          due_time?: string | null
+          frequency: string
+          id?: string
+          interval_days?: number | null
+          last_materialized_date?: string | null
+          start_date?: string
+          tags?: string[]
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          active?: boolean
+          by_month_day?: number | null
+          by_weekday?: number[] | null
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          due_time?: string | null
+          frequency?: string
+          id?: string
+          interval_days?: number | null
+          last_materialized_date?: string | null
+          start_date?: string
+          tags?: string[]
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_series_category_id_fkey"
+            columns: ["category_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "goal_categories"
+            referencedColumns: ["id", "user_id"]
+          },
+        ]
+      }
       goals: {
         Row: {
           ai_points_earned: number | null
-          completed: boolean | null
+          category_id: string | null
           completed_at: string | null
           created_at: string
           description: string | null
@@ -25,14 +260,18 @@ export type Database = {
           due_time: string | null
           goal_type: string
           id: string
+          occurrence_date: string | null
           points_earned: number | null
+          series_id: string | null
+          status: string
+          tags: string[]
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
           ai_points_earned?: number | null
-          completed?: boolean | null
+          category_id?: string | null
           completed_at?: string | null
           created_at?: string
           description?: string | null
@@ -40,14 +279,18 @@ export type Database = {
           due_time?: string | null
           goal_type: string
           id?: string
+          occurrence_date?: string | null
           points_earned?: number | null
+          series_id?: string | null
+          status?: string
+          tags?: string[]
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
           ai_points_earned?: number | null
-          completed?: boolean | null
+          category_id?: string | null
           completed_at?: string | null
           created_at?: string
           description?: string | null
@@ -55,15 +298,100 @@ export type Database = {
           due_time?: string | null
           goal_type?: string
           id?: string
+          occurrence_date?: string | null
           points_earned?: number | null
+          series_id?: string | null
+          status?: string
+          tags?: string[]
           title?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "goals_category_id_fkey"
+            columns: ["category_id", "user_id"]
+            isOneToOne: false
+            referencedRelation: "goal_categories"
+            referencedColumns: ["id", "user_id"]
+          },
+          {
+            foreignKeyName: "goals_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "goal_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      player_stats: {
+        Row: {
+          round_points: number
+          updated_at: string
+          user_id: string
+          week_points: number
+        }
+        Insert: {
+          round_points?: number
+          updated_at?: string
+          user_id: string
+          week_points?: number
+        }
+        Update: {
+          round_points?: number
+          updated_at?: string
+          user_id?: string
+          week_points?: number
+        }
         Relationships: []
       }
+      point_events: {
+        Row: {
+          ai_points: number
+          created_at: string
+          goal_id: string | null
+          id: string
+          reason: string | null
+          rule_id: string | null
+          source: string
+          user_id: string
+          user_points: number
+        }
+        Insert: {
+          ai_points?: number
+          created_at?: string
+          goal_id?: string | null
+          id?: string
+          reason?: string | null
+          rule_id?: string | null
+          source: string
+          user_id: string
+          user_points?: number
+        }
+        Update: {
+          ai_points?: number
+          created_at?: string
+          goal_id?: string | null
+          id?: string
+          reason?: string | null
+          rule_id?: string | null
+          source?: string
+          user_id?: string
+          user_points?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "point_events_goal_id_fkey"
+            columns: ["goal_id"]
+            isOneToOne: false
+            referencedRelation: "goals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
+          ai_opponent: string
           ai_points: number | null
           avatar_type: string | null
           avatar_url: string | null
@@ -71,10 +399,16 @@ export type Database = {
           created_at: string
           current_streak: number | null
           day_end_time: string | null
+          difficulty: string
           id: string
           last_goal_date: string | null
+          last_streak_bonus_date: string | null
           longest_streak: number | null
+          next_ai_opponent: string | null
+          next_difficulty: string | null
           notification_time: string | null
+          notifications_enabled: boolean
+          rival_id: string | null
           sound_enabled: boolean | null
           timezone: string | null
           total_points: number | null
@@ -83,6 +417,7 @@ export type Database = {
           username: string | null
         }
         Insert: {
+          ai_opponent?: string
           ai_points?: number | null
           avatar_type?: string | null
           avatar_url?: string | null
@@ -90,10 +425,16 @@ export type Database = {
           created_at?: string
           current_streak?: number | null
           day_end_time?: string | null
+          difficulty?: string
           id?: string
           last_goal_date?: string | null
+          last_streak_bonus_date?: string | null
           longest_streak?: number | null
+          next_ai_opponent?: string | null
+          next_difficulty?: string | null
           notification_time?: string | null
+          notifications_enabled?: boolean
+          rival_id?: string | null
           sound_enabled?: boolean | null
           timezone?: string | null
           total_points?: number | null
@@ -102,6 +443,7 @@ export type Database = {
           username?: string | null
         }
         Update: {
+          ai_opponent?: string
           ai_points?: number | null
           avatar_type?: string | null
           avatar_url?: string | null
@@ -109,10 +451,16 @@ export type Database = {
           created_at?: string
           current_streak?: number | null
           day_end_time?: string | null
+          difficulty?: string
           id?: string
           last_goal_date?: string | null
+          last_streak_bonus_date?: string | null
           longest_streak?: number | null
+          next_ai_opponent?: string | null
+          next_difficulty?: string | null
           notification_time?: string | null
+          notifications_enabled?: boolean
+          rival_id?: string | null
           sound_enabled?: boolean | null
           timezone?: string | null
           total_points?: number | null
@@ -122,12 +470,68 @@ export type Database = {
         }
         Relationships: []
       }
+      settlement_runs: {
+        Row: {
+          ai_points: number
+          finished_at: string | null
+          id: string
+          missed_goals: number
+          settlement_date: string
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          ai_points?: number
+          finished_at?: string | null
+          id?: string
+          missed_goals?: number
+          settlement_date: string
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          ai_points?: number
+          finished_at?: string | null
+          id?: string
+          missed_goals?: number
+          settlement_date?: string
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_achievements: {
+        Row: {
+          achievement_id: string
+          unlocked_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          unlocked_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          unlocked_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_friend_request: {
+        Args: { request_id: string }
+        Returns: undefined
+      }
       check_all_overdue_goals: { Args: never; Returns: undefined }
+      check_all_overdue_goals_for: {
+        Args: { target_user_id: string }
+        Returns: Record<string, unknown>
+      }
       check_goal_deadline: {
         Args: {
           goal_created_at: string
@@ -139,6 +543,176 @@ export type Database = {
         }
         Returns: boolean
       }
+      coin_balance: { Args: never; Returns: number }
+      coin_balance_for: { Args: { target_user_id: string }; Returns: number }
+      complete_goal: {
+        Args: { completed_at?: string; goal_id: string }
+        Returns: {
+          ai_points: number
+          message: string
+          rule: string
+          streak_bonus: number
+          streak_message: string
+          user_points: number
+        }[]
+      }
+      cosmetic_item: { Args: { item_id: string }; Returns: Record<string, unknown> }
+      delete_account: { Args: never; Returns: undefined }
+      delete_account_for: {
+        Args: { target_user_id: string }
+        Returns: undefined
+      }
+      difficulty_modifiers: {
+        Args: { difficulty: string }
+        Returns: Record<string, unknown>
+      }
+      equip_cosmetic: {
+        Args: { equip: boolean; item_id: string }
+        Returns: undefined
+      }
+      friend_leaderboard: {
+        Args: never
+        Returns: {
+          avatar_type: string
+          avatar_url: string
+          background_theme: string
+          round_points: number
+          user_id: string
+          username: string
+          week_points: number
+        }[]
+      }
+      friend_list: {
+        Args: never
+        Returns: {
+          avatar_type: string
+          avatar_url: string
+          background_theme: string
+          created_at: string
+          friend_id: string
+          friendship_id: string
+          incoming: boolean
+          status: string
+          username: string
+        }[]
+      }
+      is_friend_of: { Args: { other_user_id: string }; Returns: boolean }
+      is_valid_timezone: { Args: { zone_name: string }; Returns: boolean }
+      ledger_event_time: {
+        Args: {
+          at_time: string
+          target_user_id: string
+          user_day_end_time: string
+          user_timezone: string
+        }
+        Returns: string
+      }
+      materialize_recurring_goals: { Args: never; Returns: number }
+      materialize_recurring_goals_for: {
+        Args: { target_user_id: string }
+        Returns: number
+      }
+      opponent_modifiers: {
+        Args: { opponent: string }
+        Returns: Record<string, unknown>
+      }
+      opponent_passive_points: {
+        Args: { difficulty: string; opponent: string }
+        Returns: number
+      }
+      opponent_scoring_rule: {
+        Args: { rule_id: string; target_user_id: string }
+        Returns: Record<string, unknown>
+      }
+      player_scores_for: {
+        Args: { target_user_id: string }
+        Returns: Record<string, unknown>
+      }
+      purchase_cosmetic: { Args: { item_id: string }; Returns: number }
+      reconcile_profile_points: {
+        Args: { target_user_id: string }
+        Returns: undefined
+      }
+      reschedule_goal: {
+        Args: { due_date: string; goal_id: string }
+        Returns: undefined
+      }
+      round_date_of: {
+        Args: {
+          at_time: string
+          user_day_end_time: string
+          user_timezone: string
+        }
+        Returns: string
+      }
+      round_window: {
+        Args: {
+          round_date: string
+          user_day_end_time: string
+          user_timezone: string
+        }
+        Returns: Record<string, unknown>
+      }
+      score_checklist_item: {
+        Args: {
+          completion_time: string
+          goal: Database["public"]["Tables"]["goals"]["Row"]
+          user_day_end_time: string
+          user_timezone: string
+        }
+        Returns: string
+      }
+      score_goal: {
+        Args: {
+          completion_time: string
+          goal: Database["public"]["Tables"]["goals"]["Row"]
+          user_day_end_time: string
+          user_timezone: string
+        }
+        Returns: string
+      }
+      scoring_rule: {
+        Args: { rule_id: string }
+        Returns: Record<string, unknown>
+      }
+      send_friend_request: {
+        Args: { friend_username: string }
+        Returns: string
+      }
+      series_occurs_on: {
+        Args: {
+          series: Database["public"]["Tables"]["goal_series"]["Row"]
+          target_date: string
+        }
+        Returns: boolean
+      }
+      set_checklist_item_completed: {
+        Args: { done: boolean; item_id: string }
+        Returns: {
+          ai_points: number
+          message: string
+          rule: string
+          user_points: number
+        }[]
+      }
+      settle_daily_round: {
+        Args: { target_date: string; target_user_id: string }
+        Returns: undefined
+      }
+      settle_daily_rounds: { Args: never; Returns: number }
+      settle_daily_rounds_for: {
+        Args: { target_user_id: string }
+        Returns: number
+      }
+      settle_due_users: { Args: never; Returns: number }
+      streak_bonus: { Args: { current_streak: number }; Returns: number }
+      unlock_achievements: {
+        Args: never
+        Returns: {
+          achievement_id: string
+          unlocked_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,92 @@
+/**
+ * Avatar - Cropping and resizing uploaded profile pictures in the browser
+ * Only the small square result is uploaded, never the original photo
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+export const AVATAR_BUCKET = "avatars";
+
+// One picture per user; storage policies only allow writes inside the user's own folder
+export function avatarPath(userId: string): string {
+  return `${userId}/avatar`;
+}
+
+/**
+ * What profiles.avatar_url stores: the path plus a version, as the path never changes
+ * The database only accepts this shape, so a profile can't point anywhere but its own upload
+ */
+export function versionedAvatarPath(userId: string, version: number = Date.now()): string {
+  return `${avatarPath(userId)}?v=${version}`;
+}
+
+/**
+ * Public URL of a stored avatar path; the version makes browsers and the CDN fetch a new picture
+ */
+export function avatarPublicUrl(storedPath: string): string {
+  const [path, version] = storedPath.split("?");
+  const { publicUrl } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path).data;
+  return version ? `${publicUrl}?${version}` : publicUrl;
+}
+
+export interface AvatarCrop {
+  zoom: number; // 1 fits the shorter side of the image
+  centerX: number; // crop centre, in image pixels
+  centerY: number;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export function initialCrop(width: number, height: number): AvatarCrop {
+  return { zoom: 1, centerX: width / 2, centerY: height / 2 };
+}
+
+/**
+ * The square of the image a crop covers, kept inside the image
+ */
+export function getCropRect(width: number, height: number, crop: AvatarCrop): CropRect {
+  const size = Math.min(width, height) / Math.max(crop.zoom, 1);
+  const clamp = (center: number, extent: number) => Math.min(Math.max(center - size / 2, 0), extent - size);
+
+  return { x: clamp(crop.centerX, width), y: clamp(crop.centerY, height), size };
+}
+
+/**
+ * Decode a picture from disk; its src is an object URL the caller revokes once done with it
+ */
+export function loadImageFile(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read that image"));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Draw the cropped square at the given size; WebP where the browser can encode it, PNG otherwise
+ */
+export function renderAvatar(image: HTMLImageElement, crop: AvatarCrop, size: number): Promise<Blob> {
+  const rect = getCropRect(image.naturalWidth, image.naturalHeight, crop);
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+
+  const context = canvas.getContext("2d");
+  if (!context) return Promise.reject(new Error("Canvas is not available"));
+
+  context.imageSmoothingQuality = "high";
+  context.drawImage(image, rect.x, rect.y, rect.size, rect.size, 0, 0, size, size);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image"))), "image/webp", 0.9);
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Notifications - Service worker registration and local notifications
+ * Notifications go through the service worker when one is active so they
+ * also show from the installed app
+ */
+
+export interface LocalNotification {
+  title: string;
+  body: string;
+  tag: string; // a newer notification with the same tag replaces the old one
+  url?: string; // opened when the notification is clicked
+}
+
+export function registerServiceWorker(): void {
+  // The dev server rebuilds modules on the fly; caching them would serve stale code
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
+
+export function isNotificationSupported(): boolean {
+  return "Notification" in window;
+}
+
+/**
+ * Ask for permission if the user has not decided yet; resolves to the browser's answer
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isNotificationSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export async function showLocalNotification({ title, body, tag, url = "/dashboard" }: LocalNotification): Promise<void> {
+  if (!isNotificationSupported() || Notification.permission !== "granted") return;
+
+  const options: NotificationOptions = { body, tag, icon: "/icons/icon-192.png", data: { url } };
+  const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+
+  if (registration) {
+    await registration.showNotification(title, options);
+    return;
+  }
+  new Notification(title, options);
+}
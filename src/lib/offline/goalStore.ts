@@ -0,0 +1,214 @@
+/**
+ * Goal Store - IndexedDB cache of goals plus an outbox of mutations made offline
+ * The outbox is replayed in order by syncOutbox() once connectivity returns
+ */
+
+import { ChecklistItem } from "@/components/game/GoalChecklist";
+import { GoalStatus } from "@/config/game";
+
+const DB_NAME = "goalgame-offline";
+const DB_VERSION = 1;
+const GOALS = "goals";
+const OUTBOX = "outbox";
+
+export interface OfflineGoal {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  goal_type: "daily" | "long_term";
+  due_date: string | null;
+  due_time: string | null;
+  status: GoalStatus;
+  completed_at: string | null;
+  points_earned: number;
+  ai_points_earned: number;
+  created_at: string;
+  series_id: string | null;
+  occurrence_date: string | null;
+  category_id: string | null;
+  tags: string[];
+  goal_checklist_items: ChecklistItem[];
+  pending?: boolean; // a queued mutation has not reached the server yet
+}
+
+export type NewGoal = Pick<
+  OfflineGoal,
+  | "id"
+  | "user_id"
+  | "title"
+  | "description"
+  | "goal_type"
+  | "due_date"
+  | "due_time"
+  | "category_id"
+  | "tags"
+  | "created_at"
+>;
+
+// What the create form supplies; ids and timestamps are minted by the store
+export type GoalDraft = Omit<NewGoal, "id" | "user_id" | "created_at">;
+
+export type GoalMutation =
+  | { type: "create"; goal: NewGoal }
+  | { type: "complete"; goalId: string; completedAt: string; offline?: boolean }
+  | { type: "delete"; goalId: string };
+
+export interface OutboxEntry {
+  id?: number;
+  userId: string;
+  mutation: GoalMutation;
+  queuedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(GOALS, { keyPath: "id" }).createIndex("user_id", "user_id");
+        db.createObjectStore(OUTBOX, { keyPath: "id", autoIncrement: true }).createIndex("userId", "userId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function wrap<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Last known server copy of the user's goals, newest first
+ */
+export async function getCachedGoals(userId: string): Promise<OfflineGoal[]> {
+  const db = await openDb();
+  const index = db.transaction(GOALS).objectStore(GOALS).index("user_id");
+  const goals = await wrap(index.getAll(userId) as IDBRequest<OfflineGoal[]>);
+  return goals.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+/**
+ * Replace the cached goals with a fresh server snapshot
+ */
+export async function cacheGoals(userId: string, goals: OfflineGoal[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(GOALS, "readwrite");
+  const store = tx.objectStore(GOALS);
+
+  const keys = await wrap(store.index("user_id").getAllKeys(userId));
+  keys.forEach((key) => store.delete(key));
+  goals.forEach((goal) => store.put({ ...goal, pending: false }));
+
+  return done(tx);
+}
+
+export async function enqueueMutation(userId: string, mutation: GoalMutation): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX, "readwrite");
+  tx.objectStore(OUTBOX).add({ userId, mutation, queuedAt: new Date().toISOString() } satisfies OutboxEntry);
+  return done(tx);
+}
+
+/**
+ * Pending mutations, oldest first
+ */
+export async function getOutbox(userId: string): Promise<OutboxEntry[]> {
+  const db = await openDb();
+  const index = db.transaction(OUTBOX).objectStore(OUTBOX).index("userId");
+  const entries = await wrap(index.getAll(userId) as IDBRequest<OutboxEntry[]>);
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function removeOutboxEntry(id: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(OUTBOX, "readwrite");
+  tx.objectStore(OUTBOX).delete(id);
+  return done(tx);
+}
+
+/**
+ * Forget everything stored for a user on this device, cached goals and unsynced changes alike
+ */
+export async function clearUserData(userId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([GOALS, OUTBOX], "readwrite");
+  const goals = tx.objectStore(GOALS);
+  const outbox = tx.objectStore(OUTBOX);
+
+  const [goalKeys, outboxKeys] = await Promise.all([
+    wrap(goals.index("user_id").getAllKeys(userId)),
+    wrap(outbox.index("userId").getAllKeys(userId)),
+  ]);
+  goalKeys.forEach((key) => goals.delete(key));
+  outboxKeys.forEach((key) => outbox.delete(key));
+
+  return done(tx);
+}
+
+/**
+ * Apply pending mutations on top of a server snapshot so the UI shows
+ * what the server will hold once the outbox has been replayed
+ */
+export function applyOutbox(goals: OfflineGoal[], outbox: OutboxEntry[]): OfflineGoal[] {
+  let result = [...goals];
+
+  for (const { mutation } of outbox) {
+    switch (mutation.type) {
+      case "create":
+        if (!result.some((goal) => goal.id === mutation.goal.id)) {
+          result = [
+            {
+              // Creates queued before goals had categories carry neither field
+              category_id: null,
+              tags: [],
+              ...mutation.goal,
+              status: "active",
+              completed_at: null,
+              points_earned: 0,
+              ai_points_earned: 0,
+              series_id: null,
+              occurrence_date: null,
+              goal_checklist_items: [],
+              pending: true,
+            },
+            ...result,
+          ];
+        }
+        break;
+      case "complete":
+        // A goal the server has since marked missed stays completed locally until replay decides
+        result = result.map((goal) =>
+          goal.id === mutation.goalId && goal.status !== "completed"
+            ? { ...goal, status: "completed", completed_at: mutation.completedAt, pending: true }
+            : goal
+        );
+        break;
+      case "delete":
+        result = result.filter((goal) => goal.id !== mutation.goalId);
+        break;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,26 @@
+/**
+ * Offline Index - Local goal store and outbox sync
+ */
+
+export {
+  type OfflineGoal,
+  type NewGoal,
+  type GoalDraft,
+  type GoalMutation,
+  type OutboxEntry,
+  getCachedGoals,
+  cacheGoals,
+  enqueueMutation,
+  getOutbox,
+  removeOutboxEntry,
+  clearUserData,
+  applyOutbox,
+} from "./goalStore";
+
+export {
+  type CompletionResult,
+  type SyncResult,
+  syncOutbox,
+  subscribeToSync,
+  isSameMutation,
+} from "./sync";
@@ -0,0 +1,122 @@
+/**
+ * Outbox Sync - Replays queued goal mutations against Supabase in order
+ * The server wins conflicts: a rejected mutation is dropped and reported, never retried
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { GoalMutation, OutboxEntry, getOutbox, removeOutboxEntry } from "./goalStore";
+
+export interface CompletionResult {
+  rule: string;
+  user_points: number;
+  ai_points: number;
+  message: string;
+  streak_bonus: number;
+  streak_message: string;
+}
+
+export type SyncResult =
+  | { outcome: "applied"; mutation: GoalMutation; completion?: CompletionResult }
+  | { outcome: "conflict"; mutation: GoalMutation; reason: string };
+
+interface PostgrestLikeError {
+  code?: string;
+  message: string;
+}
+
+// Errors the server raised on purpose; anything else (network, 5xx) is worth retrying
+const REJECTION_CODES = new Set([
+  "P0001", // goal already completed or missed
+  "P0002", // goal not found
+  "23505", // create already applied
+  "42501", // row level security
+]);
+
+function isRejection(error: PostgrestLikeError): boolean {
+  return !!error.code && REJECTION_CODES.has(error.code);
+}
+
+async function applyMutation(
+  mutation: GoalMutation
+): Promise<{ error: PostgrestLikeError | null; completion?: CompletionResult }> {
+  switch (mutation.type) {
+    case "create": {
+      const { error } = await supabase.from("goals").insert(mutation.goal);
+      return { error };
+    }
+    case "complete": {
+      // The server only honours the device's time for a completion made offline, and only if it is recent
+      const completedAt = mutation.offline ? mutation.completedAt : undefined;
+      const { data, error } = await supabase
+        .rpc("complete_goal", { goal_id: mutation.goalId, completed_at: completedAt })
+        .single();
+      return { error, completion: data ?? undefined };
+    }
+    case "delete": {
+      const { error } = await supabase.from("goals").delete().eq("id", mutation.goalId);
+      return { error };
+    }
+  }
+}
+
+let syncing: Promise<SyncResult[]> | null = null;
+const listeners = new Set<(result: SyncResult) => void>();
+
+/**
+ * Hear about every replayed mutation, whichever caller triggered the sync
+ */
+export function subscribeToSync(listener: (result: SyncResult) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Whether two mutations are the same queued change (outbox entries are structured clones)
+ */
+export function isSameMutation(a: GoalMutation, b: GoalMutation): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+async function replay(userId: string): Promise<SyncResult[]> {
+  const results: SyncResult[] = [];
+  const outbox: OutboxEntry[] = await getOutbox(userId);
+
+  for (const entry of outbox) {
+    let response: Awaited<ReturnType<typeof applyMutation>>;
+    try {
+      response = await applyMutation(entry.mutation);
+    } catch {
+      break; // still offline; keep this entry and everything after it
+    }
+
+    const { error, completion } = response;
+
+    if (error && !isRejection(error)) break;
+
+    await removeOutboxEntry(entry.id!);
+
+    // A duplicate create means an earlier replay reached the server before the tab closed
+    if (error && !(entry.mutation.type === "create" && error.code === "23505")) {
+      results.push({ outcome: "conflict", mutation: entry.mutation, reason: error.message });
+    } else {
+      results.push({ outcome: "applied", mutation: entry.mutation, completion });
+    }
+  }
+
+  results.forEach((result) => listeners.forEach((listener) => listener(result)));
+  return results;
+}
+
+/**
+ * Replay the user's outbox; concurrent callers share a single run
+ */
+export function syncOutbox(userId: string): Promise<SyncResult[]> {
+  if (!syncing) {
+    syncing = replay(userId).finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
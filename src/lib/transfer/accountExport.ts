@@ -0,0 +1,72 @@
+/**
+ * Account Export - Everything stored about a user, as one JSON archive
+ * Internal bookkeeping (settlement runs, shared live scores) is left out; it holds nothing the user entered or earned
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { GoalExport, downloadFile, fetchGoalExport, fetchPaged } from "./goalExport";
+
+export interface AccountArchive extends GoalExport {
+  account: { id: string; email: string | null; created_at: string };
+  profile: Tables<"profiles"> | null;
+  goal_series: Tables<"goal_series">[];
+  daily_rounds: Tables<"daily_rounds">[];
+  cosmetic_inventory: Tables<"cosmetic_inventory">[];
+  user_achievements: Tables<"user_achievements">[];
+  friendships: Tables<"friendships">[]; // sent and received
+}
+
+export async function fetchAccountArchive(user: { id: string; email?: string; created_at: string }): Promise<AccountArchive> {
+  const [goalExport, profile, goalSeries, dailyRounds, cosmeticInventory, achievements, friendships] = await Promise.all([
+    fetchGoalExport(user.id),
+    supabase
+      .from("profiles")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) throw error;
+        return data;
+      }),
+    fetchPaged<Tables<"goal_series">>((from, to) =>
+      supabase.from("goal_series").select("*").eq("user_id", user.id).order("created_at").range(from, to)
+    ),
+    fetchPaged<Tables<"daily_rounds">>((from, to) =>
+      supabase.from("daily_rounds").select("*").eq("user_id", user.id).order("round_date").range(from, to)
+    ),
+    fetchPaged<Tables<"cosmetic_inventory">>((from, to) =>
+      supabase.from("cosmetic_inventory").select("*").eq("user_id", user.id).order("purchased_at").range(from, to)
+    ),
+    fetchPaged<Tables<"user_achievements">>((from, to) =>
+      supabase.from("user_achievements").select("*").eq("user_id", user.id).order("unlocked_at").range(from, to)
+    ),
+    fetchPaged<Tables<"friendships">>((from, to) =>
+      supabase
+        .from("friendships")
+        .select("*")
+        .or(`requester_id.eq.${user.id},addressee_id.eq.${user.id}`)
+        .order("created_at")
+        .range(from, to)
+    ),
+  ]);
+
+  return {
+    ...goalExport,
+    account: { id: user.id, email: user.email ?? null, created_at: user.created_at },
+    profile,
+    goal_series: goalSeries,
+    daily_rounds: dailyRounds,
+    cosmetic_inventory: cosmeticInventory,
+    user_achievements: achievements,
+    friendships,
+  };
+}
+
+export function downloadAccountArchive(archive: AccountArchive): void {
+  downloadFile(
+    `goalgame-account-${archive.exported_at.slice(0, 10)}.json`,
+    JSON.stringify(archive, null, 2),
+    "application/json"
+  );
+}
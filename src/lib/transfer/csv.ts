@@ -0,0 +1,90 @@
+/**
+ * CSV - RFC 4180 reading and writing
+ * Fields are quoted only when they contain a comma, quote or line break
+ * Text that a spreadsheet would run as a formula is written with a leading apostrophe
+ */
+
+export type CsvRow = Record<string, string>;
+
+export interface CsvTable {
+  headers: string[];
+  rows: CsvRow[];
+}
+
+// Leading characters that make Excel, Sheets and LibreOffice treat a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const raw = String(value);
+  // Numbers such as -5 are data, not formulas
+  const text = typeof value !== "number" && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T extends object>(headers: (keyof T & string)[], records: T[]): string {
+  const lines = [headers.join(","), ...records.map((record) => headers.map((header) => escapeField(record[header])).join(","))];
+  return lines.join("\r\n") + "\r\n";
+}
+
+function parseRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  return records.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parse CSV text whose first record is the header row
+ */
+export function parseCsv(text: string): CsvTable {
+  const [headerRecord = [], ...records] = parseRecords(text.replace(/^\uFEFF/, ""));
+  const headers = headerRecord.map((header) => header.trim());
+
+  // Undo escapeField()'s apostrophe so the app's own exports import unchanged
+  const unguard = (value: string) => (value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value);
+
+  return {
+    headers,
+    rows: records.map((record) => Object.fromEntries(headers.map((header, i) => [header, unguard(record[i] ?? "")]))),
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Goal Export - Goals and point history as JSON, CSV or an iCalendar feed
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { PostgrestError } from "@supabase/supabase-js";
+import { Tables } from "@/integrations/supabase/types";
+import { toCsv } from "./csv";
+import { CalendarGoal, toIcs } from "./ical";
+
+export type ExportedGoal = Tables<"goals"> & { goal_checklist_items: Tables<"goal_checklist_items">[] };
+export type ExportedPointEvent = Tables<"point_events">;
+export type ExportedCategory = Tables<"goal_categories">;
+
+export interface GoalExport {
+  exported_at: string;
+  goal_categories: ExportedCategory[];
+  goals: ExportedGoal[];
+  point_events: ExportedPointEvent[];
+}
+
+export type ExportFormat = "json" | "csv" | "ics";
+
+// PostgREST caps each response, so long histories are read a page at a time
+const PAGE_SIZE = 1000;
+
+const GOAL_COLUMNS: (keyof Tables<"goals">)[] = [
+  "id",
+  "title",
+  "description",
+  "goal_type",
+  "status",
+  "due_date",
+  "due_time",
+  "created_at",
+  "completed_at",
+  "points_earned",
+  "ai_points_earned",
+  "series_id",
+  "occurrence_date",
+  "tags",
+];
+
+const POINT_EVENT_COLUMNS: (keyof ExportedPointEvent)[] = [
+  "id",
+  "created_at",
+  "source",
+  "rule_id",
+  "goal_id",
+  "user_points",
+  "ai_points",
+  "reason",
+];
+
+interface Page<T> {
+  data: T[] | null;
+  error: PostgrestError | null;
+}
+
+/**
+ * Read every row of a query, one page at a time
+ */
+export async function fetchPaged<T>(page: (from: number, to: number) => PromiseLike<Page<T>>): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export async function fetchGoalExport(userId: string): Promise<GoalExport> {
+  const [categories, goals, pointEvents] = await Promise.all([
+    fetchPaged<ExportedCategory>((from, to) =>
+      supabase.from("goal_categories").select("*").eq("user_id", userId).order("name").range(from, to)
+    ),
+    fetchPaged<ExportedGoal>((from, to) =>
+      supabase
+        .from("goals")
+        .select("*, goal_checklist_items(*)")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true })
+        .range(from, to)
+    ),
+    fetchPaged<ExportedPointEvent>((from, to) =>
+      supabase
+        .from("point_events")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true })
+        .range(from, to)
+    ),
+  ]);
+  return { exported_at: new Date().toISOString(), goal_categories: categories, goals, point_events: pointEvents };
+}
+
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download before the browser has read the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Save the export in the chosen format; CSV comes as two files, one per table
+ */
+export function downloadGoalExport(data: GoalExport, format: ExportFormat, timeZone: string): void {
+  const stamp = data.exported_at.slice(0, 10);
+
+  switch (format) {
+    case "json":
+      downloadFile(`goalgame-${stamp}.json`, JSON.stringify(data, null, 2), "application/json");
+      break;
+    case "csv":
+      downloadFile(`goalgame-goals-${stamp}.csv`, toCsv(GOAL_COLUMNS, data.goals), "text/csv");
+      downloadFile(`goalgame-points-${stamp}.csv`, toCsv(POINT_EVENT_COLUMNS, data.point_events), "text/csv");
+      break;
+    case "ics":
+      downloadFile(`goalgame-${stamp}.ics`, toIcs(data.goals as CalendarGoal[], timeZone), "text/calendar");
+      break;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Goal Import - Maps CSV or ICS columns onto the goals insert shape and validates each row
+ * Rows that fail validation are reported with their reasons and never inserted; rows already
+ * finished in the source (completed, missed, cancelled) are skipped rather than reopened
+ */
+
+import { z } from "zod";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { MAX_GOAL_TAGS } from "@/config/game";
+import { isGoalOverdue, normalizeTag } from "@/engine/game";
+import { CsvTable } from "./csv";
+
+export type GoalInsert = TablesInsert<"goals">;
+
+export const IMPORT_FIELDS = ["title", "description", "goal_type", "due_date", "due_time", "tags", "status"] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+// Target field -> source column; unmapped fields fall back to their defaults
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  title: "Title",
+  description: "Description",
+  goal_type: "Type",
+  due_date: "Due date",
+  due_time: "Due time",
+  tags: "Tags",
+  status: "Status",
+};
+
+export interface InvalidRow {
+  row: number; // 1-based position among the data rows
+  errors: string[];
+}
+
+export interface ImportPlan {
+  goals: GoalInsert[];
+  invalid: InvalidRow[];
+  finished: number; // rows the source marks completed or closed
+}
+
+// Deadlines in the file are checked against the user's clock so nothing imports already overdue
+export interface ImportOptions {
+  timezone: string;
+  dayEndTime: string;
+  now?: Date;
+}
+
+// Header names other tools commonly use for each field, compared after normalizeHeader()
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  title: ["title", "name", "summary", "task", "goal"],
+  description: ["description", "notes", "details", "body"],
+  goal_type: ["goal type", "type", "kind"],
+  due_date: ["due date", "due", "deadline", "date"],
+  due_time: ["due time", "time"],
+  tags: ["tags", "labels", "keywords", "categories"],
+  status: ["status", "state"],
+};
+
+// Statuses from this app's CSV export and from iCalendar STATUS that mean the goal is over
+const FINISHED_STATUSES = new Set(["completed", "missed", "archived", "cancelled", "canceled", "done"]);
+
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Due date must look like 2024-12-31")
+  .refine((value) => {
+    // Rolls over for days past the month's end, e.g. 2024-02-30 becomes March 1
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, "Due date is not a real date");
+
+const wallTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/, "Due time must look like 18:30");
+
+const importedGoalSchema = z
+  .object({
+    title: z.string().min(1, "Title is required").max(200, "Title must be 200 characters or fewer"),
+    description: z.string().max(2000, "Description must be 2000 characters or fewer").nullable(),
+    goal_type: z.enum(["daily", "long_term"], {
+      errorMap: () => ({ message: 'Type must be "daily" or "long_term"' }),
+    }),
+    due_date: isoDate.nullable(),
+    due_time: wallTime.nullable(),
+    tags: z.array(z.string()).max(MAX_GOAL_TAGS, `At most ${MAX_GOAL_TAGS} tags`),
+  })
+  .refine((goal) => goal.goal_type === "long_term" || goal.due_date === null, {
+    message: "Daily goals end with the day they are created and cannot have a due date",
+  });
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[_-]+/g, " ");
+}
+
+/**
+ * Pre-select a source column for every field whose header looks familiar
+ */
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+
+  IMPORT_FIELDS.forEach((field) => {
+    const match = headers.find((header) => FIELD_ALIASES[field].includes(normalizeHeader(header)));
+    if (match) mapping[field] = match;
+  });
+
+  return mapping;
+}
+
+function normalizeGoalType(value: string, dueDate: string | null): string {
+  const type = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (!type) return dueDate ? "long_term" : "daily";
+  return type === "longterm" ? "long_term" : type;
+}
+
+function readRow(row: Record<string, string>, mapping: ImportMapping) {
+  const read = (field: ImportField) => (mapping[field] ? (row[mapping[field]!] ?? "").trim() : "");
+
+  // A full timestamp in the date column also supplies the time
+  const [datePart = "", timePart = ""] = read("due_date").split(/[T ]/);
+  const dueDate = datePart || null;
+  const dueTime = read("due_time") || timePart.slice(0, 5) || null;
+
+  return {
+    finished: FINISHED_STATUSES.has(read("status").toLowerCase()),
+    title: read("title"),
+    description: read("description") || null,
+    goal_type: normalizeGoalType(read("goal_type"), dueDate),
+    due_date: dueDate,
+    due_time: dueTime,
+    // Comma or semicolon separated, in whatever case the source used
+    tags: [...new Set(read("tags").split(/[,;]/).map(normalizeTag).filter(Boolean))],
+  };
+}
+
+/**
+ * Validate every row under the mapping; valid rows become goal inserts for the user
+ */
+export function planImport(
+  table: CsvTable,
+  mapping: ImportMapping,
+  userId: string,
+  { timezone, dayEndTime, now = new Date() }: ImportOptions
+): ImportPlan {
+  const plan: ImportPlan = { goals: [], invalid: [], finished: 0 };
+
+  table.rows.forEach((row, index) => {
+    const { finished, ...goal } = readRow(row, mapping);
+    if (finished) {
+      plan.finished++;
+      return;
+    }
+
+    const result = importedGoalSchema.safeParse(goal);
+
+    if (!result.success) {
+      plan.invalid.push({ row: index + 1, errors: result.error.errors.map((error) => error.message) });
+      return;
+    }
+
+    const { title, description, goal_type, due_date, due_time, tags } = result.data;
+
+    // Settlement would mark it missed on its next run
+    if (isGoalOverdue({ goal_type, due_date, due_time, created_at: now.toISOString() }, now, timezone, dayEndTime)) {
+      plan.invalid.push({ row: index + 1, errors: ["Due date has already passed"] });
+      return;
+    }
+
+    plan.goals.push({ title, description, goal_type, due_date, due_time, tags, user_id: userId });
+  });
+
+  return plan;
+}
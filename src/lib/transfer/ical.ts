@@ -0,0 +1,196 @@
+/**
+ * iCalendar - RFC 5545 feed of long-term goals and a reader for VTODO/VEVENT files
+ * Due times are written in UTC so the feed needs no VTIMEZONE blocks
+ */
+
+import { getZonedDate, getZonedTime, zonedTimeToUtc } from "@/engine/game";
+import { CsvTable } from "./csv";
+
+export interface CalendarGoal {
+  id: string;
+  title: string;
+  description: string | null;
+  goal_type: "daily" | "long_term";
+  due_date: string | null;
+  due_time: string | null;
+  status: string;
+  completed_at: string | null;
+  tags?: string[];
+}
+
+// Columns of the table parseIcs() produces, offered to the import mapping like CSV headers
+export const ICS_COLUMNS = ["SUMMARY", "DESCRIPTION", "DUE_DATE", "DUE_TIME", "STATUS", "CATEGORIES"] as const;
+
+const TODO_STATUS: Record<string, string> = {
+  active: "NEEDS-ACTION",
+  completed: "COMPLETED",
+  missed: "CANCELLED",
+  archived: "CANCELLED",
+};
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let chunk = "";
+
+  for (const char of line) {
+    if (encoder.encode(chunk + char).length > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  chunks.push(chunk);
+
+  return chunks.join("\r\n ");
+}
+
+function formatUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatDueProperty(name: string, goal: CalendarGoal, timeZone: string): string {
+  if (!goal.due_time) return `${name};VALUE=DATE:${goal.due_date!.replace(/-/g, "")}`;
+  return `${name}:${formatUtc(zonedTimeToUtc(goal.due_date!, goal.due_time, timeZone))}`;
+}
+
+/**
+ * A VTODO per long-term goal, plus a VEVENT on its due date for calendars that ignore tasks
+ */
+export function toIcs(goals: CalendarGoal[], timeZone: string, now: Date = new Date()): string {
+  const stamp = formatUtc(now);
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//GoalGame//Goals//EN", "CALSCALE:GREGORIAN"];
+
+  goals
+    .filter((goal) => goal.goal_type === "long_term")
+    .forEach((goal) => {
+      const details = [`SUMMARY:${escapeText(goal.title)}`];
+      if (goal.description) details.push(`DESCRIPTION:${escapeText(goal.description)}`);
+      if (goal.tags?.length) details.push(`CATEGORIES:${goal.tags.map(escapeText).join(",")}`);
+
+      lines.push("BEGIN:VTODO", `UID:${goal.id}@goalgame`, `DTSTAMP:${stamp}`, ...details);
+      lines.push(`STATUS:${TODO_STATUS[goal.status] ?? "NEEDS-ACTION"}`);
+      if (goal.due_date) lines.push(formatDueProperty("DUE", goal, timeZone));
+      if (goal.completed_at) lines.push(`COMPLETED:${formatUtc(new Date(goal.completed_at))}`);
+      lines.push("END:VTODO");
+
+      if (goal.due_date) {
+        // RELATED-TO lets parseIcs() skip the event when the task is in the same file
+        lines.push("BEGIN:VEVENT", `UID:${goal.id}-due@goalgame`, `RELATED-TO:${goal.id}@goalgame`, `DTSTAMP:${stamp}`, ...details);
+        lines.push(formatDueProperty("DTSTART", goal, timeZone), "TRANSP:TRANSPARENT", "END:VEVENT");
+      }
+    });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts after the first colon outside a quoted parameter
+  let colon = -1;
+  let quoted = false;
+  for (let i = 0; i < line.length && colon < 0; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) colon = i;
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(";");
+  const params = Object.fromEntries(
+    paramParts.map((part) => {
+      const [key, value = ""] = part.split("=");
+      return [key.toUpperCase(), value.replace(/^"|"$/g, "")];
+    })
+  );
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Due date and time in the user's timezone from a DATE or DATE-TIME value
+ */
+function parseDue({ params, value }: ContentLine, timeZone: string): { date: string; time: string } {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return { date: value, time: "" }; // left for validation to reject
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (!hours) return { date, time: "" };
+
+  const wallTime = `${hours}:${minutes}:${seconds}`;
+  // Floating times have no zone and are read as the user's own wall clock
+  const sourceZone = utc ? "UTC" : params.TZID;
+  if (!sourceZone) return { date, time: wallTime.slice(0, 5) };
+
+  let instant: Date;
+  try {
+    instant = zonedTimeToUtc(date, wallTime, sourceZone);
+  } catch {
+    // Unknown TZID (e.g. a Windows zone name); keep the wall clock as written
+    return { date, time: wallTime.slice(0, 5) };
+  }
+  return { date: getZonedDate(instant, timeZone), time: getZonedTime(instant, timeZone) };
+}
+
+/**
+ * Read VTODO and VEVENT components into rows keyed by ICS_COLUMNS
+ */
+export function parseIcs(text: string, timeZone: string): CsvTable {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const components: { type: string; uid: string; relatedTo: string; row: Record<string, string> }[] = [];
+  let current: (typeof components)[number] | null = null;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN" && (line.value === "VTODO" || line.value === "VEVENT")) {
+      const row = Object.fromEntries(ICS_COLUMNS.map((column) => [column, ""]));
+      current = { type: line.value, uid: "", relatedTo: "", row };
+    } else if (line.name === "END" && (line.value === "VTODO" || line.value === "VEVENT")) {
+      if (current) components.push(current);
+      current = null;
+    } else if (current) {
+      const { row } = current;
+      if (line.name === "UID") current.uid = line.value;
+      if (line.name === "RELATED-TO") current.relatedTo = line.value;
+      if (line.name === "SUMMARY") row.SUMMARY = unescapeText(line.value);
+      if (line.name === "DESCRIPTION") row.DESCRIPTION = unescapeText(line.value);
+      if (line.name === "STATUS") row.STATUS = line.value;
+      // Some clients only stamp the completion time; either way the task is done
+      if (line.name === "COMPLETED" && !row.STATUS) row.STATUS = "COMPLETED";
+      // Comma-separated and repeatable; goalImport splits the joined list back into tags
+      if (line.name === "CATEGORIES") row.CATEGORIES = [row.CATEGORIES, unescapeText(line.value)].filter(Boolean).join(",");
+
+      // A task's DUE wins over an event's start
+      if (line.name === "DUE" || (line.name === "DTSTART" && !row.DUE_DATE)) {
+        const { date, time } = parseDue(line, timeZone);
+        row.DUE_DATE = date;
+        row.DUE_TIME = time;
+      }
+    }
+  }
+
+  // An event that only mirrors a task in this file would import the same goal twice
+  const todoUids = new Set(components.filter((c) => c.type === "VTODO").map((c) => c.uid));
+  const rows = components
+    .filter((c) => !(c.type === "VEVENT" && c.relatedTo && todoUids.has(c.relatedTo)))
+    .map((c) => c.row);
+
+  return { headers: [...ICS_COLUMNS], rows };
+}
@@ -0,0 +1,48 @@
+/**
+ * Transfer Index - Moving goals in and out as JSON, CSV and iCalendar
+ */
+
+export {
+  type CsvRow,
+  type CsvTable,
+  toCsv,
+  parseCsv,
+} from "./csv";
+
+export {
+  type CalendarGoal,
+  ICS_COLUMNS,
+  toIcs,
+  parseIcs,
+} from "./ical";
+
+export {
+  type GoalInsert,
+  type ImportField,
+  type ImportMapping,
+  type InvalidRow,
+  type ImportPlan,
+  type ImportOptions,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  guessMapping,
+  planImport,
+} from "./goalImport";
+
+export {
+  type ExportedGoal,
+  type ExportedPointEvent,
+  type ExportedCategory,
+  type GoalExport,
+  type ExportFormat,
+  fetchGoalExport,
+  fetchPaged,
+  downloadFile,
+  downloadGoalExport,
+} from "./goalExport";
+
+export {
+  type AccountArchive,
+  fetchAccountArchive,
+  downloadAccountArchive,
+} from "./accountExport";
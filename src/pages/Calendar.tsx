@@ -0,0 +1,160 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { useGoals, useRescheduleGoal } from "@/hooks/useGoals";
+import { useProfile } from "@/hooks/useProfile";
+import { useRounds } from "@/hooks/useRounds";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GoalCalendar } from "@/components/game/GoalCalendar";
+import { RescheduleGoalDialog } from "@/components/game/RescheduleGoalDialog";
+import { ArrowLeft, ChevronLeft, ChevronRight } from "lucide-react";
+import { RoundWinner } from "@/config/game";
+import { OfflineGoal } from "@/lib/offline";
+import {
+  CalendarView,
+  DEFAULT_DAY_END_TIME,
+  getCalendarDays,
+  getLocalTimezone,
+  getZonedDate,
+  shiftCalendar,
+} from "@/engine/game";
+
+export default function Calendar() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: profile, isLoading: profileLoading } = useProfile(user?.id);
+  const { data: goals = [], isLoading: goalsLoading } = useGoals(user?.id);
+  const rescheduleGoal = useRescheduleGoal(user?.id);
+
+  const timezone = profile?.timezone || getLocalTimezone();
+  const dayEndTime = profile?.day_end_time || DEFAULT_DAY_END_TIME;
+  const today = getZonedDate(new Date(), timezone);
+
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(today);
+  const [moving, setMoving] = useState<{ goal: OfflineGoal; dueDate: string } | null>(null);
+
+  const days = useMemo(() => getCalendarDays(view, anchor), [view, anchor]);
+  const { data: rounds = [] } = useRounds(user?.id, days[0], days[days.length - 1]);
+  const roundWinners = useMemo(
+    () => new Map<string, RoundWinner>(rounds.map((round) => [round.round_date, round.winner])),
+    [rounds]
+  );
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const handleConfirmMove = async () => {
+    if (!moving) return;
+    const { goal, dueDate } = moving;
+    setMoving(null);
+
+    try {
+      await rescheduleGoal.mutateAsync({ goalId: goal.id, dueDate });
+    } catch (error) {
+      // The server explains a refusal, such as a deadline that has already passed
+      const { code, message } = error as { code?: string; message?: string };
+      toast({
+        title: "Error",
+        description: code === "P0001" && message ? message : "Failed to reschedule goal",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Goal Rescheduled", description: `"${goal.title}" is now due ${format(parseISO(dueDate), "EEE, MMM d")}` });
+  };
+
+  if (authLoading || profileLoading || goalsLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const title =
+    view === "month"
+      ? format(parseISO(anchor), "MMMM yyyy")
+      : `${format(parseISO(days[0]), "MMM d")} – ${format(parseISO(days[days.length - 1]), "MMM d, yyyy")}`;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-40 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="font-display font-bold text-lg">Calendar</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-4 max-w-4xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => setAnchor(shiftCalendar(view, anchor, -1))} aria-label="Previous">
+              <ChevronLeft className="w-5 h-5" />
+            </Button>
+            <h2 className="font-display font-bold min-w-40 text-center">{title}</h2>
+            <Button variant="ghost" size="icon" onClick={() => setAnchor(shiftCalendar(view, anchor, 1))} aria-label="Next">
+              <ChevronRight className="w-5 h-5" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setAnchor(today)}>
+              Today
+            </Button>
+          </div>
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="month">Month</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <Card className="bg-card/80">
+          <CardContent className="p-2 sm:p-4">
+            <GoalCalendar
+              view={view}
+              days={days}
+              month={anchor.slice(0, 7)}
+              today={today}
+              goals={goals}
+              roundWinners={roundWinners}
+              timezone={timezone}
+              dayEndTime={dayEndTime}
+              onReschedule={(goal, dueDate) => setMoving({ goal, dueDate })}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Legend */}
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-primary/40" /> Round won</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-destructive/40" /> Round lost</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-accent/40" /> Draw</span>
+          <span>Drag a long-term goal to another day to reschedule it</span>
+        </div>
+      </main>
+
+      <RescheduleGoalDialog
+        goal={moving?.goal ?? null}
+        dueDate={moving?.dueDate ?? null}
+        onConfirm={handleConfirmMove}
+        onCancel={() => setMoving(null)}
+        timezone={timezone}
+        dayEndTime={dayEndTime}
+        opponent={profile?.ai_opponent || undefined}
+        difficulty={profile?.difficulty || undefined}
+      />
+    </div>
+  );
+}
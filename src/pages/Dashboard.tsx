@@ -4,88 +4,148 @@ import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useGoals, useGoalSync, useGoalsRealtime, useCreateGoal, useCompleteGoal, useDeleteGoal, isSyncConflict } from "@/hooks/useGoals";
+import { useProfile, useProfileRealtime } from "@/hooks/useProfile";
+import { useCategories } from "@/hooks/useCategories";
+import { useEquippedCosmetics } from "@/hooks/useCosmetics";
+import { useAchievementUnlocks } from "@/hooks/useAchievements";
+import { useRival } from "@/hooks/useFriends";
+import { useReminders, DEFAULT_NOTIFICATION_TIME } from "@/hooks/useReminders";
+import { IntensityLevel } from "@/hooks/useGameLoop";
+import { OfflineGoal, SyncResult } from "@/lib/offline";
 import { GoalList } from "@/components/game/GoalList";
 import { CreateGoalDialog } from "@/components/game/CreateGoalDialog";
 import { EditGoalDialog } from "@/components/game/EditGoalDialog";
 import { VictoryAnimation } from "@/components/game/VictoryAnimation";
 import { GameArena } from "@/components/game/GameArena";
+import { toArenaRival } from "@/components/game/arenaRival";
+import { PlayerAvatar } from "@/components/game/PlayerAvatar";
 import { StreakBadge } from "@/components/game/StreakBadge";
-import { ThemeType, AvatarType, DEFAULT_THEME, DEFAULT_AVATAR } from "@/config/game";
-import { LogOut, Plus, Settings } from "lucide-react";
-
-interface Goal {
-  id: string;
-  title: string;
-  description: string | null;
-  goal_type: "daily" | "long_term";
-  due_date: string | null;
-  due_time: string | null;
-  completed: boolean;
-  completed_at: string | null;
-  points_earned: number;
-  ai_points_earned: number;
-  created_at: string;
-}
-
-interface Profile {
-  id: string;
-  username: string | null;
-  avatar_url: string | null;
-  avatar_type: AvatarType | null;
-  background_theme: ThemeType | null;
-  total_points: number;
-  ai_points: number;
-  day_end_time: string | null;
-  current_streak: number | null;
-  longest_streak: number | null;
-  sound_enabled: boolean | null;
-}
+import { ScoreHistory } from "@/components/game/ScoreHistory";
+import { ChecklistItem } from "@/components/game/GoalChecklist";
+import { ThemeType, AvatarType, PointEvent, DEFAULT_AVATAR } from "@/config/game";
+import { DEFAULT_THEME } from "@/themes";
+import {
+  getLocalTimezone,
+  getZonedDate,
+  zonedTimeToUtc,
+  getRoundWindow,
+  getRoundDate,
+  getGoalTags,
+  DEFAULT_DAY_END_TIME,
+} from "@/engine/game";
+import { BarChart3, CalendarDays, CloudOff, History, LogOut, Plus, Settings, Shirt, Trophy, Users } from "lucide-react";
+
+type Goal = OfflineGoal;
 
 export default function Dashboard() {
   const { user, signOut, loading: authLoading } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [goals, setGoals] = useState<Goal[]>([]);
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
-  const [showVictory, setShowVictory] = useState<{ show: boolean; points: number; message: string }>({ show: false, points: 0, message: "" });
+  const [showVictory, setShowVictory] = useState<{
+    show: boolean;
+    points: number;
+    message: string;
+    bonus: number;
+    bonusMessage?: string;
+  }>({ show: false, points: 0, message: "", bonus: 0 });
   const [isEndOfDay, setIsEndOfDay] = useState(false);
-
-  const fetchGoals = useCallback(async () => {
-    if (!user) return;
-    
-    const { data, error } = await supabase
-      .from("goals")
-      .select("*")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.error("Error fetching goals:", error);
+  const [avatarNudge, setAvatarNudge] = useState(0);
+  const [round, setRound] = useState({ userPoints: 0, aiPoints: 0 });
+  const [intensity, setIntensity] = useState<IntensityLevel>("low");
+
+  // Outcomes of queued mutations, whether replayed at once or after reconnecting
+  const handleSyncResult = useCallback((result: SyncResult) => {
+    if (result.outcome === "conflict") {
+      toast({
+        title: result.mutation.type === "complete" ? "Completion rejected" : "Change not saved",
+        description: result.reason,
+        variant: "destructive",
+      });
       return;
     }
 
-    setGoals(data as Goal[]);
-  }, [user]);
+    if (result.mutation.type !== "complete" || !result.completion) return;
 
-  const fetchProfile = useCallback(async () => {
-    if (!user) return;
+    const { completion } = result;
+    setShowVictory({
+      show: true,
+      points: completion.user_points,
+      message: completion.message,
+      bonus: completion.streak_bonus || 0,
+      bonusMessage: completion.streak_message || undefined,
+    });
+    setTimeout(() => setShowVictory({ show: false, points: 0, message: "", bonus: 0 }), completion.streak_bonus ? 3000 : 2000);
+  }, [toast]);
+
+  const { data: profile = null, isLoading: profileLoading } = useProfile(user?.id);
+  const { data: goals = [], isSuccess: goalsLoaded, refetch: refetchGoals } = useGoals(user?.id);
+  const { data: categories = [] } = useCategories(user?.id);
+  const { online, pendingCount } = useGoalSync(user?.id, handleSyncResult);
+  const createGoal = useCreateGoal(user?.id);
+  const completeGoal = useCompleteGoal(user?.id);
+  const deleteGoal = useDeleteGoal(user?.id);
+
+  // Realtime changes are written straight into the query cache
+  useGoalsRealtime(user?.id);
+  useProfileRealtime(user?.id);
+
+  const cosmetics = useEquippedCosmetics(user?.id);
+  // Head-to-head: a friend's live score stands in for the AI's; unset or unfriended falls back to the AI
+  const rival = useRival(user?.id, profile?.rival_id);
+
+  useAchievementUnlocks(user?.id, {
+    ready: goalsLoaded,
+    goals,
+    timezone: profile?.timezone || getLocalTimezone(),
+    dayEndTime: profile?.day_end_time || DEFAULT_DAY_END_TIME,
+    soundEnabled: profile?.sound_enabled !== false,
+  });
+
+  useReminders({
+    enabled: profile?.notifications_enabled === true,
+    goals,
+    notificationTime: profile?.notification_time || DEFAULT_NOTIFICATION_TIME,
+    dayEndTime: profile?.day_end_time || DEFAULT_DAY_END_TIME,
+    timezone: profile?.timezone || getLocalTimezone(),
+    intensity,
+  });
+
+  // Today's battle: ledger points since the last day_end_time, excluding opening balances
+  const fetchRound = useCallback(async () => {
+    if (!user || !profile) return;
+
+    const { start, end } = getRoundWindow(
+      new Date(),
+      profile.timezone || getLocalTimezone(),
+      profile.day_end_time || DEFAULT_DAY_END_TIME
+    );
 
     const { data, error } = await supabase
-      .from("profiles")
-      .select("*")
+      .from("point_events")
+      .select("user_points, ai_points")
       .eq("user_id", user.id)
-      .maybeSingle();
+      .neq("source", "manual_adjustment")
+      .gt("created_at", start.toISOString())
+      .lte("created_at", end.toISOString());
 
     if (error) {
-      console.error("Error fetching profile:", error);
+      console.error("Error fetching today's round:", error);
       return;
     }
 
-    setProfile(data as Profile);
-  }, [user]);
+    setRound({
+      userPoints: data.reduce((sum, event) => sum + event.user_points, 0),
+      aiPoints: data.reduce((sum, event) => sum + event.ai_points, 0),
+    });
+  }, [user, profile]);
+
+  // Profile totals move with every ledger entry, so refetching alongside them keeps the round live
+  useEffect(() => {
+    fetchRound();
+  }, [fetchRound]);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -93,209 +153,166 @@ export default function Dashboard() {
       return;
     }
 
-    if (user) {
-      Promise.all([fetchGoals(), fetchProfile()]).finally(() => setLoading(false));
-    }
-  }, [user, authLoading, navigate, fetchGoals, fetchProfile]);
+  }, [user, authLoading, navigate]);
 
-  // Real-time subscription for goals and profiles
+  // Real-time announcement of missed-goal penalties
   useEffect(() => {
     if (!user) return;
 
-    const goalsChannel = supabase
-      .channel('goals-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'goals',
-          filter: `user_id=eq.${user.id}`,
-        },
-        () => {
-          fetchGoals();
-        }
-      )
-      .subscribe();
-
-    const profileChannel = supabase
-      .channel('profile-changes')
+    // Missed goals are settled server-side at day end; announce them as they land
+    const missedChannel = supabase
+      .channel('missed-goals')
       .on(
         'postgres_changes',
         {
-          event: '*',
+          event: 'INSERT',
           schema: 'public',
-          table: 'profiles',
+          table: 'point_events',
           filter: `user_id=eq.${user.id}`,
         },
-        () => {
-          fetchProfile();
+        (payload) => {
+          const event = payload.new as PointEvent;
+          if (event.source !== "goal_missed") return;
+
+          toast({
+            title: "⏰ Time's Up!",
+            description: event.reason || `AI gained ${event.ai_points} points from a missed goal!`,
+            variant: "destructive",
+          });
         }
       )
       .subscribe();
 
     return () => {
-      supabase.removeChannel(goalsChannel);
-      supabase.removeChannel(profileChannel);
+      supabase.removeChannel(missedChannel);
     };
-  }, [user, fetchGoals, fetchProfile]);
+  }, [user, toast]);
 
   const handleCompleteGoal = async (goal: Goal) => {
-    if (!user || !profile) return;
+    if (!user) return;
 
-    const now = new Date();
-    let userPoints = 0;
-    let aiPoints = 0;
-    let message = "";
-
-    if (goal.goal_type === "daily") {
-      if (goal.due_time) {
-        const today = new Date().toISOString().split("T")[0];
-        const dueDateTime = new Date(`${today}T${goal.due_time}`);
-        if (now < dueDateTime) {
-          userPoints = 20;
-          aiPoints = -5;
-          message = "Early completion! +20 points (AI loses 5)";
-        } else {
-          userPoints = 5;
-          aiPoints = 5;
-          message = "Task completed! +5 points (AI also gets +5)";
-        }
-      } else {
-        userPoints = 5;
-        aiPoints = 5;
-        message = "Task completed! +5 points (AI also gets +5)";
-      }
-    } else if (goal.due_date && goal.due_time) {
-      const dueDateTime = new Date(`${goal.due_date}T${goal.due_time}`);
-      if (now < dueDateTime) {
-        userPoints = 20;
-        aiPoints = -5;
-        message = "Early completion! +20 points (AI loses 5)";
-      } else {
-        userPoints = 10;
-        aiPoints = 0;
-        message = "On-time completion! +10 points";
-      }
-    } else if (goal.due_date) {
-      const dueDate = new Date(goal.due_date);
-      dueDate.setHours(23, 59, 59);
-      if (now <= dueDate) {
-        userPoints = 10;
-        aiPoints = 0;
-        message = "Goal achieved! +10 points";
-      } else {
-        userPoints = 5;
-        aiPoints = 5;
-        message = "Late completion! +5 points (AI gets +5)";
-      }
-    } else {
-      userPoints = 10;
-      message = "Goal completed! +10 points";
+    // Scored server-side as of now, even if the outbox only reaches it later
+    // A rejection rolls the optimistic update back and is reported by handleSyncResult
+    completeGoal.mutate(goal.id);
+
+    if (!navigator.onLine) {
+      toast({ title: "Saved offline", description: "Your completion will be scored once you reconnect" });
     }
+  };
+
+  const handleDeleteGoal = async (goalId: string) => {
+    deleteGoal.mutate(goalId, {
+      onSuccess: () => toast({ title: "Goal deleted", description: "The goal has been removed" }),
+      // A server rejection is already reported by handleSyncResult
+      onError: (error) => {
+        if (isSyncConflict(error)) return;
+        toast({ title: "Error", description: "Failed to delete goal", variant: "destructive" });
+      },
+    });
+  };
+
+  const handleToggleChecklistItem = async (item: ChecklistItem, done: boolean) => {
+    // Partial credit is decided server-side, paid at most once per item and capped per goal
+    const { data, error } = await supabase
+      .rpc("set_checklist_item_completed", { item_id: item.id, done })
+      .single();
 
-    const { error: goalError } = await supabase
-      .from("goals")
-      .update({
-        completed: true,
-        completed_at: now.toISOString(),
-        points_earned: userPoints,
-        ai_points_earned: aiPoints,
-      })
-      .eq("id", goal.id);
-
-    if (goalError) {
-      toast({ title: "Error", description: "Failed to complete goal", variant: "destructive" });
+    if (error) {
+      toast({ title: "Error", description: "Failed to update subtask", variant: "destructive" });
       return;
     }
 
-    const { error: profileError } = await supabase
-      .from("profiles")
-      .update({
-        total_points: (profile.total_points || 0) + userPoints,
-        ai_points: (profile.ai_points || 0) + aiPoints,
-      })
-      .eq("user_id", user.id);
+    if (done) {
+      setAvatarNudge((prev) => prev + 1);
+    }
 
-    if (profileError) {
-      console.error("Error updating profile:", profileError);
+    if (data.user_points > 0) {
+      toast({ title: "Subtask done!", description: data.message });
     }
+  };
 
-    setShowVictory({ show: true, points: userPoints, message });
-    setTimeout(() => setShowVictory({ show: false, points: 0, message: "" }), 2000);
+  const handleAddChecklistItem = async (goal: Goal, title: string) => {
+    if (!user) return;
+
+    const position = goal.goal_checklist_items.reduce((max, item) => Math.max(max, item.position + 1), 0);
+    const { error } = await supabase.from("goal_checklist_items").insert({
+      goal_id: goal.id,
+      user_id: user.id,
+      title,
+      position,
+    });
 
-    await Promise.all([fetchGoals(), fetchProfile()]);
+    if (error) {
+      toast({ title: "Error", description: "Failed to add subtask", variant: "destructive" });
+    }
   };
 
-  const handleDeleteGoal = async (goalId: string) => {
-    const { error } = await supabase.from("goals").delete().eq("id", goalId);
+  const handleDeleteChecklistItem = async (itemId: string) => {
+    const { error } = await supabase.from("goal_checklist_items").delete().eq("id", itemId);
 
     if (error) {
-      toast({ title: "Error", description: "Failed to delete goal", variant: "destructive" });
-      return;
+      toast({ title: "Error", description: "Failed to remove subtask", variant: "destructive" });
     }
-
-    toast({ title: "Goal deleted", description: "The goal has been removed" });
-    fetchGoals();
   };
 
   const handleEditGoal = (goal: Goal) => {
     setEditingGoal(goal);
   };
 
-  // Check for missed goals
-  const handleMissedGoals = useCallback(async () => {
+  // Create this round's recurring occurrences, again whenever the user's round rolls over
+  useEffect(() => {
     if (!user || !profile) return;
 
-    const now = new Date();
-    const dayEndTime = profile.day_end_time || "23:59";
-    const [eodHours, eodMinutes] = dayEndTime.split(":").map(Number);
+    const timezone = profile.timezone || getLocalTimezone();
+    const dayEndTime = profile.day_end_time || DEFAULT_DAY_END_TIME;
+    let materializedDay = "";
 
-    const missedGoals = goals.filter((goal) => {
-      if (goal.completed) return false;
+    // The settlement cron also creates them when the round rolls over; this covers a series just
+    // created or edited, and a profile whose timezone or day end changed since
+    const materializeRecurringGoals = async () => {
+      const today = getRoundDate(new Date(), timezone, dayEndTime);
+      if (today === materializedDay) return;
 
-      const createdDate = new Date(goal.created_at);
-      
-      if (goal.goal_type === "daily") {
-        const deadline = new Date(createdDate);
-        deadline.setHours(eodHours, eodMinutes, 0, 0);
-        return now > deadline;
+      materializedDay = today;
+      const { error } = await supabase.rpc("materialize_recurring_goals");
+      if (error) {
+        console.error("Error materializing recurring goals:", error);
       }
+    };
 
-      if (goal.due_date) {
-        const dueDate = new Date(goal.due_date);
-        if (goal.due_time) {
-          const [hours, minutes] = goal.due_time.split(":");
-          dueDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
-        } else {
-          dueDate.setHours(eodHours, eodMinutes, 0, 0);
-        }
-        return now > dueDate;
-      }
-      return false;
-    });
+    materializeRecurringGoals();
+    const interval = setInterval(materializeRecurringGoals, 60000);
+    return () => clearInterval(interval);
+  }, [user, profile]);
 
-    if (missedGoals.length === 0) return;
+  // Settle finished rounds and reset the arena whenever day_end_time passes
+  useEffect(() => {
+    if (!user || !profile) return;
 
-    for (const goal of missedGoals) {
-      await supabase
-        .from("goals")
-        .update({ updated_at: new Date().toISOString() })
-        .eq("id", goal.id);
-    }
+    const timezone = profile.timezone || getLocalTimezone();
+    const dayEndTime = profile.day_end_time || DEFAULT_DAY_END_TIME;
+    let currentRound = "";
 
-    toast({
-      title: "⏰ Time's Up!",
-      description: `AI gained ${missedGoals.length * 15} points from ${missedGoals.length} missed goal(s)!`,
-      variant: "destructive",
-    });
-  }, [goals, user, profile, toast]);
+    const settleRounds = async () => {
+      const { roundDate } = getRoundWindow(new Date(), timezone, dayEndTime);
+      if (roundDate === currentRound) return;
 
-  useEffect(() => {
-    const interval = setInterval(handleMissedGoals, 60000);
-    handleMissedGoals();
+      const isRollover = currentRound !== "";
+      currentRound = roundDate;
+      const { error } = await supabase.rpc("settle_daily_rounds");
+      if (error) {
+        console.error("Error settling daily rounds:", error);
+      }
+
+      if (isRollover) {
+        fetchRound();
+      }
+    };
+
+    settleRounds();
+    const interval = setInterval(settleRounds, 60000);
     return () => clearInterval(interval);
-  }, [handleMissedGoals]);
+  }, [user, profile, fetchRound]);
 
   // Check for end of day
   useEffect(() => {
@@ -303,11 +320,9 @@ export default function Dashboard() {
 
     const checkEndOfDay = () => {
       const now = new Date();
-      const dayEndTime = profile.day_end_time || "23:00";
-      const [hours, minutes] = dayEndTime.split(":").map(Number);
-      
-      const endOfDay = new Date();
-      endOfDay.setHours(hours, minutes, 0, 0);
+      const timezone = profile.timezone || getLocalTimezone();
+      const dayEndTime = profile.day_end_time || DEFAULT_DAY_END_TIME;
+      const endOfDay = zonedTimeToUtc(getZonedDate(now, timezone), dayEndTime, timezone);
       
       const timeDiff = endOfDay.getTime() - now.getTime();
       const thirtyMinutes = 30 * 60 * 1000;
@@ -332,7 +347,7 @@ export default function Dashboard() {
     navigate("/auth");
   };
 
-  if (authLoading || loading) {
+  if (authLoading || profileLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -343,22 +358,36 @@ export default function Dashboard() {
     );
   }
 
-  const activeGoals = goals.filter((g) => !g.completed);
-  const completedGoals = goals.filter((g) => g.completed);
+  const activeGoals = goals.filter((g) => g.status === "active");
+  const finishedGoals = goals.filter((g) => g.status === "completed" || g.status === "missed");
+  const tagSuggestions = getGoalTags(goals);
   const theme = (profile?.background_theme as ThemeType) || DEFAULT_THEME;
   const avatarType = (profile?.avatar_type as AvatarType) || DEFAULT_AVATAR;
+  const timezone = profile?.timezone || getLocalTimezone();
+  const dayEndTime = profile?.day_end_time || DEFAULT_DAY_END_TIME;
+  const arenaRival = rival && toArenaRival(rival);
 
   return (
     <div className="min-h-screen bg-background">
-      {showVictory.show && <VictoryAnimation points={showVictory.points} message={showVictory.message} />}
+      {showVictory.show && (
+        <VictoryAnimation
+          points={showVictory.points}
+          message={showVictory.message}
+          bonus={showVictory.bonus}
+          bonusMessage={showVictory.bonusMessage}
+        />
+      )}
 
       {/* Header */}
       <header className="sticky top-0 z-40 border-b border-border/50 bg-background/80 backdrop-blur-xl">
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-primary/60 flex items-center justify-center">
-              <span className="text-xl">🎮</span>
-            </div>
+            <PlayerAvatar
+              avatarUrl={profile?.avatar_url}
+              avatarType={avatarType}
+              alt={profile?.username || "Player"}
+              className="w-10 h-10 rounded-xl border-2 border-primary/50"
+            />
             <div>
               <h1 className="font-display font-bold text-lg text-foreground">GoalGame</h1>
               <p className="text-xs text-muted-foreground">Welcome, {profile?.username || "Player"}</p>
@@ -366,11 +395,36 @@ export default function Dashboard() {
           </div>
 
           <div className="flex items-center gap-2">
+            {(!online || pendingCount > 0) && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <CloudOff className="w-4 h-4" />
+                {online ? `${pendingCount} syncing` : pendingCount > 0 ? `Offline · ${pendingCount} queued` : "Offline"}
+              </span>
+            )}
             <StreakBadge 
               currentStreak={profile?.current_streak || 0}
               longestStreak={profile?.longest_streak || 0}
+              bonusClaimedToday={profile?.last_streak_bonus_date === getZonedDate(new Date(), timezone)}
               compact
             />
+            <Button variant="ghost" size="icon" onClick={() => navigate("/rounds")} aria-label="Round history">
+              <History className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate("/calendar")} aria-label="Calendar">
+              <CalendarDays className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate("/stats")} aria-label="Statistics">
+              <BarChart3 className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate("/locker")} aria-label="Locker">
+              <Shirt className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate("/trophies")} aria-label="Trophies">
+              <Trophy className="w-5 h-5" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate("/friends")} aria-label="Friends">
+              <Users className="w-5 h-5" />
+            </Button>
             <Button variant="ghost" size="icon" onClick={() => navigate("/settings")}>
               <Settings className="w-5 h-5" />
             </Button>
@@ -385,11 +439,20 @@ export default function Dashboard() {
         <GameArena 
           theme={theme}
           avatarType={avatarType}
-          userPoints={profile?.total_points || 0} 
-          aiPoints={profile?.ai_points || 0} 
+          avatarUrl={profile?.avatar_url}
+          cosmetics={cosmetics}
+          userPoints={round.userPoints}
+          aiPoints={round.aiPoints}
           isActive={activeGoals.length > 0}
           isEndOfDay={isEndOfDay}
           soundEnabled={profile?.sound_enabled !== false}
+          dayEndTime={dayEndTime}
+          timezone={timezone}
+          nudge={avatarNudge}
+          opponent={profile?.ai_opponent || undefined}
+          difficulty={profile?.difficulty || undefined}
+          rival={arenaRival}
+          onIntensityChange={setIntensity}
         />
 
         <Button
@@ -408,29 +471,48 @@ export default function Dashboard() {
           onComplete={handleCompleteGoal}
           onDelete={handleDeleteGoal}
           onEdit={handleEditGoal}
+          onToggleChecklistItem={handleToggleChecklistItem}
+          onAddChecklistItem={handleAddChecklistItem}
+          onDeleteChecklistItem={handleDeleteChecklistItem}
           emptyMessage="No active goals. Create one to start competing!"
+          categories={categories}
+          filterable
+          timezone={timezone}
+          dayEndTime={dayEndTime}
         />
 
-        {completedGoals.length > 0 && (
+        {finishedGoals.length > 0 && (
           <GoalList
-            title="Completed"
-            goals={completedGoals}
+            title="Finished"
+            goals={finishedGoals}
             showCompleted
+            categories={categories}
           />
         )}
+
+        {user && <ScoreHistory userId={user.id} timezone={timezone} />}
       </main>
 
       <CreateGoalDialog
         open={showCreateDialog}
         onOpenChange={setShowCreateDialog}
-        onGoalCreated={fetchGoals}
+        onGoalCreated={refetchGoals}
+        onCreateGoal={async (goal) => createGoal.mutate(goal)}
+        timezone={timezone}
+        dayEndTime={dayEndTime}
+        tagSuggestions={tagSuggestions}
       />
 
       <EditGoalDialog
         goal={editingGoal}
         open={!!editingGoal}
         onOpenChange={(open) => !open && setEditingGoal(null)}
-        onGoalUpdated={fetchGoals}
+        onGoalUpdated={refetchGoals}
+        timezone={timezone}
+        dayEndTime={dayEndTime}
+        opponent={profile?.ai_opponent || undefined}
+        difficulty={profile?.difficulty || undefined}
+        tagSuggestions={tagSuggestions}
       />
     </div>
   );
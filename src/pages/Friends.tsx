@@ -0,0 +1,247 @@
+import { FormEvent, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProfile, useUpdateProfile } from "@/hooks/useProfile";
+import {
+  Friend,
+  describeFriendRequestError,
+  useAcceptFriendRequest,
+  useFriends,
+  useFriendsRealtime,
+  useLeaderboard,
+  useLeaderboardRealtime,
+  useRemoveFriendship,
+  useSendFriendRequest,
+} from "@/hooks/useFriends";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Check, Medal, Swords, UserMinus, UserPlus, Users, X } from "lucide-react";
+import { FriendLeaderboard } from "@/components/game/FriendLeaderboard";
+import { PlayerAvatar } from "@/components/game/PlayerAvatar";
+
+export default function Friends() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: profile } = useProfile(user?.id);
+  const { data: friends = [], isLoading: friendsLoading } = useFriends(user?.id);
+  const { data: leaderboard = [] } = useLeaderboard(user?.id);
+  const sendFriendRequest = useSendFriendRequest(user?.id);
+  const acceptFriendRequest = useAcceptFriendRequest(user?.id);
+  const removeFriendship = useRemoveFriendship(user?.id);
+  const updateProfile = useUpdateProfile(user?.id);
+  const [username, setUsername] = useState("");
+
+  useFriendsRealtime(user?.id);
+  useLeaderboardRealtime(user?.id);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  if (authLoading || friendsLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const incoming = friends.filter((friend) => friend.status === "pending" && friend.incoming);
+  const outgoing = friends.filter((friend) => friend.status === "pending" && !friend.incoming);
+  const accepted = friends.filter((friend) => friend.status === "accepted");
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    const name = username.trim();
+    if (!name) return;
+
+    try {
+      const status = await sendFriendRequest.mutateAsync(name);
+      setUsername("");
+      toast(
+        status === "accepted"
+          ? { title: "Friend Added", description: `${name} had already invited you, so you're now friends` }
+          : { title: "Invite Sent", description: `${name} will see your invite on their Friends page` }
+      );
+    } catch (error) {
+      toast({ title: "Error", description: describeFriendRequestError(error), variant: "destructive" });
+    }
+  };
+
+  const handleAccept = (friend: Friend) => {
+    acceptFriendRequest.mutate(friend.friendship_id, {
+      onError: () => toast({ title: "Error", description: "Failed to accept the invite", variant: "destructive" }),
+    });
+  };
+
+  const setRival = (rivalId: string | null) => {
+    updateProfile.mutate(
+      { rival_id: rivalId },
+      { onError: () => toast({ title: "Error", description: "Failed to change your opponent", variant: "destructive" }) }
+    );
+  };
+
+  const handleRemove = (friend: Friend) => {
+    // An ex-friend can't stay the head-to-head opponent
+    if (friend.friend_id === profile?.rival_id) setRival(null);
+
+    removeFriendship.mutate(friend.friendship_id, {
+      onError: () => toast({ title: "Error", description: "Failed to update your friends", variant: "destructive" }),
+    });
+  };
+
+  const friendRow = (friend: Friend, actions: React.ReactNode) => (
+    <li key={friend.friendship_id} className="flex items-center gap-3">
+      <PlayerAvatar
+        avatarUrl={friend.avatar_url}
+        avatarType={friend.avatar_type}
+        alt={friend.username || "Player"}
+        className="w-9 h-9 rounded-full"
+      />
+      <p className="flex-1 min-w-0 font-medium truncate">{friend.username || "Player"}</p>
+      <div className="flex items-center gap-1">{actions}</div>
+    </li>
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-40 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="font-display font-bold text-lg">Friends</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 max-w-2xl">
+        {/* Invite */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserPlus className="w-5 h-5 text-primary" />
+              Add a Friend
+            </CardTitle>
+            <CardDescription>Invite someone by their username</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleInvite} className="flex gap-2">
+              <Input
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Username"
+                aria-label="Friend's username"
+              />
+              <Button type="submit" disabled={!username.trim() || sendFriendRequest.isPending}>
+                Invite
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Leaderboard */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Medal className="w-5 h-5 text-primary" />
+              Weekly Leaderboard
+            </CardTitle>
+            <CardDescription>Points earned since Monday; everyone's week follows their own day end</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FriendLeaderboard entries={leaderboard} userId={user!.id} />
+          </CardContent>
+        </Card>
+
+        {/* Friends and invites */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5 text-primary" />
+              Your Friends
+            </CardTitle>
+            <CardDescription>Go head-to-head to race a friend's live score instead of the AI</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {friends.length === 0 && (
+              <p className="text-sm text-muted-foreground">No friends yet. Send an invite to get started.</p>
+            )}
+
+            {incoming.length > 0 && (
+              <ul className="space-y-3">
+                {incoming.map((friend) =>
+                  friendRow(
+                    friend,
+                    <>
+                      <Button size="sm" onClick={() => handleAccept(friend)}>
+                        <Check className="w-4 h-4" />
+                        Accept
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(friend)} aria-label="Decline invite">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )
+                )}
+              </ul>
+            )}
+
+            {accepted.length > 0 && (
+              <ul className="space-y-3">
+                {accepted.map((friend) => {
+                  const isRival = friend.friend_id === profile?.rival_id;
+                  return friendRow(
+                    friend,
+                    <>
+                      <Button
+                        size="sm"
+                        variant={isRival ? "secondary" : "outline"}
+                        onClick={() => setRival(isRival ? null : friend.friend_id)}
+                        disabled={updateProfile.isPending}
+                      >
+                        <Swords className="w-4 h-4" />
+                        {isRival ? "Head-to-head" : "Challenge"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => handleRemove(friend)}
+                        aria-label="Remove friend"
+                      >
+                        <UserMinus className="w-4 h-4" />
+                      </Button>
+                    </>
+                  );
+                })}
+              </ul>
+            )}
+
+            {outgoing.length > 0 && (
+              <ul className="space-y-3">
+                {outgoing.map((friend) =>
+                  friendRow(
+                    friend,
+                    <>
+                      <Badge variant="secondary">Invited</Badge>
+                      <Button variant="ghost" size="icon" onClick={() => handleRemove(friend)} aria-label="Cancel invite">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </>
+                  )
+                )}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
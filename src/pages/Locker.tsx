@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useProfile } from "@/hooks/useProfile";
+import { describePurchaseError, useCoinBalance, useEquipCosmetic, useInventory, usePurchaseCosmetic } from "@/hooks/useCosmetics";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Coins, Crown, Sparkles, PartyPopper, Bot } from "lucide-react";
+import { CosmeticCard } from "@/components/game/CosmeticCard";
+import { COSMETIC_ITEMS, COSMETIC_SLOTS, CosmeticItem, CosmeticSlot } from "@/config/game";
+import { getThemePack } from "@/themes";
+
+const SLOT_DETAILS: Record<CosmeticSlot, { icon: React.ReactNode; description: string }> = {
+  hat: { icon: <Crown className="w-5 h-5 text-primary" />, description: "Worn by your character in the arena" },
+  trail: { icon: <Sparkles className="w-5 h-5 text-primary" />, description: "Left behind you while you race" },
+  dance: { icon: <PartyPopper className="w-5 h-5 text-primary" />, description: "Performed when you win the day" },
+  aiSprite: { icon: <Bot className="w-5 h-5 text-primary" />, description: "Changes how your AI opponent looks" },
+};
+
+export default function Locker() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: profile } = useProfile(user?.id);
+  const { data: balance = 0, isLoading: balanceLoading } = useCoinBalance(user?.id);
+  const { data: inventory = [], isLoading: inventoryLoading } = useInventory(user?.id);
+  const purchaseCosmetic = usePurchaseCosmetic(user?.id);
+  const equipCosmetic = useEquipCosmetic(user?.id);
+  const [buying, setBuying] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  if (authLoading || balanceLoading || inventoryLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const { userSprite, aiSprite } = getThemePack(profile?.background_theme).assets;
+  const ownedById = new Map(inventory.map((owned) => [owned.item_id, owned]));
+
+  const handleBuy = async (item: CosmeticItem) => {
+    setBuying(item.id);
+    try {
+      await purchaseCosmetic.mutateAsync(item.id);
+      toast({ title: "Unlocked!", description: `${item.name} is yours. Equip it to show it off.` });
+    } catch (error) {
+      toast({ title: "Error", description: describePurchaseError(error), variant: "destructive" });
+    } finally {
+      setBuying(null);
+    }
+  };
+
+  const handleToggleEquipped = (item: CosmeticItem, equip: boolean) => {
+    equipCosmetic.mutate(
+      { itemId: item.id, equip },
+      { onError: () => toast({ title: "Error", description: "Failed to change your outfit", variant: "destructive" }) }
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-40 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="font-display font-bold text-lg flex-1">Locker</h1>
+          <span className="flex items-center gap-1.5 font-display font-bold text-primary" aria-label={`${balance} coins`}>
+            <Coins className="w-5 h-5" />
+            {balance}
+          </span>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 max-w-2xl">
+        <p className="text-sm text-muted-foreground">
+          Every point you earn from goals also earns you a coin. Spending coins never lowers your score.
+        </p>
+
+        {COSMETIC_SLOTS.map(({ slot, name }) => (
+          <Card key={slot} className="bg-card/80">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                {SLOT_DETAILS[slot].icon}
+                {name}
+              </CardTitle>
+              <CardDescription>{SLOT_DETAILS[slot].description}</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {COSMETIC_ITEMS.filter((item) => item.slot === slot).map((item) => {
+                const owned = ownedById.get(item.id);
+                return (
+                  <CosmeticCard
+                    key={item.id}
+                    item={item}
+                    owned={!!owned}
+                    equipped={!!owned?.equipped}
+                    affordable={balance >= item.price}
+                    busy={buying !== null}
+                    userSprite={userSprite}
+                    aiSprite={aiSprite}
+                    onBuy={() => handleBuy(item)}
+                    onToggleEquipped={() => handleToggleEquipped(item, !owned?.equipped)}
+                  />
+                );
+              })}
+            </CardContent>
+          </Card>
+        ))}
+      </main>
+    </div>
+  );
+}
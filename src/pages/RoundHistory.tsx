@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { ArrowLeft, Swords, Trophy } from "lucide-react";
+import { DailyRound, RoundWinner, OPPONENT_CONFIGS } from "@/config/game";
+import { isValidOpponent } from "@/strategies/game";
+import { getRoundRecord } from "@/engine/game";
+
+const ROUND_LIMIT = 90;
+
+const WINNER_LABELS: Record<RoundWinner, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  user: { label: "Won", variant: "default" },
+  ai: { label: "Lost", variant: "destructive" },
+  draw: { label: "Draw", variant: "secondary" },
+};
+
+export default function RoundHistory() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [rounds, setRounds] = useState<DailyRound[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRounds = useCallback(async () => {
+    if (!user) return;
+
+    // Settle anything that finished since the dashboard was last open; the server closes overdue goals first
+    const { error: settleError } = await supabase.rpc("settle_daily_rounds");
+    if (settleError) {
+      console.error("Error settling daily rounds:", settleError);
+    }
+
+    const { data, error } = await supabase
+      .from("daily_rounds")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("round_date", { ascending: false })
+      .limit(ROUND_LIMIT);
+
+    if (error) {
+      console.error("Error fetching daily rounds:", error);
+      return;
+    }
+
+    setRounds(data as DailyRound[]);
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+      return;
+    }
+
+    if (user) {
+      fetchRounds().finally(() => setLoading(false));
+    }
+  }, [user, authLoading, navigate, fetchRounds]);
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const record = getRoundRecord(rounds);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-40 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="font-display font-bold text-lg">Round History</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 max-w-lg">
+        {/* Record */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="w-5 h-5 text-primary" />
+              Record
+            </CardTitle>
+            <CardDescription>Each day is its own battle, settled at your end of day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <div>
+                <p className="font-display font-bold text-2xl text-primary">{record.wins}</p>
+                <p className="text-xs text-muted-foreground">Wins</p>
+              </div>
+              <div>
+                <p className="font-display font-bold text-2xl text-destructive">{record.losses}</p>
+                <p className="text-xs text-muted-foreground">Losses</p>
+              </div>
+              <div>
+                <p className="font-display font-bold text-2xl text-foreground">{record.draws}</p>
+                <p className="text-xs text-muted-foreground">Draws</p>
+              </div>
+              <div>
+                <p className="font-display font-bold text-2xl text-foreground">{record.winRate}%</p>
+                <p className="text-xs text-muted-foreground">Win rate</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Past Rounds */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Swords className="w-5 h-5 text-primary" />
+              Past Rounds
+            </CardTitle>
+            <CardDescription>Your last {ROUND_LIMIT} days</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {rounds.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No finished rounds yet. Today's battle is settled at your end of day.
+              </p>
+            ) : (
+              rounds.map((round) => {
+                const result = WINNER_LABELS[round.winner];
+                const opponentName = isValidOpponent(round.ai_opponent)
+                  ? OPPONENT_CONFIGS[round.ai_opponent].name
+                  : "AI";
+
+                return (
+                  <div
+                    key={round.id}
+                    className="flex items-center justify-between gap-3 rounded-lg border border-border/30 p-3"
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-foreground">
+                        {format(parseISO(round.round_date), "EEE, MMM d")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        You {round.user_points} – {round.ai_points} {opponentName}
+                        {round.passive_ai_points > 0 && ` (incl. ${round.passive_ai_points} pace)`}
+                      </p>
+                      {round.winner !== "user" && round.user_points > round.ai_points && (
+                        <p className="text-[10px] text-muted-foreground">
+                          Short of the {round.points_to_win} pts needed to win
+                        </p>
+                      )}
+                    </div>
+                    <Badge variant={result.variant}>{result.label}</Badge>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
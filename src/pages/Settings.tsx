@@ -1,100 +1,174 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, User, Bell, Clock, Save, Palette, UserCircle } from "lucide-react";
+import { useProfile, useUpdateProfile } from "@/hooks/useProfile";
+import { DEFAULT_NOTIFICATION_TIME } from "@/hooks/useReminders";
+import { goalKeys } from "@/hooks/useGoals";
+import { isNotificationSupported, requestNotificationPermission } from "@/lib/notifications";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, User, Bell, Clock, Save, Palette, UserCircle, Globe, Bot, Gauge, Database, Download, Upload, Archive, Trash2 } from "lucide-react";
 import { AvatarSelector } from "@/components/game/AvatarSelector";
+import { AvatarUpload } from "@/components/game/AvatarUpload";
 import { ThemeSelector } from "@/components/game/ThemeSelector";
+import { OpponentSelector } from "@/components/game/OpponentSelector";
+import { DifficultySelector } from "@/components/game/DifficultySelector";
+import { ImportGoalsDialog } from "@/components/game/ImportGoalsDialog";
+import { DeleteAccountDialog } from "@/components/game/DeleteAccountDialog";
+import { CategoryManager } from "@/components/game/CategoryManager";
 import type { ThemeType, AvatarType } from "@/components/game/GameArena";
+import { getLocalTimezone, getSupportedTimezones } from "@/engine/game";
+import { DEFAULT_OPPONENT, DEFAULT_DIFFICULTY, OpponentType, DifficultyType } from "@/config/game";
+import { isValidOpponent, isValidDifficulty } from "@/strategies/game";
+import { DEFAULT_THEME, getThemePack } from "@/themes";
+import {
+  ExportFormat,
+  downloadAccountArchive,
+  downloadGoalExport,
+  fetchAccountArchive,
+  fetchGoalExport,
+} from "@/lib/transfer";
 
-interface Profile {
-  id: string;
-  username: string | null;
-  avatar_url: string | null;
-  avatar_type: AvatarType | null;
-  background_theme: ThemeType | null;
-  notification_time: string | null;
-  day_end_time: string | null;
-}
+const TIMEZONES = getSupportedTimezones();
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV" },
+  { format: "ics", label: "Calendar" },
+];
 
 export default function Settings() {
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, deleteAccount } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
+  const { data: profile, isLoading: loading } = useProfile(user?.id);
+  const updateProfile = useUpdateProfile(user?.id);
+  const queryClient = useQueryClient();
+  const seeded = useRef(false);
   const [username, setUsername] = useState("");
   const [avatarType, setAvatarType] = useState<AvatarType>("boy");
-  const [backgroundTheme, setBackgroundTheme] = useState<ThemeType>("forest");
-  const [notificationTime, setNotificationTime] = useState("19:00");
+  const [backgroundTheme, setBackgroundTheme] = useState<ThemeType>(DEFAULT_THEME);
+  const [notificationTime, setNotificationTime] = useState(DEFAULT_NOTIFICATION_TIME);
+  const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [dayEndTime, setDayEndTime] = useState("23:59");
+  const [timezone, setTimezone] = useState(getLocalTimezone);
+  const [opponent, setOpponent] = useState<OpponentType>(DEFAULT_OPPONENT);
+  const [difficulty, setDifficulty] = useState<DifficultyType>(DEFAULT_DIFFICULTY);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [archiving, setArchiving] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 
   useEffect(() => {
     if (!authLoading && !user) {
       navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  // Seed the form once from the shared profile cache; later cache updates must not clobber edits
+  useEffect(() => {
+    if (!profile || seeded.current) return;
+    seeded.current = true;
+
+    setUsername(profile.username || "");
+    setAvatarType(profile.avatar_type || "boy");
+    setBackgroundTheme(getThemePack(profile.background_theme).id);
+    setNotificationTime(profile.notification_time?.slice(0, 5) || DEFAULT_NOTIFICATION_TIME);
+    setNotificationsEnabled(profile.notifications_enabled === true);
+    setDayEndTime(profile.day_end_time?.slice(0, 5) || "23:59");
+    setTimezone(profile.timezone || getLocalTimezone());
+    const nextOpponent = profile.next_ai_opponent ?? profile.ai_opponent;
+    const nextDifficulty = profile.next_difficulty ?? profile.difficulty;
+    setOpponent(isValidOpponent(nextOpponent) ? nextOpponent : DEFAULT_OPPONENT);
+    setDifficulty(isValidDifficulty(nextDifficulty) ? nextDifficulty : DEFAULT_DIFFICULTY);
+  }, [profile]);
+
+  // Turning reminders on needs the browser's permission, which must be asked from a user gesture
+  const handleNotificationsToggle = async (enabled: boolean) => {
+    if (!enabled) {
+      setNotificationsEnabled(false);
       return;
     }
 
-    if (user) {
-      fetchProfile();
+    const permission = await requestNotificationPermission();
+    if (permission !== "granted") {
+      toast({
+        title: "Notifications blocked",
+        description: "Allow notifications for this site in your browser settings to get reminders",
+        variant: "destructive",
+      });
+      return;
     }
-  }, [user, authLoading, navigate]);
+    setNotificationsEnabled(true);
+  };
 
-  const fetchProfile = async () => {
+  const handleExport = async (format: ExportFormat) => {
     if (!user) return;
+    setExporting(format);
+
+    try {
+      downloadGoalExport(await fetchGoalExport(user.id), format, timezone);
+    } catch {
+      toast({ title: "Error", description: "Failed to export your goals", variant: "destructive" });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleDownloadArchive = async () => {
+    if (!user) return;
+    setArchiving(true);
+
+    try {
+      downloadAccountArchive(await fetchAccountArchive(user));
+    } catch {
+      toast({ title: "Error", description: "Failed to build your account archive", variant: "destructive" });
+    } finally {
+      setArchiving(false);
+    }
+  };
 
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("*")
-      .eq("user_id", user.id)
-      .maybeSingle();
+  const handleDeleteAccount = async () => {
+    const { error } = await deleteAccount();
 
     if (error) {
-      console.error("Error fetching profile:", error);
-      setLoading(false);
+      toast({ title: "Error", description: "Failed to delete your account", variant: "destructive" });
       return;
     }
 
-    if (data) {
-      setProfile(data as Profile);
-      setUsername(data.username || "");
-      setAvatarType((data.avatar_type as AvatarType) || "boy");
-      setBackgroundTheme((data.background_theme as ThemeType) || "forest");
-      setNotificationTime(data.notification_time?.slice(0, 5) || "19:00");
-      setDayEndTime(data.day_end_time?.slice(0, 5) || "23:59");
-    }
-    setLoading(false);
+    queryClient.clear();
+    toast({ title: "Account Deleted", description: "Your account and all of its data are gone" });
+    navigate("/");
   };
 
   const handleSave = async () => {
     if (!user) return;
-    setSaving(true);
 
-    const { error } = await supabase
-      .from("profiles")
-      .update({
+    try {
+      await updateProfile.mutateAsync({
         username: username.trim() || null,
         avatar_type: avatarType,
         background_theme: backgroundTheme,
         notification_time: notificationTime + ":00",
+        notifications_enabled: notificationsEnabled,
         day_end_time: dayEndTime + ":00",
-      })
-      .eq("user_id", user.id);
-
-    if (error) {
+        timezone,
+        // The round in progress keeps its opponent and difficulty; a change starts with the next one
+        next_ai_opponent: opponent === profile?.ai_opponent ? null : opponent,
+        next_difficulty: difficulty === profile?.difficulty ? null : difficulty,
+      });
+    } catch {
       toast({ title: "Error", description: "Failed to save settings", variant: "destructive" });
-      setSaving(false);
       return;
     }
 
     toast({ title: "Settings Saved", description: "Your preferences have been updated" });
-    setSaving(false);
   };
 
   if (authLoading || loading) {
@@ -157,9 +231,13 @@ export default function Settings() {
               <UserCircle className="w-5 h-5 text-secondary" />
               Avatar
             </CardTitle>
-            <CardDescription>Choose your game character</CardDescription>
+            <CardDescription>Choose your game character or upload your own picture</CardDescription>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            {user && <AvatarUpload userId={user.id} avatarUrl={profile?.avatar_url ?? null} avatarType={avatarType} />}
+            {profile?.avatar_url && (
+              <p className="text-xs text-muted-foreground">Your picture is shown while it's set; the character below is the fallback.</p>
+            )}
             <AvatarSelector selected={avatarType} onChange={setAvatarType} />
           </CardContent>
         </Card>
@@ -178,6 +256,40 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Opponent Selection */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="w-5 h-5 text-destructive" />
+              AI Opponent
+            </CardTitle>
+            <CardDescription>
+              Choose who you're racing against
+              {opponent !== profile?.ai_opponent && ". The switch happens when the current round ends"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <OpponentSelector selected={opponent} onChange={setOpponent} />
+          </CardContent>
+        </Card>
+
+        {/* Difficulty Selection */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="w-5 h-5 text-accent" />
+              Difficulty
+            </CardTitle>
+            <CardDescription>
+              Scale the AI and the points needed to win the day
+              {difficulty !== profile?.difficulty && ". The change applies when the current round ends"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DifficultySelector selected={difficulty} onChange={setDifficulty} />
+          </CardContent>
+        </Card>
+
         {/* Time Settings */}
         <Card className="bg-card/80">
           <CardHeader>
@@ -188,6 +300,22 @@ export default function Settings() {
             <CardDescription>Customize when your day ends and when to receive reminders</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="notificationsEnabled">Reminders</Label>
+                <p className="text-xs text-muted-foreground">
+                  {isNotificationSupported()
+                    ? "Notify me about pending goals and when the AI is closing in"
+                    : "This browser does not support notifications"}
+                </p>
+              </div>
+              <Switch
+                id="notificationsEnabled"
+                checked={notificationsEnabled}
+                onCheckedChange={handleNotificationsToggle}
+                disabled={!isNotificationSupported()}
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="notificationTime" className="flex items-center gap-2">
                 <Bell className="w-4 h-4" />
@@ -199,7 +327,10 @@ export default function Settings() {
                 value={notificationTime}
                 onChange={(e) => setNotificationTime(e.target.value)}
               />
-              <p className="text-xs text-muted-foreground">When to remind you about pending goals</p>
+              <p className="text-xs text-muted-foreground">
+                When to remind you about pending goals. Reminders come from the app itself, so they only arrive
+                while GoalGame is open in a tab or running as the installed app
+              </p>
             </div>
             <div className="space-y-2">
               <Label htmlFor="dayEndTime">Day End Time</Label>
@@ -211,15 +342,123 @@ export default function Settings() {
               />
               <p className="text-xs text-muted-foreground">When daily tasks are marked as missed</p>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="timezone" className="flex items-center gap-2">
+                <Globe className="w-4 h-4" />
+                Timezone
+              </Label>
+              <Select value={timezone} onValueChange={setTimezone}>
+                <SelectTrigger id="timezone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-72">
+                  {TIMEZONES.map((zone) => (
+                    <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Deadlines and day end follow this timezone, including daylight saving</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Categories */}
+        {user && <CategoryManager userId={user.id} />}
+
+        {/* Data */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="w-5 h-5 text-primary" />
+              Your Data
+            </CardTitle>
+            <CardDescription>Move goals and point history in and out of GoalGame</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Download className="w-4 h-4" />
+                Export
+              </Label>
+              <div className="grid grid-cols-3 gap-2">
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <Button
+                    key={format}
+                    variant="outline"
+                    onClick={() => handleExport(format)}
+                    disabled={exporting !== null}
+                  >
+                    {exporting === format ? "Exporting..." : label}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                JSON and CSV include your point history; the calendar feed lists long-term goals by due date
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Upload className="w-4 h-4" />
+                Import
+              </Label>
+              <Button variant="outline" className="w-full" onClick={() => setShowImportDialog(true)}>
+                Import goals from CSV or iCalendar
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Archive className="w-4 h-4" />
+                Account archive
+              </Label>
+              <Button variant="outline" className="w-full" onClick={handleDownloadArchive} disabled={archiving}>
+                {archiving ? "Preparing archive..." : "Download everything"}
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Your profile, goals, recurring series, score history and round results in one JSON file
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Danger Zone */}
+        <Card className="bg-card/80 border-destructive/40">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trash2 className="w-5 h-5 text-destructive" />
+              Delete Account
+            </CardTitle>
+            <CardDescription>Permanently remove your account and everything in it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="destructive" className="w-full" onClick={() => setShowDeleteDialog(true)}>
+              Delete my account
+            </Button>
           </CardContent>
         </Card>
 
         {/* Save Button */}
-        <Button variant="game" size="lg" className="w-full" onClick={handleSave} disabled={saving}>
+        <Button variant="game" size="lg" className="w-full" onClick={handleSave} disabled={updateProfile.isPending}>
           <Save className="w-5 h-5" />
-          {saving ? "Saving..." : "Save Settings"}
+          {updateProfile.isPending ? "Saving..." : "Save Settings"}
         </Button>
       </main>
+
+      {user && (
+        <ImportGoalsDialog
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          userId={user.id}
+          timezone={timezone}
+          dayEndTime={dayEndTime}
+          onImported={() => queryClient.invalidateQueries({ queryKey: goalKeys.all })}
+        />
+      )}
+
+      <DeleteAccountDialog
+        open={showDeleteDialog}
+        onOpenChange={setShowDeleteDialog}
+        onConfirm={handleDeleteAccount}
+      />
     </div>
   );
 }
@@ -0,0 +1,342 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { useAuth } from "@/contexts/AuthContext";
+import { useGoals } from "@/hooks/useGoals";
+import { useProfile } from "@/hooks/useProfile";
+import { useCategories } from "@/hooks/useCategories";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { ArrowLeft, BarChart3, Clock, Flame, Folder, PieChart as PieChartIcon, Swords, Target } from "lucide-react";
+import { getGoalStats, getLocalTimezone, DEFAULT_DAY_END_TIME, StatsRange, OutcomeBreakdown } from "@/engine/game";
+
+const RANGE_LABELS: Record<StatsRange, string> = {
+  week: "Week",
+  month: "Month",
+  all: "All time",
+};
+
+const pointsConfig = {
+  userPoints: { label: "You", color: "hsl(var(--primary))" },
+  aiPoints: { label: "AI", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const completionConfig = {
+  completionRate: { label: "Completion rate", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const outcomeConfig = {
+  early: { label: "Early", color: "hsl(var(--primary))" },
+  onTime: { label: "On time", color: "hsl(var(--secondary))" },
+  late: { label: "Late", color: "hsl(var(--accent))" },
+  missed: { label: "Missed", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+const streakConfig = {
+  streak: { label: "Streak", color: "hsl(var(--accent))" },
+} satisfies ChartConfig;
+
+const hourConfig = {
+  completions: { label: "Completions", color: "hsl(var(--secondary))" },
+} satisfies ChartConfig;
+
+// Uncategorised goals share a neutral swatch
+const UNCATEGORIZED_COLOR = "hsl(var(--muted-foreground))";
+
+const formatDay = (date: string) => format(parseISO(date), "MMM d");
+
+export default function Stats() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const [range, setRange] = useState<StatsRange>("week");
+  const { data: profile, isLoading: profileLoading } = useProfile(user?.id);
+  const { data: goals = [], isLoading: goalsLoading } = useGoals(user?.id);
+  const { data: categories = [] } = useCategories(user?.id);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  const stats = useMemo(
+    () =>
+      getGoalStats(goals, {
+        range,
+        now: new Date(),
+        timezone: profile?.timezone || getLocalTimezone(),
+        dayEndTime: profile?.day_end_time || DEFAULT_DAY_END_TIME,
+      }),
+    [goals, range, profile?.timezone, profile?.day_end_time]
+  );
+
+  if (authLoading || profileLoading || goalsLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const outcomeData = (Object.keys(outcomeConfig) as (keyof OutcomeBreakdown)[])
+    .map((outcome) => ({ outcome, count: stats.outcomes[outcome], fill: `var(--color-${outcome})` }))
+    .filter((entry) => entry.count > 0);
+  const hourData = stats.completionsByHour.map((completions, hour) => ({
+    hour: `${hour.toString().padStart(2, "0")}:00`,
+    completions,
+  }));
+  const totals = stats.days.reduce(
+    (sum, day) => ({ user: sum.user + day.userPoints, ai: sum.ai + day.aiPoints }),
+    { user: 0, ai: 0 }
+  );
+  const settledCount = Object.values(stats.outcomes).reduce((sum, count) => sum + count, 0);
+  const categoryData = stats.categories.map((entry) => {
+    const category = categories.find((c) => c.id === entry.categoryId);
+    return {
+      ...entry,
+      name: category?.name ?? "Uncategorized",
+      color: category?.color ?? UNCATEGORIZED_COLOR,
+    };
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-40 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="font-display font-bold text-lg">Statistics</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 max-w-2xl">
+        <Tabs value={range} onValueChange={(value) => setRange(value as StatsRange)}>
+          <TabsList className="grid w-full grid-cols-3">
+            {(Object.keys(RANGE_LABELS) as StatsRange[]).map((key) => (
+              <TabsTrigger key={key} value={key}>{RANGE_LABELS[key]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {/* Summary */}
+        <Card className="bg-card/80">
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <div>
+                <p className="font-display font-bold text-2xl text-primary">{totals.user}</p>
+                <p className="text-xs text-muted-foreground">Your points</p>
+              </div>
+              <div>
+                <p className="font-display font-bold text-2xl text-destructive">{totals.ai}</p>
+                <p className="text-xs text-muted-foreground">AI points</p>
+              </div>
+              <div>
+                <p className="font-display font-bold text-2xl text-foreground">
+                  {stats.completionRate === null ? "–" : `${stats.completionRate}%`}
+                </p>
+                <p className="text-xs text-muted-foreground">Completed</p>
+              </div>
+              <div>
+                <p className="font-display font-bold text-2xl text-accent">{stats.longestStreak}</p>
+                <p className="text-xs text-muted-foreground">Best streak</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Daily points */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Swords className="w-5 h-5 text-primary" />
+              You vs AI
+            </CardTitle>
+            <CardDescription>Points from goals completed or missed each day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={pointsConfig} className="h-56 w-full">
+              <BarChart data={stats.days}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="userPoints" fill="var(--color-userPoints)" radius={4} />
+                <Bar dataKey="aiPoints" fill="var(--color-aiPoints)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        {/* Completion rate */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="w-5 h-5 text-primary" />
+              Completion Rate
+            </CardTitle>
+            <CardDescription>Share of goals finished rather than missed, per day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={completionConfig} className="h-48 w-full">
+              <LineChart data={stats.days}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={32} domain={[0, 100]} unit="%" />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <Line
+                  dataKey="completionRate"
+                  stroke="var(--color-completionRate)"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                  connectNulls
+                />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        {/* Outcomes */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <PieChartIcon className="w-5 h-5 text-secondary" />
+              Outcomes
+            </CardTitle>
+            <CardDescription>Early, on-time and late completions against misses</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {settledCount === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No finished goals in this range yet</p>
+            ) : (
+              <ChartContainer config={outcomeConfig} className="mx-auto aspect-square h-56">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="outcome" hideLabel />} />
+                  <Pie data={outcomeData} dataKey="count" nameKey="outcome" innerRadius={50} strokeWidth={2}>
+                    {outcomeData.map((entry) => (
+                      <Cell key={entry.outcome} fill={entry.fill} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="outcome" />} />
+                </PieChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* By category */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Folder className="w-5 h-5 text-primary" />
+              By Category
+            </CardTitle>
+            <CardDescription>Points and completion rate for each category</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {categoryData.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No finished goals in this range yet</p>
+            ) : (
+              <>
+                <ChartContainer config={pointsConfig} className="w-full aspect-auto" style={{ height: 48 + categoryData.length * 40 }}>
+                  <BarChart data={categoryData} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={96} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="userPoints" fill="var(--color-userPoints)" radius={4} />
+                    <Bar dataKey="aiPoints" fill="var(--color-aiPoints)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <div className="space-y-2">
+                  {categoryData.map((entry) => (
+                    <div key={entry.categoryId ?? "none"} className="flex items-center gap-3 text-sm">
+                      <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: entry.color }} />
+                      <span className="flex-1 truncate">{entry.name}</span>
+                      <span className="text-muted-foreground">
+                        {entry.completed}/{entry.completed + entry.missed} done
+                      </span>
+                      <span className="w-12 text-right font-medium">
+                        {entry.completionRate === null ? "–" : `${entry.completionRate}%`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Streak history */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Flame className="w-5 h-5 text-accent" />
+              Streak History
+            </CardTitle>
+            <CardDescription>Consecutive days with at least one completed goal</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={streakConfig} className="h-48 w-full">
+              <AreaChart data={stats.days}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                <Area
+                  dataKey="streak"
+                  type="stepAfter"
+                  stroke="var(--color-streak)"
+                  fill="var(--color-streak)"
+                  fillOpacity={0.3}
+                />
+              </AreaChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        {/* Hour of day */}
+        <Card className="bg-card/80">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="w-5 h-5 text-secondary" />
+              When You Finish Goals
+            </CardTitle>
+            <CardDescription>Completions by hour of day in your timezone</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={hourConfig} className="h-48 w-full">
+              <BarChart data={hourData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={5} />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="completions" fill="var(--color-completions)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        {stats.days.every((day) => day.completed + day.missed === 0) && (
+          <p className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <BarChart3 className="w-4 h-4" />
+            Finish a few goals to fill these charts in
+          </p>
+        )}
+      </main>
+    </div>
+  );
+}
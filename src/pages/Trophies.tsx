@@ -0,0 +1,79 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useGoals } from "@/hooks/useGoals";
+import { useProfile } from "@/hooks/useProfile";
+import { useAchievementProgress, useUnlockedAchievements } from "@/hooks/useAchievements";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Trophy } from "lucide-react";
+import { AchievementCard } from "@/components/game/AchievementCard";
+import { ACHIEVEMENTS } from "@/config/game";
+import { DEFAULT_DAY_END_TIME, getLocalTimezone } from "@/engine/game";
+
+export default function Trophies() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { data: profile } = useProfile(user?.id);
+  const { data: goals = [], isLoading: goalsLoading } = useGoals(user?.id);
+  const { data: unlocked = [], isLoading: unlockedLoading } = useUnlockedAchievements(user?.id);
+  const progress = useAchievementProgress(user?.id, {
+    goals,
+    timezone: profile?.timezone || getLocalTimezone(),
+    dayEndTime: profile?.day_end_time || DEFAULT_DAY_END_TIME,
+  });
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  if (authLoading || goalsLoading || unlockedLoading || !progress) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const unlockedAt = new Map(unlocked.map((entry) => [entry.achievement_id, entry.unlocked_at]));
+  // Unlocked first, most recent on top; the rest stay in catalogue order
+  const achievements = [...ACHIEVEMENTS].sort(
+    (a, b) => (unlockedAt.get(b.id) ?? "").localeCompare(unlockedAt.get(a.id) ?? "")
+  );
+  const unlockedCount = ACHIEVEMENTS.filter((achievement) => unlockedAt.has(achievement.id)).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-40 border-b border-border/50 bg-background/80 backdrop-blur-xl">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <h1 className="font-display font-bold text-lg flex-1">Trophy Case</h1>
+          <span className="flex items-center gap-1.5 font-display font-bold text-primary">
+            <Trophy className="w-5 h-5" />
+            {unlockedCount}/{ACHIEVEMENTS.length}
+          </span>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 max-w-2xl">
+        <Progress value={(unlockedCount / ACHIEVEMENTS.length) * 100} className="h-2" />
+
+        <div className="space-y-3">
+          {achievements.map((achievement) => (
+            <AchievementCard
+              key={achievement.id}
+              achievement={achievement}
+              unlockedAt={unlockedAt.get(achievement.id)}
+              progress={progress[achievement.rule.metric]}
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  */
 
 import { GameState, ThemeType } from "@/config/game/types";
-import { THEME_CONFIGS } from "@/config/game/themes.config";
+import { getThemePack } from "@/themes";
 
 export interface IEffectsStrategy {
   getEffect(theme: ThemeType, state: GameState, index: number): string;
@@ -13,7 +13,7 @@ export interface IEffectsStrategy {
 
 export class DefaultEffectsStrategy implements IEffectsStrategy {
   getEffect(theme: ThemeType, state: GameState, index: number): string {
-    const config = THEME_CONFIGS[theme];
+    const config = getThemePack(theme);
     const effects = config.effects;
 
     if (state === "victory") {
@@ -3,26 +3,49 @@
  * Contributors can create new strategies by implementing IGameStrategy
  */
 
-import { GameState, ThemeType, GameResult } from "@/config/game/types";
-import { THEME_CONFIGS } from "@/config/game/themes.config";
+import { GameState, ThemeType, GameResult, OpponentConfig, DifficultyConfig } from "@/config/game/types";
+import { getThemePack } from "@/themes";
+import { OPPONENT_CONFIGS, DEFAULT_OPPONENT } from "@/config/game/opponents.config";
+import { DIFFICULTY_CONFIGS, DEFAULT_DIFFICULTY } from "@/config/game/difficulty.config";
 
 /**
  * Strategy interface - implement this to create new game behaviors
+ * Each AI opponent personality is one strategy
  */
 export interface IGameStrategy {
+  readonly opponent: OpponentConfig;
+  readonly difficulty: DifficultyConfig;
+  getPointsToWin(): number;
   getGameState(userPoints: number, aiPoints: number, isEndOfDay: boolean): GameState;
   getStatusMessage(state: GameState, theme: ThemeType): string;
   getAnimationClass(state: GameState, theme: ThemeType, isUser: boolean): string;
   calculateMovement(state: GameState, isUser: boolean): { x: number[]; y: number[] };
+  applyScoringModifiers(result: GameResult): GameResult;
+  getPassiveAiPoints(dayProgress: number): number; // dayProgress: 0 = start of day, 1 = end of day
+  getTaunt(state: GameState, index: number): string;
+}
+
+function formatSigned(points: number): string {
+  return points > 0 ? `+${points}` : `${points}`;
 }
 
 /**
  * Default game strategy implementation
  */
 export class DefaultGameStrategy implements IGameStrategy {
+  constructor(
+    readonly opponent: OpponentConfig = OPPONENT_CONFIGS[DEFAULT_OPPONENT],
+    readonly difficulty: DifficultyConfig = DIFFICULTY_CONFIGS[DEFAULT_DIFFICULTY]
+  ) {}
+
+  getPointsToWin(): number {
+    return this.difficulty.pointsToWin;
+  }
+
   getGameState(userPoints: number, aiPoints: number, isEndOfDay: boolean): GameState {
     if (isEndOfDay) {
-      if (userPoints > aiPoints) return "victory";
+      // Victory needs the lead and the difficulty's threshold; falling short of it is no win
+      if (userPoints > aiPoints && userPoints >= this.getPointsToWin()) return "victory";
       if (aiPoints > userPoints) return "defeat";
       return "endOfDay";
     }
@@ -33,7 +56,7 @@ export class DefaultGameStrategy implements IGameStrategy {
   }
 
   getStatusMessage(state: GameState, theme: ThemeType): string {
-    const config = THEME_CONFIGS[theme];
+    const config = getThemePack(theme);
     const messages = config.messages;
 
     switch (state) {
@@ -54,7 +77,7 @@ export class DefaultGameStrategy implements IGameStrategy {
   }
 
   getAnimationClass(state: GameState, theme: ThemeType, isUser: boolean): string {
-    const config = THEME_CONFIGS[theme];
+    const config = getThemePack(theme);
     const animations = config.animations;
 
     if (state === "victory" && isUser) {
@@ -102,11 +125,45 @@ export class DefaultGameStrategy implements IGameStrategy {
 
     return baseMovement;
   }
-}
 
-/**
- * Factory to get strategy instance
- */
-export function getGameStrategy(): IGameStrategy {
-  return new DefaultGameStrategy();
+  // Mirrors public.opponent_scoring_rule() so previews match what the server awards
+  applyScoringModifiers(result: GameResult): GameResult {
+    const { userPointsMultiplier, aiGainMultiplier } = this.opponent.modifiers;
+    const isMissed = result.rule.endsWith(".missed");
+    const aiMultiplier = aiGainMultiplier *
+      (isMissed ? this.difficulty.missedPenaltyMultiplier : this.difficulty.aiGainMultiplier);
+
+    const userPoints = Math.round(result.userPoints * userPointsMultiplier);
+    const aiPoints = result.aiPoints > 0 ? Math.round(result.aiPoints * aiMultiplier) : result.aiPoints;
+
+    if (userPoints === result.userPoints && aiPoints === result.aiPoints) return result;
+
+    return {
+      ...result,
+      winner: userPoints > aiPoints ? "user" : aiPoints > userPoints ? "ai" : "tie",
+      userPoints,
+      aiPoints,
+      message: `${result.message} (${this.getModifierLabel()}: you ${formatSigned(userPoints)}, AI ${formatSigned(aiPoints)})`,
+    };
+  }
+
+  getPassiveAiPoints(dayProgress: number): number {
+    const progress = Math.min(Math.max(dayProgress, 0), 1);
+    return Math.floor(this.getPassivePointsPerDay() * progress);
+  }
+
+  protected getPassivePointsPerDay(): number {
+    return this.opponent.modifiers.passivePointsPerDay * this.difficulty.aiGainMultiplier;
+  }
+
+  private getModifierLabel(): string {
+    return this.difficulty.id === DEFAULT_DIFFICULTY
+      ? this.opponent.name
+      : `${this.opponent.name} · ${this.difficulty.name}`;
+  }
+
+  getTaunt(state: GameState, index: number): string {
+    const taunts = this.opponent.taunts[state] || this.opponent.taunts.tied || [];
+    return taunts.length > 0 ? taunts[index % taunts.length] : "";
+  }
 }
@@ -0,0 +1,59 @@
+/**
+ * Opponent Strategies - One IGameStrategy per AI personality
+ * Point values come from OPPONENT_CONFIGS; behaviour differences live here
+ */
+
+import { DifficultyConfig, GameState } from "@/config/game/types";
+import { OPPONENT_CONFIGS } from "@/config/game/opponents.config";
+import { DefaultGameStrategy } from "./GameStrategy";
+
+/**
+ * Sloth - sleeps through the morning, then ambles along
+ */
+export class SlothStrategy extends DefaultGameStrategy {
+  constructor(difficulty?: DifficultyConfig) {
+    super(OPPONENT_CONFIGS.sloth, difficulty);
+  }
+
+  getPassiveAiPoints(dayProgress: number): number {
+    const progress = Math.min(Math.max(dayProgress, 0), 1);
+    if (progress < 0.5) return 0;
+    return Math.floor(this.getPassivePointsPerDay() * (progress - 0.5) * 2);
+  }
+
+  calculateMovement(state: GameState, isUser: boolean): { x: number[]; y: number[] } {
+    const movement = super.calculateMovement(state, isUser);
+    if (isUser) return movement;
+
+    // Half-hearted AI movement
+    return { x: movement.x.map((x) => x / 2), y: movement.y.map((y) => y / 2) };
+  }
+}
+
+/**
+ * Rival - the balanced default: standard scoring, steady pace
+ */
+export class RivalStrategy extends DefaultGameStrategy {
+  constructor(difficulty?: DifficultyConfig) {
+    super(OPPONENT_CONFIGS.rival, difficulty);
+  }
+}
+
+/**
+ * Relentless - accelerates toward the deadline and treats a tie as its lead
+ */
+export class RelentlessStrategy extends DefaultGameStrategy {
+  constructor(difficulty?: DifficultyConfig) {
+    super(OPPONENT_CONFIGS.relentless, difficulty);
+  }
+
+  getGameState(userPoints: number, aiPoints: number, isEndOfDay: boolean): GameState {
+    const state = super.getGameState(userPoints, aiPoints, isEndOfDay);
+    return state === "tied" ? "aiWinning" : state;
+  }
+
+  getPassiveAiPoints(dayProgress: number): number {
+    const progress = Math.min(Math.max(dayProgress, 0), 1);
+    return Math.floor(this.getPassivePointsPerDay() * progress * progress);
+  }
+}
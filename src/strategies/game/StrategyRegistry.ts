@@ -0,0 +1,39 @@
+/**
+ * Strategy Registry - Game strategies keyed by opponent id
+ * The chosen id is stored on the profile as ai_opponent, alongside its difficulty
+ */
+
+import { OpponentType, OpponentConfig, DifficultyConfig, DifficultyType } from "@/config/game/types";
+import { OPPONENT_CONFIGS, DEFAULT_OPPONENT } from "@/config/game/opponents.config";
+import { DIFFICULTY_CONFIGS, DEFAULT_DIFFICULTY } from "@/config/game/difficulty.config";
+import { IGameStrategy } from "./GameStrategy";
+import { SlothStrategy, RivalStrategy, RelentlessStrategy } from "./OpponentStrategies";
+
+export const GAME_STRATEGIES: Record<OpponentType, (difficulty: DifficultyConfig) => IGameStrategy> = {
+  sloth: (difficulty) => new SlothStrategy(difficulty),
+  rival: (difficulty) => new RivalStrategy(difficulty),
+  relentless: (difficulty) => new RelentlessStrategy(difficulty),
+};
+
+export function isValidOpponent(id: string | null | undefined): id is OpponentType {
+  return !!id && id in GAME_STRATEGIES;
+}
+
+export function isValidDifficulty(id: string | null | undefined): id is DifficultyType {
+  return !!id && id in DIFFICULTY_CONFIGS;
+}
+
+/**
+ * Opponents available for selection, in registry order
+ */
+export function getAvailableOpponents(): OpponentConfig[] {
+  return (Object.keys(GAME_STRATEGIES) as OpponentType[]).map((id) => OPPONENT_CONFIGS[id]);
+}
+
+/**
+ * Factory to get strategy instance, falling back to the default opponent and difficulty
+ */
+export function getGameStrategy(id?: string | null, difficulty?: string | null): IGameStrategy {
+  const create = GAME_STRATEGIES[isValidOpponent(id) ? id : DEFAULT_OPPONENT];
+  return create(DIFFICULTY_CONFIGS[isValidDifficulty(difficulty) ? difficulty : DEFAULT_DIFFICULTY]);
+}
@@ -4,10 +4,23 @@
 
 export { 
   type IGameStrategy, 
-  DefaultGameStrategy, 
-  getGameStrategy 
+  DefaultGameStrategy 
 } from "./GameStrategy";
 
+export {
+  SlothStrategy,
+  RivalStrategy,
+  RelentlessStrategy
+} from "./OpponentStrategies";
+
+export {
+  GAME_STRATEGIES,
+  isValidOpponent,
+  isValidDifficulty,
+  getAvailableOpponents,
+  getGameStrategy
+} from "./StrategyRegistry";
+
 export { 
   type IEffectsStrategy, 
   DefaultEffectsStrategy, 
@@ -0,0 +1,19 @@
+/**
+ * Themes Index - Public API for theme packs
+ */
+
+export { THEME_PACKS, DEFAULT_THEME, getThemePack, isValidTheme } from "./registry";
+export { themeManifestSchema } from "./schema";
+export type {
+  ThemeManifest,
+  ThemePack,
+  ThemeMessages,
+  ThemeAnimations,
+  ThemeEffects,
+  ThemeObstacle,
+  ThemeParallax,
+  ThemeMotion,
+  MotionKeyframes,
+  ThemeAudio,
+  ThemeAssets,
+} from "./schema";
@@ -0,0 +1,65 @@
+/**
+ * Theme Pack Loader - Turns pack folders into validated theme packs
+ * A broken pack is logged and left out rather than taking the game down with it
+ */
+
+import { ThemeManifest, ThemePack, themeManifestSchema } from "./schema";
+
+// "./packs/forest/manifest.json" -> "forest"
+function packFolder(path: string): string {
+  const parts = path.split("/");
+  return parts[parts.length - 2];
+}
+
+/**
+ * Validate one manifest and resolve its asset file names to URLs
+ * Returns the problem as a string when the pack can't be used
+ */
+export function loadThemePack(
+  folder: string,
+  raw: unknown,
+  assetUrls: Record<string, string>
+): ThemePack | string {
+  const result = themeManifestSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return `${issue.path.join(".") || "manifest"}: ${issue.message}`;
+  }
+
+  const manifest = result.data as ThemeManifest;
+  if (manifest.id !== folder) {
+    return `id "${manifest.id}" does not match its folder name`;
+  }
+
+  const assets = { ...manifest.assets };
+  for (const key of Object.keys(assets) as (keyof typeof assets)[]) {
+    const url = assetUrls[`./packs/${folder}/${assets[key]}`];
+    if (!url) return `assets.${key}: ${assets[key]} is not in the pack folder`;
+    assets[key] = url;
+  }
+
+  return { ...manifest, assets };
+}
+
+/**
+ * Load every pack found, keyed by the glob paths of their manifests and assets
+ */
+export function loadThemePacks(
+  manifests: Record<string, unknown>,
+  assetUrls: Record<string, string>
+): ThemePack[] {
+  const packs: ThemePack[] = [];
+
+  for (const [path, raw] of Object.entries(manifests)) {
+    const folder = packFolder(path);
+    const pack = loadThemePack(folder, raw, assetUrls);
+
+    if (typeof pack === "string") {
+      console.error(`Theme pack "${folder}" skipped - ${pack}`);
+      continue;
+    }
+    packs.push(pack);
+  }
+
+  return packs;
+}
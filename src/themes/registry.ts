@@ -0,0 +1,42 @@
+/**
+ * Theme Registry - Every theme pack the game knows about
+ * Packs are picked up from src/themes/packs/<id>/ at build time; adding a theme is adding a folder
+ */
+
+import { ThemePack } from "./schema";
+import { loadThemePacks } from "./loader";
+
+const manifests = import.meta.glob("./packs/*/manifest.json", { eager: true, import: "default" });
+const assetUrls = import.meta.glob<string>("./packs/*/*.{png,jpg,jpeg,webp,svg}", {
+  eager: true,
+  import: "default",
+});
+
+export const DEFAULT_THEME = "forest";
+
+/**
+ * All valid packs, default first and the rest by name
+ */
+export const THEME_PACKS: ThemePack[] = loadThemePacks(manifests, assetUrls).sort((a, b) =>
+  a.id === DEFAULT_THEME ? -1 : b.id === DEFAULT_THEME ? 1 : a.name.localeCompare(b.name)
+);
+
+if (THEME_PACKS.length === 0) {
+  throw new Error("No valid theme packs found in src/themes/packs");
+}
+
+const PACKS_BY_ID = new Map(THEME_PACKS.map((pack) => [pack.id, pack]));
+
+/**
+ * Helper to check if a theme is a registered pack
+ */
+export function isValidTheme(theme: string | null | undefined): boolean {
+  return !!theme && PACKS_BY_ID.has(theme);
+}
+
+/**
+ * The pack for a theme id, falling back to the default for unknown or removed themes
+ */
+export function getThemePack(theme: string | null | undefined): ThemePack {
+  return (theme && PACKS_BY_ID.get(theme)) || PACKS_BY_ID.get(DEFAULT_THEME) || THEME_PACKS[0];
+}
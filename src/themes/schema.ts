@@ -0,0 +1,176 @@
+/**
+ * Theme Pack Schema - The manifest.json format every theme pack folder provides
+ * Manifests are plain JSON, so they are checked here before the game reads them
+ */
+
+import { z } from "zod";
+
+const nonEmpty = z.string().min(1);
+
+// An image in the pack folder, e.g. "background.jpg"
+const assetFile = z
+  .string()
+  .regex(/^[\w-]+\.(png|jpe?g|webp|svg)$/i, "Assets are image files inside the pack folder");
+
+// Keyframes for one avatar state; each track loops through its values
+const motionKeyframes = z.object({
+  x: z.array(z.number()).min(2),
+  y: z.array(z.number()).min(2),
+  rotate: z.array(z.number()).min(2),
+  scale: z.array(z.number()).min(2),
+});
+
+export const themeManifestSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9-]*$/, "Theme ids are lowercase letters, digits and dashes"),
+  name: nonEmpty,
+  description: nonEmpty,
+  icon: nonEmpty, // emoji shown in the theme picker
+  assets: z.object({
+    background: assetFile,
+    userSprite: assetFile,
+    aiSprite: assetFile,
+  }),
+  messages: z.object({
+    action: nonEmpty,
+    userWinText: nonEmpty,
+    aiWinText: nonEmpty,
+    tieText: nonEmpty,
+    victoryText: nonEmpty,
+    defeatText: nonEmpty,
+    endOfDayText: nonEmpty,
+  }),
+  animations: z.object({
+    userAnimation: nonEmpty,
+    aiAnimation: nonEmpty,
+    victoryAnimation: nonEmpty,
+    defeatAnimation: nonEmpty,
+  }),
+  effects: z.object({
+    effects: z.array(nonEmpty).min(1),
+    victoryEffects: z.array(nonEmpty).min(1),
+    defeatEffects: z.array(nonEmpty).min(1),
+  }),
+  backgroundSpeed: z.number().positive(),
+  characterSpeed: z.number().positive(),
+  obstacles: z
+    .array(
+      z.object({
+        emoji: nonEmpty,
+        size: z.enum(["text-2xl", "text-3xl", "text-4xl"]),
+      })
+    )
+    .min(1),
+  // Tailwind gradient stops for each parallax layer, plus emoji or glyphs drifting past
+  parallax: z.object({
+    far: nonEmpty,
+    mid: nonEmpty,
+    near: nonEmpty,
+    ground: nonEmpty,
+    decorations: z.array(nonEmpty),
+  }),
+  motion: z.object({
+    idle: motionKeyframes,
+    active: motionKeyframes,
+    winning: motionKeyframes,
+    losing: motionKeyframes,
+    baseDuration: z.number().positive(), // seconds per loop at low intensity
+    indicators: z.array(nonEmpty).min(1), // shown above the avatar on each beat
+  }),
+  audio: z.object({
+    baseFreq: z.number().positive(),
+    scale: z.array(z.number().int().min(0).max(24)).min(1), // semitones above baseFreq
+    waveform: z.enum(["sine", "square", "sawtooth", "triangle"]),
+    bassFreq: z.number().positive(),
+    style: z.enum(["rhythmic", "ambient", "action", "tension"]),
+    beatPattern: z.array(z.union([z.literal(0), z.literal(1)])).min(1),
+  }),
+});
+
+// Written out rather than inferred: without strictNullChecks z.infer marks every field optional
+export interface ThemeMessages {
+  action: string;
+  userWinText: string;
+  aiWinText: string;
+  tieText: string;
+  victoryText: string;
+  defeatText: string;
+  endOfDayText: string;
+}
+
+export interface ThemeAnimations {
+  userAnimation: string;
+  aiAnimation: string;
+  victoryAnimation: string;
+  defeatAnimation: string;
+}
+
+export interface ThemeEffects {
+  effects: string[];
+  victoryEffects: string[];
+  defeatEffects: string[];
+}
+
+export interface ThemeObstacle {
+  emoji: string;
+  size: "text-2xl" | "text-3xl" | "text-4xl";
+}
+
+export interface ThemeParallax {
+  far: string;
+  mid: string;
+  near: string;
+  ground: string;
+  decorations: string[];
+}
+
+// A type alias rather than an interface so framer-motion accepts it as an animation target
+export type MotionKeyframes = {
+  x: number[];
+  y: number[];
+  rotate: number[];
+  scale: number[];
+};
+
+export interface ThemeMotion {
+  idle: MotionKeyframes;
+  active: MotionKeyframes;
+  winning: MotionKeyframes;
+  losing: MotionKeyframes;
+  baseDuration: number;
+  indicators: string[];
+}
+
+export interface ThemeAudio {
+  baseFreq: number;
+  scale: number[];
+  waveform: "sine" | "square" | "sawtooth" | "triangle";
+  bassFreq: number;
+  style: "rhythmic" | "ambient" | "action" | "tension";
+  beatPattern: number[];
+}
+
+export interface ThemeAssets {
+  background: string;
+  userSprite: string;
+  aiSprite: string;
+}
+
+export interface ThemeManifest {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  assets: ThemeAssets;
+  messages: ThemeMessages;
+  animations: ThemeAnimations;
+  effects: ThemeEffects;
+  backgroundSpeed: number;
+  characterSpeed: number;
+  obstacles: ThemeObstacle[];
+  parallax: ThemeParallax;
+  motion: ThemeMotion;
+  audio: ThemeAudio;
+}
+
+// A registered pack has the manifest's shape, with asset file names swapped for URLs
+export type ThemePack = ThemeManifest;
@@ -0,0 +1,163 @@
+-- Point values for each scoring rule
+-- Mirrors SCORING_CONFIG in src/config/game/scoring.config.ts - keep both in sync
+CREATE OR REPLACE FUNCTION public.scoring_rule(rule_id TEXT, OUT user_points INTEGER, OUT ai_points INTEGER)
+AS $$
+  SELECT r.user_points, r.ai_points
+  FROM (VALUES
+    ('daily.earlyCompletion', 20, -5),
+    ('daily.onTimeCompletion', 5, 5),
+    ('daily.missed', 0, 15),
+    ('longTerm.earlyCompletion', 20, -5),
+    ('longTerm.onTimeCompletion', 10, 0),
+    ('longTerm.lateCompletion', 5, 5),
+    ('longTerm.noDeadline', 10, 0),
+    ('longTerm.missed', 0, 15)
+  ) AS r(id, user_points, ai_points)
+  WHERE r.id = rule_id;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Decide which scoring rule applies to a goal completed at the given time
+-- SQL counterpart of getCompletionRule() in src/engine/game/ScoringEngine.ts
+CREATE OR REPLACE FUNCTION public.score_goal(
+  goal public.goals,
+  completion_time TIMESTAMP WITH TIME ZONE,
+  user_timezone TEXT,
+  user_day_end_time TIME
+)
+RETURNS TEXT AS $$
+DECLARE
+  goal_day DATE;
+  goal_deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF goal.goal_type = 'daily' THEN
+    IF goal.due_time IS NULL THEN
+      RETURN 'daily.onTimeCompletion';
+    END IF;
+
+    goal_day := (goal.created_at AT TIME ZONE user_timezone)::DATE;
+    IF completion_time < (goal_day + goal.due_time) AT TIME ZONE user_timezone THEN
+      RETURN 'daily.earlyCompletion';
+    END IF;
+    RETURN 'daily.onTimeCompletion';
+  END IF;
+
+  IF goal.due_date IS NULL THEN
+    RETURN 'longTerm.noDeadline';
+  END IF;
+
+  goal_deadline := (goal.due_date + COALESCE(goal.due_time, user_day_end_time)) AT TIME ZONE user_timezone;
+  IF completion_time > goal_deadline THEN
+    RETURN 'longTerm.lateCompletion';
+  END IF;
+
+  -- An explicit due time rewards beating it; a bare due date only asks for on-time
+  IF goal.due_time IS NOT NULL THEN
+    RETURN 'longTerm.earlyCompletion';
+  END IF;
+  RETURN 'longTerm.onTimeCompletion';
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Missed goals now read their points from scoring_rule() instead of a hardcoded 15
+CREATE OR REPLACE FUNCTION public.process_missed_goal()
+RETURNS TRIGGER AS $$
+DECLARE
+  user_day_end_time TIME;
+  goal_deadline TIMESTAMP WITH TIME ZONE;
+  missed RECORD;
+BEGIN
+  -- Only process if goal is not completed
+  IF NEW.completed = true THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get user's day end time from profile
+  SELECT COALESCE(day_end_time, '23:59:00'::TIME) INTO user_day_end_time
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  -- Calculate the deadline based on goal type
+  IF NEW.goal_type = 'daily' THEN
+    -- For daily goals, deadline is the day_end_time on creation date
+    goal_deadline := (DATE(NEW.created_at AT TIME ZONE 'UTC') + user_day_end_time)::TIMESTAMP WITH TIME ZONE;
+  ELSIF NEW.due_date IS NOT NULL THEN
+    -- For goals with due date
+    IF NEW.due_time IS NOT NULL THEN
+      goal_deadline := (NEW.due_date + NEW.due_time)::TIMESTAMP WITH TIME ZONE;
+    ELSE
+      goal_deadline := (NEW.due_date + user_day_end_time)::TIMESTAMP WITH TIME ZONE;
+    END IF;
+  ELSE
+    -- No deadline set
+    RETURN NEW;
+  END IF;
+
+  -- Check if deadline has passed
+  IF NOW() > goal_deadline AND NEW.completed = false THEN
+    SELECT * INTO missed
+    FROM public.scoring_rule(CASE WHEN NEW.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END);
+
+    -- Mark as completed (missed) and award AI points
+    NEW.completed := true;
+    NEW.completed_at := NOW();
+    NEW.ai_points_earned := missed.ai_points;
+    NEW.points_earned := missed.user_points;
+
+    -- Update AI points in profile
+    UPDATE public.profiles
+    SET ai_points = COALESCE(ai_points, 0) + missed.ai_points
+    WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_all_overdue_goals()
+RETURNS void AS $$
+DECLARE
+  goal_record RECORD;
+  user_day_end_time TIME;
+  goal_deadline TIMESTAMP WITH TIME ZONE;
+  missed RECORD;
+BEGIN
+  FOR goal_record IN
+    SELECT g.*, p.day_end_time as profile_day_end_time
+    FROM public.goals g
+    JOIN public.profiles p ON g.user_id = p.user_id
+    WHERE g.completed = false
+  LOOP
+    user_day_end_time := COALESCE(goal_record.profile_day_end_time, '23:59:00'::TIME);
+
+    -- Calculate deadline
+    IF goal_record.goal_type = 'daily' THEN
+      goal_deadline := (DATE(goal_record.created_at AT TIME ZONE 'UTC') + user_day_end_time)::TIMESTAMP WITH TIME ZONE;
+    ELSIF goal_record.due_date IS NOT NULL THEN
+      IF goal_record.due_time IS NOT NULL THEN
+        goal_deadline := (goal_record.due_date + goal_record.due_time)::TIMESTAMP WITH TIME ZONE;
+      ELSE
+        goal_deadline := (goal_record.due_date + user_day_end_time)::TIMESTAMP WITH TIME ZONE;
+      END IF;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    -- If deadline passed, mark as missed
+    IF NOW() > goal_deadline THEN
+      SELECT * INTO missed
+      FROM public.scoring_rule(CASE WHEN goal_record.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END);
+
+      UPDATE public.goals
+      SET completed = true,
+          completed_at = NOW(),
+          ai_points_earned = missed.ai_points,
+          points_earned = missed.user_points
+      WHERE id = goal_record.id;
+
+      UPDATE public.profiles
+      SET ai_points = COALESCE(ai_points, 0) + missed.ai_points
+      WHERE user_id = goal_record.user_id;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,77 @@
+-- profiles.timezone is already read by the client but was never captured in a migration
+ALTER TABLE public.profiles ADD COLUMN IF NOT EXISTS timezone TEXT DEFAULT 'UTC';
+
+-- Carry the player-facing message alongside each rule's points
+DROP FUNCTION IF EXISTS public.scoring_rule(TEXT);
+CREATE OR REPLACE FUNCTION public.scoring_rule(
+  rule_id TEXT,
+  OUT user_points INTEGER,
+  OUT ai_points INTEGER,
+  OUT message TEXT
+)
+AS $$
+  SELECT r.user_points, r.ai_points, r.message
+  FROM (VALUES
+    ('daily.earlyCompletion', 20, -5, 'Early completion! +20 points (AI loses 5)'),
+    ('daily.onTimeCompletion', 5, 5, 'Task completed! +5 points (AI also gets +5)'),
+    ('daily.missed', 0, 15, 'Missed goal! AI gains 15 points'),
+    ('longTerm.earlyCompletion', 20, -5, 'Early completion! +20 points (AI loses 5)'),
+    ('longTerm.onTimeCompletion', 10, 0, 'On-time completion! +10 points'),
+    ('longTerm.lateCompletion', 5, 5, 'Late completion! +5 points (AI gets +5)'),
+    ('longTerm.noDeadline', 10, 0, 'Goal completed! +10 points'),
+    ('longTerm.missed', 0, 15, 'Missed goal! AI gains 15 points')
+  ) AS r(id, user_points, ai_points, message)
+  WHERE r.id = rule_id;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Complete a goal atomically: score it, mark it completed and credit the profile
+-- in one transaction so concurrent tabs cannot overwrite each other's points
+CREATE OR REPLACE FUNCTION public.complete_goal(goal_id UUID)
+RETURNS TABLE(rule TEXT, user_points INTEGER, ai_points INTEGER, message TEXT) AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+BEGIN
+  -- Lock the goal so a second completion waits and then sees it completed
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = complete_goal.goal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR goal_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Goal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF goal_record.completed = true THEN
+    RAISE EXCEPTION 'Goal already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id;
+
+  rule_id := public.score_goal(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+  SELECT * INTO scored FROM public.scoring_rule(rule_id);
+
+  UPDATE public.goals g
+  SET completed = true,
+      completed_at = NOW(),
+      points_earned = scored.user_points,
+      ai_points_earned = scored.ai_points
+  WHERE g.id = goal_record.id;
+
+  -- Increment in place rather than writing a client-computed total
+  UPDATE public.profiles p
+  SET total_points = COALESCE(p.total_points, 0) + scored.user_points,
+      ai_points = COALESCE(p.ai_points, 0) + scored.ai_points
+  WHERE p.user_id = goal_record.user_id;
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.complete_goal(UUID) TO authenticated;
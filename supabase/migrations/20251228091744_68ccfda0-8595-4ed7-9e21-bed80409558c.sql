@@ -0,0 +1,238 @@
+-- Point ledger: every award or penalty is recorded here and profile totals follow from it
+CREATE TABLE public.point_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  goal_id UUID REFERENCES public.goals(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('goal_completed', 'goal_missed', 'streak_bonus', 'manual_adjustment')),
+  rule_id TEXT,
+  user_points INTEGER NOT NULL DEFAULT 0,
+  ai_points INTEGER NOT NULL DEFAULT 0,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX point_events_user_created_idx ON public.point_events (user_id, created_at DESC);
+
+-- Ledger is append-only from the client's point of view: read your own events,
+-- writes happen through SECURITY DEFINER functions only
+ALTER TABLE public.point_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own point events"
+ON public.point_events FOR SELECT USING (auth.uid() = user_id);
+
+-- Keep profile totals in step with the ledger
+CREATE OR REPLACE FUNCTION public.apply_point_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.profiles
+  SET total_points = COALESCE(total_points, 0) + NEW.user_points,
+      ai_points = COALESCE(ai_points, 0) + NEW.ai_points
+  WHERE user_id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_point_event_trigger
+  AFTER INSERT ON public.point_events
+  FOR EACH ROW EXECUTE FUNCTION public.apply_point_event();
+
+-- Recompute profile totals from the ledger, repairing any drift
+CREATE OR REPLACE FUNCTION public.reconcile_profile_points(target_user_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.profiles p
+  SET total_points = totals.user_points,
+      ai_points = totals.ai_points
+  FROM (
+    SELECT COALESCE(SUM(e.user_points), 0)::INTEGER AS user_points,
+           COALESCE(SUM(e.ai_points), 0)::INTEGER AS ai_points
+    FROM public.point_events e
+    WHERE e.user_id = target_user_id
+  ) AS totals
+  WHERE p.user_id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill the ledger from goals that were already scored
+-- Profiles already hold these points, so the totals trigger stays off while importing
+ALTER TABLE public.point_events DISABLE TRIGGER apply_point_event_trigger;
+
+INSERT INTO public.point_events (user_id, goal_id, source, user_points, ai_points, reason, created_at)
+SELECT g.user_id,
+       g.id,
+       CASE WHEN COALESCE(g.points_earned, 0) = 0 AND COALESCE(g.ai_points_earned, 0) > 0
+            THEN 'goal_missed' ELSE 'goal_completed' END,
+       COALESCE(g.points_earned, 0),
+       COALESCE(g.ai_points_earned, 0),
+       'Imported from goal history',
+       COALESCE(g.completed_at, g.updated_at)
+FROM public.goals g
+WHERE g.completed = true;
+
+-- Opening balance for whatever the counters hold beyond the goal history
+INSERT INTO public.point_events (user_id, source, user_points, ai_points, reason, created_at)
+SELECT p.user_id,
+       'manual_adjustment',
+       COALESCE(p.total_points, 0) - COALESCE(SUM(e.user_points), 0),
+       COALESCE(p.ai_points, 0) - COALESCE(SUM(e.ai_points), 0),
+       'Opening balance',
+       p.created_at
+FROM public.profiles p
+LEFT JOIN public.point_events e ON e.user_id = p.user_id
+GROUP BY p.user_id, p.total_points, p.ai_points, p.created_at
+HAVING COALESCE(p.total_points, 0) <> COALESCE(SUM(e.user_points), 0)
+    OR COALESCE(p.ai_points, 0) <> COALESCE(SUM(e.ai_points), 0);
+
+ALTER TABLE public.point_events ENABLE TRIGGER apply_point_event_trigger;
+
+-- Goal completion now credits the profile through the ledger
+CREATE OR REPLACE FUNCTION public.complete_goal(goal_id UUID)
+RETURNS TABLE(rule TEXT, user_points INTEGER, ai_points INTEGER, message TEXT) AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+BEGIN
+  -- Lock the goal so a second completion waits and then sees it completed
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = complete_goal.goal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR goal_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Goal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF goal_record.completed = true THEN
+    RAISE EXCEPTION 'Goal already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id;
+
+  rule_id := public.score_goal(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+  SELECT * INTO scored FROM public.scoring_rule(rule_id);
+
+  UPDATE public.goals g
+  SET completed = true,
+      completed_at = NOW(),
+      points_earned = scored.user_points,
+      ai_points_earned = scored.ai_points
+  WHERE g.id = goal_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+  VALUES (goal_record.user_id, goal_record.id, 'goal_completed', rule_id, scored.user_points, scored.ai_points, scored.message);
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Missed goals are recorded in the ledger too
+CREATE OR REPLACE FUNCTION public.process_missed_goal()
+RETURNS TRIGGER AS $$
+DECLARE
+  user_day_end_time TIME;
+  goal_deadline TIMESTAMP WITH TIME ZONE;
+  missed RECORD;
+  missed_rule TEXT;
+BEGIN
+  -- Only process if goal is not completed
+  IF NEW.completed = true THEN
+    RETURN NEW;
+  END IF;
+
+  -- Get user's day end time from profile
+  SELECT COALESCE(day_end_time, '23:59:00'::TIME) INTO user_day_end_time
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  -- Calculate the deadline based on goal type
+  IF NEW.goal_type = 'daily' THEN
+    -- For daily goals, deadline is the day_end_time on creation date
+    goal_deadline := (DATE(NEW.created_at AT TIME ZONE 'UTC') + user_day_end_time)::TIMESTAMP WITH TIME ZONE;
+  ELSIF NEW.due_date IS NOT NULL THEN
+    -- For goals with due date
+    IF NEW.due_time IS NOT NULL THEN
+      goal_deadline := (NEW.due_date + NEW.due_time)::TIMESTAMP WITH TIME ZONE;
+    ELSE
+      goal_deadline := (NEW.due_date + user_day_end_time)::TIMESTAMP WITH TIME ZONE;
+    END IF;
+  ELSE
+    -- No deadline set
+    RETURN NEW;
+  END IF;
+
+  -- Check if deadline has passed
+  IF NOW() > goal_deadline AND NEW.completed = false THEN
+    missed_rule := CASE WHEN NEW.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END;
+    SELECT * INTO missed FROM public.scoring_rule(missed_rule);
+
+    -- Mark as completed (missed) and award AI points
+    NEW.completed := true;
+    NEW.completed_at := NOW();
+    NEW.ai_points_earned := missed.ai_points;
+    NEW.points_earned := missed.user_points;
+
+    INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+    VALUES (NEW.user_id, NEW.id, 'goal_missed', missed_rule, missed.user_points, missed.ai_points, missed.message);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_all_overdue_goals()
+RETURNS void AS $$
+DECLARE
+  goal_record RECORD;
+  user_day_end_time TIME;
+  goal_deadline TIMESTAMP WITH TIME ZONE;
+  missed RECORD;
+  missed_rule TEXT;
+BEGIN
+  FOR goal_record IN
+    SELECT g.*, p.day_end_time as profile_day_end_time
+    FROM public.goals g
+    JOIN public.profiles p ON g.user_id = p.user_id
+    WHERE g.completed = false
+  LOOP
+    user_day_end_time := COALESCE(goal_record.profile_day_end_time, '23:59:00'::TIME);
+
+    -- Calculate deadline
+    IF goal_record.goal_type = 'daily' THEN
+      goal_deadline := (DATE(goal_record.created_at AT TIME ZONE 'UTC') + user_day_end_time)::TIMESTAMP WITH TIME ZONE;
+    ELSIF goal_record.due_date IS NOT NULL THEN
+      IF goal_record.due_time IS NOT NULL THEN
+        goal_deadline := (goal_record.due_date + goal_record.due_time)::TIMESTAMP WITH TIME ZONE;
+      ELSE
+        goal_deadline := (goal_record.due_date + user_day_end_time)::TIMESTAMP WITH TIME ZONE;
+      END IF;
+    ELSE
+      CONTINUE;
+    END IF;
+
+    -- If deadline passed, mark as missed
+    IF NOW() > goal_deadline THEN
+      missed_rule := CASE WHEN goal_record.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END;
+      SELECT * INTO missed FROM public.scoring_rule(missed_rule);
+
+      UPDATE public.goals
+      SET completed = true,
+          completed_at = NOW(),
+          ai_points_earned = missed.ai_points,
+          points_earned = missed.user_points
+      WHERE id = goal_record.id;
+
+      INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+      VALUES (goal_record.user_id, goal_record.id, 'goal_missed', missed_rule, missed.user_points, missed.ai_points, missed.message);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.point_events;
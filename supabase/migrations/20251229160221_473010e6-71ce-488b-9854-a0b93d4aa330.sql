@@ -0,0 +1,165 @@
+-- Store the signup timezone so deadlines are right from the first goal
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, username, timezone)
+  VALUES (
+    new.id,
+    new.raw_user_meta_data ->> 'username',
+    COALESCE(new.raw_user_meta_data ->> 'timezone', 'UTC')
+  );
+  RETURN new;
+END;
+$$;
+
+-- Absolute deadline of a goal in the user's IANA timezone, or NULL when it has none
+-- SQL counterpart of getGoalDeadline() in src/engine/game/deadlines.ts
+-- AT TIME ZONE resolves DST: wall times inside a spring-forward gap move past it
+CREATE OR REPLACE FUNCTION public.goal_deadline(
+  goal public.goals,
+  user_timezone TEXT,
+  user_day_end_time TIME
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+BEGIN
+  IF goal.goal_type = 'daily' THEN
+    -- Daily goals end at day_end_time on the local day they were created
+    RETURN ((goal.created_at AT TIME ZONE user_timezone)::DATE + user_day_end_time) AT TIME ZONE user_timezone;
+  END IF;
+
+  IF goal.due_date IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (goal.due_date + COALESCE(goal.due_time, user_day_end_time)) AT TIME ZONE user_timezone;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.score_goal(
+  goal public.goals,
+  completion_time TIMESTAMP WITH TIME ZONE,
+  user_timezone TEXT,
+  user_day_end_time TIME
+)
+RETURNS TEXT AS $$
+DECLARE
+  goal_day DATE;
+BEGIN
+  IF goal.goal_type = 'daily' THEN
+    IF goal.due_time IS NULL THEN
+      RETURN 'daily.onTimeCompletion';
+    END IF;
+
+    goal_day := (goal.created_at AT TIME ZONE user_timezone)::DATE;
+    IF completion_time < (goal_day + goal.due_time) AT TIME ZONE user_timezone THEN
+      RETURN 'daily.earlyCompletion';
+    END IF;
+    RETURN 'daily.onTimeCompletion';
+  END IF;
+
+  IF goal.due_date IS NULL THEN
+    RETURN 'longTerm.noDeadline';
+  END IF;
+
+  IF completion_time > public.goal_deadline(goal, user_timezone, user_day_end_time) THEN
+    RETURN 'longTerm.lateCompletion';
+  END IF;
+
+  -- An explicit due time rewards beating it; a bare due date only asks for on-time
+  IF goal.due_time IS NOT NULL THEN
+    RETURN 'longTerm.earlyCompletion';
+  END IF;
+  RETURN 'longTerm.onTimeCompletion';
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Missed-goal detection now uses the user's timezone instead of UTC
+CREATE OR REPLACE FUNCTION public.process_missed_goal()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile_record RECORD;
+  goal_deadline TIMESTAMP WITH TIME ZONE;
+  missed RECORD;
+  missed_rule TEXT;
+BEGIN
+  -- Only process if goal is not completed
+  IF NEW.completed = true THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(timezone, 'UTC') AS timezone,
+         COALESCE(day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  goal_deadline := public.goal_deadline(NEW, profile_record.timezone, profile_record.day_end_time);
+
+  -- No deadline set
+  IF goal_deadline IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check if deadline has passed
+  IF NOW() > goal_deadline THEN
+    missed_rule := CASE WHEN NEW.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END;
+    SELECT * INTO missed FROM public.scoring_rule(missed_rule);
+
+    -- Mark as completed (missed) and award AI points
+    NEW.completed := true;
+    NEW.completed_at := NOW();
+    NEW.ai_points_earned := missed.ai_points;
+    NEW.points_earned := missed.user_points;
+
+    INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+    VALUES (NEW.user_id, NEW.id, 'goal_missed', missed_rule, missed.user_points, missed.ai_points, missed.message);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_all_overdue_goals()
+RETURNS void AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  missed RECORD;
+  missed_rule TEXT;
+BEGIN
+  FOR goal_record IN
+    SELECT g.*
+    FROM public.goals g
+    WHERE g.completed = false
+  LOOP
+    SELECT COALESCE(timezone, 'UTC') AS timezone,
+           COALESCE(day_end_time, '23:59:00'::TIME) AS day_end_time
+    INTO profile_record
+    FROM public.profiles
+    WHERE user_id = goal_record.user_id;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    -- Goals without a deadline yield NULL and are skipped
+    IF NOW() > public.goal_deadline(goal_record, profile_record.timezone, profile_record.day_end_time) THEN
+      missed_rule := CASE WHEN goal_record.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END;
+      SELECT * INTO missed FROM public.scoring_rule(missed_rule);
+
+      UPDATE public.goals
+      SET completed = true,
+          completed_at = NOW(),
+          ai_points_earned = missed.ai_points,
+          points_earned = missed.user_points
+      WHERE id = goal_record.id;
+
+      INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+      VALUES (goal_record.user_id, goal_record.id, 'goal_missed', missed_rule, missed.user_points, missed.ai_points, missed.message);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,131 @@
+-- Recurring goal templates; each occurrence is materialised as its own daily goal
+CREATE TABLE public.goal_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  due_time TIME,
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'interval')),
+  by_weekday INTEGER[] CHECK (by_weekday <@ ARRAY[0, 1, 2, 3, 4, 5, 6]),
+  by_month_day INTEGER CHECK (by_month_day BETWEEN 1 AND 31),
+  interval_days INTEGER CHECK (interval_days >= 1),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  active BOOLEAN NOT NULL DEFAULT true,
+  last_materialized_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (frequency = 'weekly' AND cardinality(by_weekday) > 0) OR
+    (frequency = 'monthly' AND by_month_day IS NOT NULL) OR
+    (frequency = 'interval' AND interval_days IS NOT NULL)
+  )
+);
+
+ALTER TABLE public.goal_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own goal series"
+ON public.goal_series FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own goal series"
+ON public.goal_series FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goal series"
+ON public.goal_series FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goal series"
+ON public.goal_series FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_goal_series_updated_at
+  BEFORE UPDATE ON public.goal_series
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link occurrences to their series; one goal per series per day
+ALTER TABLE public.goals
+ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.goal_series(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS goals_series_occurrence_idx
+ON public.goals (series_id, occurrence_date)
+WHERE series_id IS NOT NULL;
+
+-- Whether a series has an occurrence on the given local date
+-- SQL counterpart of occursOn() in src/engine/game/recurrence.ts
+CREATE OR REPLACE FUNCTION public.series_occurs_on(series public.goal_series, target_date DATE)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF target_date < series.start_date THEN
+    RETURN false;
+  END IF;
+
+  RETURN CASE series.frequency
+    WHEN 'weekly' THEN EXTRACT(DOW FROM target_date)::INTEGER = ANY(series.by_weekday)
+    WHEN 'monthly' THEN EXTRACT(DAY FROM target_date)::INTEGER = series.by_month_day
+    WHEN 'interval' THEN (target_date - series.start_date) % series.interval_days = 0
+    ELSE false
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Create today's occurrences for a user's active series
+-- Safe to call repeatedly: the unique index makes each occurrence exactly-once
+CREATE OR REPLACE FUNCTION public.materialize_recurring_goals_for(target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  user_timezone TEXT;
+  local_day DATE;
+  series_record public.goal_series;
+  created_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(timezone, 'UTC') INTO user_timezone
+  FROM public.profiles
+  WHERE user_id = target_user_id;
+
+  local_day := (NOW() AT TIME ZONE COALESCE(user_timezone, 'UTC'))::DATE;
+
+  FOR series_record IN
+    SELECT * FROM public.goal_series s
+    WHERE s.user_id = target_user_id
+      AND s.active = true
+      AND (s.last_materialized_date IS NULL OR s.last_materialized_date < local_day)
+  LOOP
+    IF public.series_occurs_on(series_record, local_day) THEN
+      INSERT INTO public.goals (user_id, title, description, goal_type, due_time, series_id, occurrence_date)
+      VALUES (
+        series_record.user_id,
+        series_record.title,
+        series_record.description,
+        'daily',
+        series_record.due_time,
+        series_record.id,
+        local_day
+      )
+      ON CONFLICT (series_id, occurrence_date) WHERE series_id IS NOT NULL DO NOTHING;
+
+      IF FOUND THEN
+        created_count := created_count + 1;
+      END IF;
+    END IF;
+
+    UPDATE public.goal_series
+    SET last_materialized_date = local_day
+    WHERE id = series_record.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.materialize_recurring_goals_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.materialize_recurring_goals_for(UUID) FROM anon, authenticated;
+
+-- Client entry point: materialise for the signed-in user when their day starts
+CREATE OR REPLACE FUNCTION public.materialize_recurring_goals()
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN public.materialize_recurring_goals_for(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.materialize_recurring_goals() TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.goal_series;
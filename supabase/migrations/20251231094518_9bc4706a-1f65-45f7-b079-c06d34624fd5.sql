@@ -0,0 +1,158 @@
+-- Ordered subtasks for goals; ticking one before the deadline earns partial credit
+CREATE TABLE public.goal_checklist_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  goal_id UUID NOT NULL REFERENCES public.goals(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  completed BOOLEAN NOT NULL DEFAULT false,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  -- Set once credit is paid so unticking and re-ticking cannot farm points
+  credited BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX goal_checklist_items_goal_position_idx ON public.goal_checklist_items (goal_id, position);
+
+ALTER TABLE public.goal_checklist_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own checklist items"
+ON public.goal_checklist_items FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create checklist items on their own goals"
+ON public.goal_checklist_items FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (SELECT 1 FROM public.goals g WHERE g.id = goal_id AND g.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own checklist items"
+ON public.goal_checklist_items FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own checklist items"
+ON public.goal_checklist_items FOR DELETE USING (auth.uid() = user_id);
+
+-- Clients may rename and reorder; ticking goes through set_checklist_item_completed()
+REVOKE UPDATE ON public.goal_checklist_items FROM authenticated;
+GRANT UPDATE (title, position) ON public.goal_checklist_items TO authenticated;
+
+CREATE TRIGGER update_goal_checklist_items_updated_at
+  BEFORE UPDATE ON public.goal_checklist_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ledger gains a source for subtask credit
+ALTER TABLE public.point_events DROP CONSTRAINT IF EXISTS point_events_source_check;
+ALTER TABLE public.point_events ADD CONSTRAINT point_events_source_check
+  CHECK (source IN ('goal_completed', 'goal_missed', 'checklist_item', 'streak_bonus', 'manual_adjustment'));
+
+-- Add the checklist rule; keep in sync with SCORING_CONFIG in src/config/game/scoring.config.ts
+CREATE OR REPLACE FUNCTION public.scoring_rule(
+  rule_id TEXT,
+  OUT user_points INTEGER,
+  OUT ai_points INTEGER,
+  OUT message TEXT
+)
+AS $$
+  SELECT r.user_points, r.ai_points, r.message
+  FROM (VALUES
+    ('daily.earlyCompletion', 20, -5, 'Early completion! +20 points (AI loses 5)'),
+    ('daily.onTimeCompletion', 5, 5, 'Task completed! +5 points (AI also gets +5)'),
+    ('daily.missed', 0, 15, 'Missed goal! AI gains 15 points'),
+    ('longTerm.earlyCompletion', 20, -5, 'Early completion! +20 points (AI loses 5)'),
+    ('longTerm.onTimeCompletion', 10, 0, 'On-time completion! +10 points'),
+    ('longTerm.lateCompletion', 5, 5, 'Late completion! +5 points (AI gets +5)'),
+    ('longTerm.noDeadline', 10, 0, 'Goal completed! +10 points'),
+    ('longTerm.checklistItem', 2, 0, 'Subtask done! +2 points'),
+    ('longTerm.missed', 0, 15, 'Missed goal! AI gains 15 points')
+  ) AS r(id, user_points, ai_points, message)
+  WHERE r.id = rule_id;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Rule for ticking a subtask, or NULL once the goal's deadline has passed
+-- SQL counterpart of getChecklistItemRule() in src/engine/game/ScoringEngine.ts
+CREATE OR REPLACE FUNCTION public.score_checklist_item(
+  goal public.goals,
+  completion_time TIMESTAMP WITH TIME ZONE,
+  user_timezone TEXT,
+  user_day_end_time TIME
+)
+RETURNS TEXT AS $$
+DECLARE
+  deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+  deadline := public.goal_deadline(goal, user_timezone, user_day_end_time);
+
+  IF deadline IS NOT NULL AND completion_time > deadline THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN 'longTerm.checklistItem';
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Tick or untick a subtask, crediting the first on-time tick to the ledger
+CREATE OR REPLACE FUNCTION public.set_checklist_item_completed(item_id UUID, done BOOLEAN)
+RETURNS TABLE(rule TEXT, user_points INTEGER, ai_points INTEGER, message TEXT) AS $$
+DECLARE
+  item_record public.goal_checklist_items;
+  goal_record public.goals;
+  profile_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+BEGIN
+  SELECT * INTO item_record
+  FROM public.goal_checklist_items i
+  WHERE i.id = set_checklist_item_completed.item_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR item_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Checklist item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = item_record.goal_id;
+
+  IF goal_record.completed = true THEN
+    RAISE EXCEPTION 'Goal already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.goal_checklist_items i
+  SET completed = set_checklist_item_completed.done,
+      completed_at = CASE WHEN set_checklist_item_completed.done THEN NOW() ELSE NULL END
+  WHERE i.id = item_record.id;
+
+  IF NOT done OR item_record.credited THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = item_record.user_id;
+
+  rule_id := public.score_checklist_item(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+
+  IF rule_id IS NULL THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO scored FROM public.scoring_rule(rule_id);
+
+  UPDATE public.goal_checklist_items i
+  SET credited = true
+  WHERE i.id = item_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+  VALUES (item_record.user_id, goal_record.id, 'checklist_item', rule_id, scored.user_points, scored.ai_points, scored.message);
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.set_checklist_item_completed(UUID, BOOLEAN) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.goal_checklist_items;
@@ -0,0 +1,260 @@
+-- AI opponent personality chosen in Settings; see src/strategies/game
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS ai_opponent TEXT NOT NULL DEFAULT 'rival'
+  CHECK (ai_opponent IN ('sloth', 'rival', 'relentless'));
+
+-- Per-opponent scoring multipliers
+-- Keep in sync with OPPONENT_CONFIGS in src/config/game/opponents.config.ts
+CREATE OR REPLACE FUNCTION public.opponent_modifiers(
+  opponent TEXT,
+  OUT name TEXT,
+  OUT user_points_multiplier NUMERIC,
+  OUT ai_gain_multiplier NUMERIC
+)
+AS $$
+  SELECT o.name, o.user_points_multiplier, o.ai_gain_multiplier
+  FROM (VALUES
+    ('sloth', 'Sloth', 1::NUMERIC, 0.5::NUMERIC),
+    ('rival', 'Rival', 1::NUMERIC, 1::NUMERIC),
+    ('relentless', 'Relentless', 1.25::NUMERIC, 1.5::NUMERIC)
+  ) AS o(id, name, user_points_multiplier, ai_gain_multiplier)
+  WHERE o.id = COALESCE(opponent, 'rival');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- A scoring rule adjusted for the user's opponent
+-- SQL counterpart of DefaultGameStrategy.applyScoringModifiers()
+CREATE OR REPLACE FUNCTION public.opponent_scoring_rule(
+  rule_id TEXT,
+  target_user_id UUID,
+  OUT user_points INTEGER,
+  OUT ai_points INTEGER,
+  OUT message TEXT
+)
+AS $$
+DECLARE
+  base RECORD;
+  modifiers RECORD;
+BEGIN
+  SELECT * INTO base FROM public.scoring_rule(rule_id);
+
+  SELECT m.* INTO modifiers
+  FROM public.profiles p, public.opponent_modifiers(p.ai_opponent) m
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    SELECT * INTO modifiers FROM public.opponent_modifiers('rival');
+  END IF;
+
+  user_points := ROUND(base.user_points * modifiers.user_points_multiplier)::INTEGER;
+  ai_points := CASE
+    WHEN base.ai_points > 0 THEN ROUND(base.ai_points * modifiers.ai_gain_multiplier)::INTEGER
+    ELSE base.ai_points
+  END;
+  message := base.message;
+
+  IF user_points <> base.user_points OR ai_points <> base.ai_points THEN
+    message := format(
+      '%s (%s: you %s, AI %s)',
+      base.message,
+      modifiers.name,
+      CASE WHEN user_points > 0 THEN '+' ELSE '' END || user_points,
+      CASE WHEN ai_points > 0 THEN '+' ELSE '' END || ai_points
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Every scoring path now goes through the opponent's modifiers
+CREATE OR REPLACE FUNCTION public.complete_goal(goal_id UUID)
+RETURNS TABLE(rule TEXT, user_points INTEGER, ai_points INTEGER, message TEXT) AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+BEGIN
+  -- Lock the goal so a second completion waits and then sees it completed
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = complete_goal.goal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR goal_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Goal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF goal_record.completed = true THEN
+    RAISE EXCEPTION 'Goal already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id;
+
+  rule_id := public.score_goal(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+  SELECT * INTO scored FROM public.opponent_scoring_rule(rule_id, goal_record.user_id);
+
+  UPDATE public.goals g
+  SET completed = true,
+      completed_at = NOW(),
+      points_earned = scored.user_points,
+      ai_points_earned = scored.ai_points
+  WHERE g.id = goal_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+  VALUES (goal_record.user_id, goal_record.id, 'goal_completed', rule_id, scored.user_points, scored.ai_points, scored.message);
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.process_missed_goal()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile_record RECORD;
+  goal_deadline TIMESTAMP WITH TIME ZONE;
+  missed RECORD;
+  missed_rule TEXT;
+BEGIN
+  -- Only process if goal is not completed
+  IF NEW.completed = true THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(timezone, 'UTC') AS timezone,
+         COALESCE(day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles
+  WHERE user_id = NEW.user_id;
+
+  goal_deadline := public.goal_deadline(NEW, profile_record.timezone, profile_record.day_end_time);
+
+  -- No deadline set
+  IF goal_deadline IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Check if deadline has passed
+  IF NOW() > goal_deadline THEN
+    missed_rule := CASE WHEN NEW.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END;
+    SELECT * INTO missed FROM public.opponent_scoring_rule(missed_rule, NEW.user_id);
+
+    -- Mark as completed (missed) and award AI points
+    NEW.completed := true;
+    NEW.completed_at := NOW();
+    NEW.ai_points_earned := missed.ai_points;
+    NEW.points_earned := missed.user_points;
+
+    INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+    VALUES (NEW.user_id, NEW.id, 'goal_missed', missed_rule, missed.user_points, missed.ai_points, missed.message);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_all_overdue_goals()
+RETURNS void AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  missed RECORD;
+  missed_rule TEXT;
+BEGIN
+  FOR goal_record IN
+    SELECT g.*
+    FROM public.goals g
+    WHERE g.completed = false
+  LOOP
+    SELECT COALESCE(timezone, 'UTC') AS timezone,
+           COALESCE(day_end_time, '23:59:00'::TIME) AS day_end_time
+    INTO profile_record
+    FROM public.profiles
+    WHERE user_id = goal_record.user_id;
+
+    IF NOT FOUND THEN
+      CONTINUE;
+    END IF;
+
+    -- Goals without a deadline yield NULL and are skipped
+    IF NOW() > public.goal_deadline(goal_record, profile_record.timezone, profile_record.day_end_time) THEN
+      missed_rule := CASE WHEN goal_record.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END;
+      SELECT * INTO missed FROM public.opponent_scoring_rule(missed_rule, goal_record.user_id);
+
+      UPDATE public.goals
+      SET completed = true,
+          completed_at = NOW(),
+          ai_points_earned = missed.ai_points,
+          points_earned = missed.user_points
+      WHERE id = goal_record.id;
+
+      INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+      VALUES (goal_record.user_id, goal_record.id, 'goal_missed', missed_rule, missed.user_points, missed.ai_points, missed.message);
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_checklist_item_completed(item_id UUID, done BOOLEAN)
+RETURNS TABLE(rule TEXT, user_points INTEGER, ai_points INTEGER, message TEXT) AS $$
+DECLARE
+  item_record public.goal_checklist_items;
+  goal_record public.goals;
+  profile_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+BEGIN
+  SELECT * INTO item_record
+  FROM public.goal_checklist_items i
+  WHERE i.id = set_checklist_item_completed.item_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR item_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Checklist item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = item_record.goal_id;
+
+  IF goal_record.completed = true THEN
+    RAISE EXCEPTION 'Goal already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.goal_checklist_items i
+  SET completed = set_checklist_item_completed.done,
+      completed_at = CASE WHEN set_checklist_item_completed.done THEN NOW() ELSE NULL END
+  WHERE i.id = item_record.id;
+
+  IF NOT done OR item_record.credited THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = item_record.user_id;
+
+  rule_id := public.score_checklist_item(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+
+  IF rule_id IS NULL THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO scored FROM public.opponent_scoring_rule(rule_id, item_record.user_id);
+
+  UPDATE public.goal_checklist_items i
+  SET credited = true
+  WHERE i.id = item_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+  VALUES (item_record.user_id, goal_record.id, 'checklist_item', rule_id, scored.user_points, scored.ai_points, scored.message);
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,78 @@
+-- Difficulty preset chosen in Settings; scales the AI on top of the opponent's modifiers
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS difficulty TEXT NOT NULL DEFAULT 'normal'
+  CHECK (difficulty IN ('easy', 'normal', 'hard', 'nightmare'));
+
+-- Keep in sync with DIFFICULTY_CONFIGS in src/config/game/difficulty.config.ts
+CREATE OR REPLACE FUNCTION public.difficulty_modifiers(
+  difficulty TEXT,
+  OUT name TEXT,
+  OUT ai_gain_multiplier NUMERIC,
+  OUT missed_penalty_multiplier NUMERIC,
+  OUT points_to_win INTEGER
+)
+AS $$
+  SELECT d.name, d.ai_gain_multiplier, d.missed_penalty_multiplier, d.points_to_win
+  FROM (VALUES
+    ('easy', 'Easy', 0.5::NUMERIC, 0.5::NUMERIC, 60),
+    ('normal', 'Normal', 1::NUMERIC, 1::NUMERIC, 100),
+    ('hard', 'Hard', 1.25::NUMERIC, 1.5::NUMERIC, 150),
+    ('nightmare', 'Nightmare', 1.5::NUMERIC, 2::NUMERIC, 200)
+  ) AS d(id, name, ai_gain_multiplier, missed_penalty_multiplier, points_to_win)
+  WHERE d.id = COALESCE(difficulty, 'normal');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- A scoring rule adjusted for the user's opponent and difficulty
+-- SQL counterpart of DefaultGameStrategy.applyScoringModifiers()
+CREATE OR REPLACE FUNCTION public.opponent_scoring_rule(
+  rule_id TEXT,
+  target_user_id UUID,
+  OUT user_points INTEGER,
+  OUT ai_points INTEGER,
+  OUT message TEXT
+)
+AS $$
+DECLARE
+  base RECORD;
+  profile_record RECORD;
+  opponent_mods RECORD;
+  difficulty_mods RECORD;
+  ai_multiplier NUMERIC;
+  label TEXT;
+BEGIN
+  SELECT * INTO base FROM public.scoring_rule(rule_id);
+
+  SELECT p.ai_opponent, p.difficulty INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  SELECT * INTO opponent_mods FROM public.opponent_modifiers(profile_record.ai_opponent);
+  SELECT * INTO difficulty_mods FROM public.difficulty_modifiers(profile_record.difficulty);
+
+  ai_multiplier := opponent_mods.ai_gain_multiplier * CASE
+    WHEN rule_id LIKE '%.missed' THEN difficulty_mods.missed_penalty_multiplier
+    ELSE difficulty_mods.ai_gain_multiplier
+  END;
+
+  user_points := ROUND(base.user_points * opponent_mods.user_points_multiplier)::INTEGER;
+  ai_points := CASE
+    WHEN base.ai_points > 0 THEN ROUND(base.ai_points * ai_multiplier)::INTEGER
+    ELSE base.ai_points
+  END;
+  message := base.message;
+
+  IF user_points <> base.user_points OR ai_points <> base.ai_points THEN
+    label := CASE
+      WHEN COALESCE(profile_record.difficulty, 'normal') = 'normal' THEN opponent_mods.name
+      ELSE opponent_mods.name || ' · ' || difficulty_mods.name
+    END;
+    message := format(
+      '%s (%s: you %s, AI %s)',
+      base.message,
+      label,
+      CASE WHEN user_points > 0 THEN '+' ELSE '' END || user_points,
+      CASE WHEN ai_points > 0 THEN '+' ELSE '' END || ai_points
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
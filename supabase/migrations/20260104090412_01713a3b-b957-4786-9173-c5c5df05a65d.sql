@@ -0,0 +1,149 @@
+-- Day the last streak bonus was paid, so it is awarded once per local day
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS last_streak_bonus_date DATE;
+
+-- Bonus for the first completion of a day, growing with the streak
+-- SQL counterpart of getStreakBonus() in src/engine/game/ScoringEngine.ts
+CREATE OR REPLACE FUNCTION public.streak_bonus(current_streak INTEGER)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN COALESCE(current_streak, 0) < 2 THEN 0
+    ELSE LEAST(5 * (current_streak - 1), 30)
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Streaks follow the user's local day, and missed goals no longer extend them
+CREATE OR REPLACE FUNCTION public.update_streak_on_goal_complete()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile_record RECORD;
+  today_date DATE;
+  yesterday_date DATE;
+BEGIN
+  -- Only process when goal is marked as completed
+  IF NEW.completed = true AND (OLD.completed = false OR OLD.completed IS NULL) THEN
+    -- Missed goals are closed with no user points and an AI award
+    IF COALESCE(NEW.points_earned, 0) = 0 AND COALESCE(NEW.ai_points_earned, 0) > 0 THEN
+      RETURN NEW;
+    END IF;
+
+    -- Get current profile
+    SELECT * INTO profile_record FROM public.profiles WHERE user_id = NEW.user_id;
+
+    IF FOUND THEN
+      today_date := (NOW() AT TIME ZONE COALESCE(profile_record.timezone, 'UTC'))::DATE;
+      yesterday_date := today_date - 1;
+
+      -- Check streak logic
+      IF profile_record.last_goal_date = yesterday_date THEN
+        -- Consecutive day - increment streak
+        UPDATE public.profiles
+        SET 
+          current_streak = COALESCE(current_streak, 0) + 1,
+          longest_streak = GREATEST(COALESCE(longest_streak, 0), COALESCE(current_streak, 0) + 1),
+          last_goal_date = today_date,
+          updated_at = now()
+        WHERE user_id = NEW.user_id;
+      ELSIF profile_record.last_goal_date = today_date THEN
+        -- Same day - no change to streak count
+        NULL;
+      ELSE
+        -- Streak broken or first goal - reset to 1
+        UPDATE public.profiles
+        SET 
+          current_streak = 1,
+          longest_streak = GREATEST(COALESCE(longest_streak, 0), 1),
+          last_goal_date = today_date,
+          updated_at = now()
+        WHERE user_id = NEW.user_id;
+      END IF;
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- complete_goal also reports the streak bonus it paid, if any
+DROP FUNCTION IF EXISTS public.complete_goal(UUID);
+CREATE OR REPLACE FUNCTION public.complete_goal(goal_id UUID)
+RETURNS TABLE(
+  rule TEXT,
+  user_points INTEGER,
+  ai_points INTEGER,
+  message TEXT,
+  streak_bonus INTEGER,
+  streak_message TEXT
+) AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  streak_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+  local_day DATE;
+  bonus INTEGER := 0;
+  bonus_message TEXT;
+BEGIN
+  -- Lock the goal so a second completion waits and then sees it completed
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = complete_goal.goal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR goal_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Goal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF goal_record.completed = true THEN
+    RAISE EXCEPTION 'Goal already completed' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id;
+
+  rule_id := public.score_goal(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+  SELECT * INTO scored FROM public.opponent_scoring_rule(rule_id, goal_record.user_id);
+
+  -- The streak trigger runs as part of this update
+  UPDATE public.goals g
+  SET completed = true,
+      completed_at = NOW(),
+      points_earned = scored.user_points,
+      ai_points_earned = scored.ai_points
+  WHERE g.id = goal_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+  VALUES (goal_record.user_id, goal_record.id, 'goal_completed', rule_id, scored.user_points, scored.ai_points, scored.message);
+
+  -- First completion of the local day pays the streak bonus; the profile lock serialises tabs
+  local_day := (NOW() AT TIME ZONE profile_record.timezone)::DATE;
+
+  SELECT p.current_streak, p.last_streak_bonus_date INTO streak_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id
+  FOR UPDATE;
+
+  IF streak_record.last_streak_bonus_date IS DISTINCT FROM local_day THEN
+    bonus := public.streak_bonus(streak_record.current_streak);
+
+    UPDATE public.profiles p
+    SET last_streak_bonus_date = local_day
+    WHERE p.user_id = goal_record.user_id;
+
+    IF bonus > 0 THEN
+      bonus_message := format('%s-day streak! +%s bonus points', streak_record.current_streak, bonus);
+
+      INSERT INTO public.point_events (user_id, goal_id, source, user_points, ai_points, reason)
+      VALUES (goal_record.user_id, goal_record.id, 'streak_bonus', bonus, 0, bonus_message);
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message, bonus, bonus_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.complete_goal(UUID) TO authenticated;
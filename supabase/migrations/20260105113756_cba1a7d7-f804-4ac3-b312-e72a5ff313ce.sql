@@ -0,0 +1,178 @@
+-- One row per user per local day: the day's battle, settled at day_end_time
+CREATE TABLE public.daily_rounds (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  round_date DATE NOT NULL,
+  user_points INTEGER NOT NULL DEFAULT 0,
+  ai_points INTEGER NOT NULL DEFAULT 0,
+  passive_ai_points INTEGER NOT NULL DEFAULT 0,
+  points_to_win INTEGER NOT NULL,
+  winner TEXT NOT NULL CHECK (winner IN ('user', 'ai', 'draw')),
+  ai_opponent TEXT NOT NULL,
+  difficulty TEXT NOT NULL,
+  settled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, round_date)
+);
+
+-- Rounds are written by settlement only
+ALTER TABLE public.daily_rounds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own daily rounds"
+ON public.daily_rounds FOR SELECT USING (auth.uid() = user_id);
+
+-- AI points an opponent accrues over a full day in the arena
+-- SQL counterpart of IGameStrategy.getPassiveAiPoints(1)
+CREATE OR REPLACE FUNCTION public.opponent_passive_points(opponent TEXT, difficulty TEXT)
+RETURNS INTEGER AS $$
+  SELECT FLOOR(o.passive_points_per_day * d.ai_gain_multiplier)::INTEGER
+  FROM (VALUES
+    ('sloth', 6),
+    ('rival', 12),
+    ('relentless', 30)
+  ) AS o(id, passive_points_per_day),
+  public.difficulty_modifiers(difficulty) d
+  WHERE o.id = COALESCE(opponent, 'rival');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- A round runs from the previous day's day_end_time to this day's
+-- SQL counterpart of getRoundWindow() in src/engine/game/rounds.ts
+CREATE OR REPLACE FUNCTION public.round_window(
+  round_date DATE,
+  user_timezone TEXT,
+  user_day_end_time TIME,
+  OUT starts_at TIMESTAMP WITH TIME ZONE,
+  OUT ends_at TIMESTAMP WITH TIME ZONE
+)
+AS $$
+  SELECT ((round_date - 1) + user_day_end_time) AT TIME ZONE user_timezone,
+         (round_date + user_day_end_time) AT TIME ZONE user_timezone;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Snapshot one day's ledger into a round; a settled round is never rewritten
+CREATE OR REPLACE FUNCTION public.settle_daily_round(target_user_id UUID, target_date DATE)
+RETURNS void AS $$
+DECLARE
+  profile_record RECORD;
+  round_bounds RECORD;
+  totals RECORD;
+  passive INTEGER;
+  threshold INTEGER;
+  ai_total INTEGER;
+BEGIN
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time,
+         p.ai_opponent,
+         p.difficulty
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO round_bounds
+  FROM public.round_window(target_date, profile_record.timezone, profile_record.day_end_time);
+
+  SELECT COALESCE(SUM(e.user_points), 0)::INTEGER AS user_points,
+         COALESCE(SUM(e.ai_points), 0)::INTEGER AS ai_points
+  INTO totals
+  FROM public.point_events e
+  WHERE e.user_id = target_user_id
+    AND e.source <> 'manual_adjustment'
+    AND e.created_at > round_bounds.starts_at
+    AND e.created_at <= round_bounds.ends_at;
+
+  passive := public.opponent_passive_points(profile_record.ai_opponent, profile_record.difficulty);
+  SELECT d.points_to_win INTO threshold FROM public.difficulty_modifiers(profile_record.difficulty) d;
+  ai_total := totals.ai_points + passive;
+
+  INSERT INTO public.daily_rounds (
+    user_id, round_date, user_points, ai_points, passive_ai_points,
+    points_to_win, winner, ai_opponent, difficulty
+  )
+  VALUES (
+    target_user_id,
+    target_date,
+    totals.user_points,
+    ai_total,
+    passive,
+    threshold,
+    -- Mirrors DefaultGameStrategy.getGameState() at end of day
+    CASE
+      WHEN totals.user_points > ai_total AND totals.user_points >= threshold THEN 'user'
+      WHEN ai_total > totals.user_points THEN 'ai'
+      ELSE 'draw'
+    END,
+    COALESCE(profile_record.ai_opponent, 'rival'),
+    COALESCE(profile_record.difficulty, 'normal')
+  )
+  ON CONFLICT (user_id, round_date) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.settle_daily_round(UUID, DATE) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.settle_daily_round(UUID, DATE) FROM anon, authenticated;
+
+-- Settle every finished round since the last one, at most 60 days back
+CREATE OR REPLACE FUNCTION public.settle_daily_rounds_for(target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  profile_record RECORD;
+  local_today DATE;
+  last_finished DATE;
+  first_unsettled DATE;
+  round_day DATE;
+  settled_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time,
+         p.created_at
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  local_today := (NOW() AT TIME ZONE profile_record.timezone)::DATE;
+  last_finished := CASE
+    WHEN NOW() >= (local_today + profile_record.day_end_time) AT TIME ZONE profile_record.timezone THEN local_today
+    ELSE local_today - 1
+  END;
+
+  SELECT MAX(r.round_date) + 1 INTO first_unsettled
+  FROM public.daily_rounds r
+  WHERE r.user_id = target_user_id;
+
+  first_unsettled := GREATEST(
+    COALESCE(first_unsettled, (profile_record.created_at AT TIME ZONE profile_record.timezone)::DATE),
+    last_finished - 59
+  );
+
+  round_day := first_unsettled;
+  WHILE round_day <= last_finished LOOP
+    PERFORM public.settle_daily_round(target_user_id, round_day);
+    settled_count := settled_count + 1;
+    round_day := round_day + 1;
+  END LOOP;
+
+  RETURN settled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.settle_daily_rounds_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.settle_daily_rounds_for(UUID) FROM anon, authenticated;
+
+-- Client entry point: settle the signed-in user's finished rounds
+CREATE OR REPLACE FUNCTION public.settle_daily_rounds()
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN public.settle_daily_rounds_for(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.settle_daily_rounds() TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.daily_rounds;
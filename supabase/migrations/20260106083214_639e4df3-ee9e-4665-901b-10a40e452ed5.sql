@@ -0,0 +1,159 @@
+-- Settle missed goals on the server at each user's local day_end_time
+-- Replaces the Dashboard polling loop, so users who never open the app are still penalised
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- One row per user per settled day; the unique key makes each settlement exactly-once
+CREATE TABLE public.settlement_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  settlement_date DATE NOT NULL,
+  missed_goals INTEGER NOT NULL DEFAULT 0,
+  ai_points INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (user_id, settlement_date)
+);
+
+ALTER TABLE public.settlement_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settlement runs"
+ON public.settlement_runs FOR SELECT USING (auth.uid() = user_id);
+
+-- Mark one user's overdue goals as missed and award the AI its points
+-- The ledger entry is dated at the deadline so it lands in the round it was missed in
+CREATE OR REPLACE FUNCTION public.check_all_overdue_goals_for(
+  target_user_id UUID,
+  OUT missed_goals INTEGER,
+  OUT ai_points INTEGER
+)
+AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  deadline TIMESTAMP WITH TIME ZONE;
+  missed RECORD;
+  missed_rule TEXT;
+BEGIN
+  missed_goals := 0;
+  ai_points := 0;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR goal_record IN
+    SELECT g.*
+    FROM public.goals g
+    WHERE g.user_id = target_user_id
+      AND g.completed = false
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    deadline := public.goal_deadline(goal_record, profile_record.timezone, profile_record.day_end_time);
+
+    -- Goals without a deadline yield NULL and are skipped
+    IF NOW() > deadline THEN
+      missed_rule := CASE WHEN goal_record.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END;
+      SELECT * INTO missed FROM public.opponent_scoring_rule(missed_rule, goal_record.user_id);
+
+      UPDATE public.goals g
+      SET completed = true,
+          completed_at = NOW(),
+          ai_points_earned = missed.ai_points,
+          points_earned = missed.user_points
+      WHERE g.id = goal_record.id;
+
+      INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason, created_at)
+      VALUES (goal_record.user_id, goal_record.id, 'goal_missed', missed_rule, missed.user_points, missed.ai_points, missed.message, deadline);
+
+      missed_goals := missed_goals + 1;
+      ai_points := ai_points + missed.ai_points;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_all_overdue_goals_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.check_all_overdue_goals_for(UUID) FROM anon, authenticated;
+
+-- Sweep every user; kept for manual runs, the scheduled job settles per user
+CREATE OR REPLACE FUNCTION public.check_all_overdue_goals()
+RETURNS void AS $$
+DECLARE
+  profile_user_id UUID;
+BEGIN
+  FOR profile_user_id IN SELECT p.user_id FROM public.profiles p LOOP
+    PERFORM public.check_all_overdue_goals_for(profile_user_id);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.check_all_overdue_goals() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.check_all_overdue_goals() FROM anon, authenticated;
+
+-- Settle every user whose local day_end_time has passed since their last run
+-- Runs missed goals first so the day's round is snapshotted with its penalties
+CREATE OR REPLACE FUNCTION public.settle_due_users()
+RETURNS INTEGER AS $$
+DECLARE
+  profile_record RECORD;
+  run_id UUID;
+  result RECORD;
+  settled_count INTEGER := 0;
+BEGIN
+  FOR profile_record IN
+    SELECT p.user_id, due.settlement_date
+    FROM public.profiles p
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN NOW() >= (((NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE) + COALESCE(p.day_end_time, '23:59:00'::TIME))
+                      AT TIME ZONE COALESCE(p.timezone, 'UTC')
+          THEN (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE
+        ELSE (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE - 1
+      END AS settlement_date
+    ) due
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.settlement_runs r
+      WHERE r.user_id = p.user_id AND r.settlement_date = due.settlement_date
+    )
+  LOOP
+    INSERT INTO public.settlement_runs (user_id, settlement_date)
+    VALUES (profile_record.user_id, profile_record.settlement_date)
+    ON CONFLICT (user_id, settlement_date) DO NOTHING
+    RETURNING id INTO run_id;
+
+    -- Another run claimed this user first
+    IF run_id IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO result FROM public.check_all_overdue_goals_for(profile_record.user_id);
+    PERFORM public.settle_daily_rounds_for(profile_record.user_id);
+
+    UPDATE public.settlement_runs r
+    SET missed_goals = result.missed_goals,
+        ai_points = result.ai_points,
+        finished_at = NOW()
+    WHERE r.id = run_id;
+
+    settled_count := settled_count + 1;
+  END LOOP;
+
+  RETURN settled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.settle_due_users() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.settle_due_users() FROM anon, authenticated;
+
+-- Every minute, so each user is settled within a minute of their day_end_time
+SELECT cron.schedule(
+  'settle-due-users',
+  '* * * * *',
+  $$SELECT public.settle_due_users()$$
+);
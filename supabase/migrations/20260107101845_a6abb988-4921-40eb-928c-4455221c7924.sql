@@ -0,0 +1,270 @@
+-- Goals carry an explicit lifecycle instead of completed = true with points_earned = 0 for misses
+ALTER TABLE public.goals
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+  CHECK (status IN ('active', 'completed', 'missed', 'archived'));
+
+UPDATE public.goals g
+SET status = CASE
+  WHEN EXISTS (
+    SELECT 1 FROM public.point_events e
+    WHERE e.goal_id = g.id AND e.source = 'goal_missed'
+  ) THEN 'missed'
+  ELSE 'completed'
+END
+WHERE g.completed = true;
+
+CREATE INDEX IF NOT EXISTS goals_user_status_idx ON public.goals (user_id, status);
+
+-- Missed goals are settled explicitly by check_all_overdue_goals_for(), never as a side effect of an edit
+DROP TRIGGER IF EXISTS check_missed_goal_trigger ON public.goals;
+DROP FUNCTION IF EXISTS public.process_missed_goal();
+
+-- Streaks advance on real completions only
+CREATE OR REPLACE FUNCTION public.update_streak_on_goal_complete()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile_record RECORD;
+  today_date DATE;
+  yesterday_date DATE;
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    -- Get current profile
+    SELECT * INTO profile_record FROM public.profiles WHERE user_id = NEW.user_id;
+
+    IF FOUND THEN
+      today_date := (NOW() AT TIME ZONE COALESCE(profile_record.timezone, 'UTC'))::DATE;
+      yesterday_date := today_date - 1;
+
+      -- Check streak logic
+      IF profile_record.last_goal_date = yesterday_date THEN
+        -- Consecutive day - increment streak
+        UPDATE public.profiles
+        SET 
+          current_streak = COALESCE(current_streak, 0) + 1,
+          longest_streak = GREATEST(COALESCE(longest_streak, 0), COALESCE(current_streak, 0) + 1),
+          last_goal_date = today_date,
+          updated_at = now()
+        WHERE user_id = NEW.user_id;
+      ELSIF profile_record.last_goal_date = today_date THEN
+        -- Same day - no change to streak count
+        NULL;
+      ELSE
+        -- Streak broken or first goal - reset to 1
+        UPDATE public.profiles
+        SET 
+          current_streak = 1,
+          longest_streak = GREATEST(COALESCE(longest_streak, 0), 1),
+          last_goal_date = today_date,
+          updated_at = now()
+        WHERE user_id = NEW.user_id;
+      END IF;
+    END IF;
+  END IF;
+  
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.complete_goal(goal_id UUID)
+RETURNS TABLE(
+  rule TEXT,
+  user_points INTEGER,
+  ai_points INTEGER,
+  message TEXT,
+  streak_bonus INTEGER,
+  streak_message TEXT
+) AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  streak_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+  local_day DATE;
+  bonus INTEGER := 0;
+  bonus_message TEXT;
+BEGIN
+  -- Lock the goal so a second completion waits and then sees it completed
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = complete_goal.goal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR goal_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Goal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF goal_record.status <> 'active' THEN
+    RAISE EXCEPTION 'Goal is already %', goal_record.status USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id;
+
+  rule_id := public.score_goal(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+  SELECT * INTO scored FROM public.opponent_scoring_rule(rule_id, goal_record.user_id);
+
+  -- The streak trigger runs as part of this update
+  UPDATE public.goals g
+  SET status = 'completed',
+      completed_at = NOW(),
+      points_earned = scored.user_points,
+      ai_points_earned = scored.ai_points
+  WHERE g.id = goal_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+  VALUES (goal_record.user_id, goal_record.id, 'goal_completed', rule_id, scored.user_points, scored.ai_points, scored.message);
+
+  -- First completion of the local day pays the streak bonus; the profile lock serialises tabs
+  local_day := (NOW() AT TIME ZONE profile_record.timezone)::DATE;
+
+  SELECT p.current_streak, p.last_streak_bonus_date INTO streak_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id
+  FOR UPDATE;
+
+  IF streak_record.last_streak_bonus_date IS DISTINCT FROM local_day THEN
+    bonus := public.streak_bonus(streak_record.current_streak);
+
+    UPDATE public.profiles p
+    SET last_streak_bonus_date = local_day
+    WHERE p.user_id = goal_record.user_id;
+
+    IF bonus > 0 THEN
+      bonus_message := format('%s-day streak! +%s bonus points', streak_record.current_streak, bonus);
+
+      INSERT INTO public.point_events (user_id, goal_id, source, user_points, ai_points, reason)
+      VALUES (goal_record.user_id, goal_record.id, 'streak_bonus', bonus, 0, bonus_message);
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message, bonus, bonus_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Settlement closes overdue active goals as missed
+CREATE OR REPLACE FUNCTION public.check_all_overdue_goals_for(
+  target_user_id UUID,
+  OUT missed_goals INTEGER,
+  OUT ai_points INTEGER
+)
+AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  deadline TIMESTAMP WITH TIME ZONE;
+  missed RECORD;
+  missed_rule TEXT;
+BEGIN
+  missed_goals := 0;
+  ai_points := 0;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  FOR goal_record IN
+    SELECT g.*
+    FROM public.goals g
+    WHERE g.user_id = target_user_id
+      AND g.status = 'active'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    deadline := public.goal_deadline(goal_record, profile_record.timezone, profile_record.day_end_time);
+
+    -- Goals without a deadline yield NULL and are skipped
+    IF NOW() > deadline THEN
+      missed_rule := CASE WHEN goal_record.goal_type = 'daily' THEN 'daily.missed' ELSE 'longTerm.missed' END;
+      SELECT * INTO missed FROM public.opponent_scoring_rule(missed_rule, goal_record.user_id);
+
+      UPDATE public.goals g
+      SET status = 'missed',
+          completed_at = NOW(),
+          ai_points_earned = missed.ai_points,
+          points_earned = missed.user_points
+      WHERE g.id = goal_record.id;
+
+      INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason, created_at)
+      VALUES (goal_record.user_id, goal_record.id, 'goal_missed', missed_rule, missed.user_points, missed.ai_points, missed.message, deadline);
+
+      missed_goals := missed_goals + 1;
+      ai_points := ai_points + missed.ai_points;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Subtasks can only be ticked while their goal is active
+CREATE OR REPLACE FUNCTION public.set_checklist_item_completed(item_id UUID, done BOOLEAN)
+RETURNS TABLE(rule TEXT, user_points INTEGER, ai_points INTEGER, message TEXT) AS $$
+DECLARE
+  item_record public.goal_checklist_items;
+  goal_record public.goals;
+  profile_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+BEGIN
+  SELECT * INTO item_record
+  FROM public.goal_checklist_items i
+  WHERE i.id = set_checklist_item_completed.item_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR item_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Checklist item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = item_record.goal_id;
+
+  IF goal_record.status <> 'active' THEN
+    RAISE EXCEPTION 'Goal is already %', goal_record.status USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.goal_checklist_items i
+  SET completed = set_checklist_item_completed.done,
+      completed_at = CASE WHEN set_checklist_item_completed.done THEN NOW() ELSE NULL END
+  WHERE i.id = item_record.id;
+
+  IF NOT done OR item_record.credited THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = item_record.user_id;
+
+  rule_id := public.score_checklist_item(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+
+  IF rule_id IS NULL THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO scored FROM public.opponent_scoring_rule(rule_id, item_record.user_id);
+
+  UPDATE public.goal_checklist_items i
+  SET credited = true
+  WHERE i.id = item_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+  VALUES (item_record.user_id, goal_record.id, 'checklist_item', rule_id, scored.user_points, scored.ai_points, scored.message);
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- status is now the single source of truth
+ALTER TABLE public.goals DROP COLUMN IF EXISTS completed;
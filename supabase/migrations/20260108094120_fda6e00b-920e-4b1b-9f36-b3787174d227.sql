@@ -0,0 +1,115 @@
+-- complete_goal accepts the time a goal was completed on the device, so completions
+-- queued offline are scored as of when they happened rather than when they synced
+DROP FUNCTION IF EXISTS public.complete_goal(UUID);
+CREATE OR REPLACE FUNCTION public.complete_goal(goal_id UUID, completed_at TIMESTAMP WITH TIME ZONE DEFAULT NULL)
+RETURNS TABLE(
+  rule TEXT,
+  user_points INTEGER,
+  ai_points INTEGER,
+  message TEXT,
+  streak_bonus INTEGER,
+  streak_message TEXT
+) AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  streak_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+  completion_time TIMESTAMP WITH TIME ZONE;
+  deadline TIMESTAMP WITH TIME ZONE;
+  local_day DATE;
+  bonus INTEGER := 0;
+  bonus_message TEXT;
+BEGIN
+  -- Lock the goal so a second completion waits and then sees it completed
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = complete_goal.goal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR goal_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Goal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Device clocks are trusted only within the goal's lifetime and the last 7 days
+  completion_time := LEAST(
+    NOW(),
+    GREATEST(
+      COALESCE(complete_goal.completed_at, NOW()),
+      goal_record.created_at,
+      NOW() - INTERVAL '7 days'
+    )
+  );
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id;
+
+  IF goal_record.status = 'missed' THEN
+    -- Settlement ran while the completion sat in an offline queue
+    deadline := public.goal_deadline(goal_record, profile_record.timezone, profile_record.day_end_time);
+
+    IF deadline IS NULL OR completion_time > deadline THEN
+      RAISE EXCEPTION 'Goal was already missed' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- Completed before the deadline, so the penalty is reversed in the round it was charged to
+    INSERT INTO public.point_events (user_id, goal_id, source, user_points, ai_points, reason, created_at)
+    VALUES (
+      goal_record.user_id,
+      goal_record.id,
+      'goal_missed',
+      -COALESCE(goal_record.points_earned, 0),
+      -COALESCE(goal_record.ai_points_earned, 0),
+      'Missed penalty reversed: completed offline before the deadline',
+      deadline
+    );
+  ELSIF goal_record.status <> 'active' THEN
+    RAISE EXCEPTION 'Goal is already %', goal_record.status USING ERRCODE = 'P0001';
+  END IF;
+
+  rule_id := public.score_goal(goal_record, completion_time, profile_record.timezone, profile_record.day_end_time);
+  SELECT * INTO scored FROM public.opponent_scoring_rule(rule_id, goal_record.user_id);
+
+  -- The streak trigger runs as part of this update
+  UPDATE public.goals g
+  SET status = 'completed',
+      completed_at = completion_time,
+      points_earned = scored.user_points,
+      ai_points_earned = scored.ai_points
+  WHERE g.id = goal_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason, created_at)
+  VALUES (goal_record.user_id, goal_record.id, 'goal_completed', rule_id, scored.user_points, scored.ai_points, scored.message, completion_time);
+
+  -- First completion of the local day pays the streak bonus; the profile lock serialises tabs
+  local_day := (completion_time AT TIME ZONE profile_record.timezone)::DATE;
+
+  SELECT p.current_streak, p.last_streak_bonus_date INTO streak_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id
+  FOR UPDATE;
+
+  IF streak_record.last_streak_bonus_date IS NULL OR streak_record.last_streak_bonus_date < local_day THEN
+    bonus := public.streak_bonus(streak_record.current_streak);
+
+    UPDATE public.profiles p
+    SET last_streak_bonus_date = local_day
+    WHERE p.user_id = goal_record.user_id;
+
+    IF bonus > 0 THEN
+      bonus_message := format('%s-day streak! +%s bonus points', streak_record.current_streak, bonus);
+
+      INSERT INTO public.point_events (user_id, goal_id, source, user_points, ai_points, reason, created_at)
+      VALUES (goal_record.user_id, goal_record.id, 'streak_bonus', bonus, 0, bonus_message, completion_time);
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message, bonus, bonus_message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.complete_goal(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,4 @@
+-- Opt-in for local reminders (daily goal reminder and end-of-day escalation)
+-- Browser permission is per device; this flag records the user's choice across devices
+ALTER TABLE public.profiles
+  ADD COLUMN notifications_enabled BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,32 @@
+-- Account deletion removes every row the user owns, then the auth user itself
+-- Each table is cleared explicitly rather than trusting ON DELETE CASCADE from auth.users,
+-- so a user-owned table added later must be listed here too
+CREATE OR REPLACE FUNCTION public.delete_account_for(target_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.settlement_runs sr WHERE sr.user_id = target_user_id;
+  DELETE FROM public.daily_rounds dr WHERE dr.user_id = target_user_id;
+  DELETE FROM public.point_events pe WHERE pe.user_id = target_user_id;
+  DELETE FROM public.goal_checklist_items ci WHERE ci.user_id = target_user_id;
+  DELETE FROM public.goals g WHERE g.user_id = target_user_id;
+  DELETE FROM public.goal_series gs WHERE gs.user_id = target_user_id;
+  DELETE FROM public.profiles p WHERE p.user_id = target_user_id;
+  DELETE FROM auth.users u WHERE u.id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.delete_account_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.delete_account_for(UUID) FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.delete_account()
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM public.delete_account_for(auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.delete_account() TO authenticated;
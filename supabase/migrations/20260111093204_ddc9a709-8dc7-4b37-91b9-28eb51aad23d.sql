@@ -0,0 +1,116 @@
+-- User-defined goal categories (Work, Health, Learning, ...) with a display colour
+CREATE TABLE public.goal_categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  color TEXT NOT NULL CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Lets goals reference a category together with its owner
+  UNIQUE (id, user_id)
+);
+
+CREATE UNIQUE INDEX goal_categories_user_name_idx ON public.goal_categories (user_id, lower(name));
+
+ALTER TABLE public.goal_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own goal categories"
+ON public.goal_categories FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own goal categories"
+ON public.goal_categories FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own goal categories"
+ON public.goal_categories FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own goal categories"
+ON public.goal_categories FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_goal_categories_updated_at
+  BEFORE UPDATE ON public.goal_categories
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Category and free-form tags on goals and on the series that materialise them
+-- The foreign key includes user_id so a goal can only use its owner's categories;
+-- deleting a category leaves its goals uncategorised
+ALTER TABLE public.goals
+ADD COLUMN IF NOT EXISTS category_id UUID,
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(tags) <= 10),
+ADD CONSTRAINT goals_category_id_fkey FOREIGN KEY (category_id, user_id)
+  REFERENCES public.goal_categories(id, user_id) ON DELETE SET NULL (category_id);
+
+ALTER TABLE public.goal_series
+ADD COLUMN IF NOT EXISTS category_id UUID,
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(tags) <= 10),
+ADD CONSTRAINT goal_series_category_id_fkey FOREIGN KEY (category_id, user_id)
+  REFERENCES public.goal_categories(id, user_id) ON DELETE SET NULL (category_id);
+
+CREATE INDEX IF NOT EXISTS goals_category_idx ON public.goals (category_id) WHERE category_id IS NOT NULL;
+
+-- Occurrences inherit their series' category and tags
+CREATE OR REPLACE FUNCTION public.materialize_recurring_goals_for(target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  user_timezone TEXT;
+  local_day DATE;
+  series_record public.goal_series;
+  created_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(timezone, 'UTC') INTO user_timezone
+  FROM public.profiles
+  WHERE user_id = target_user_id;
+
+  local_day := (NOW() AT TIME ZONE COALESCE(user_timezone, 'UTC'))::DATE;
+
+  FOR series_record IN
+    SELECT * FROM public.goal_series s
+    WHERE s.user_id = target_user_id
+      AND s.active = true
+      AND (s.last_materialized_date IS NULL OR s.last_materialized_date < local_day)
+  LOOP
+    IF public.series_occurs_on(series_record, local_day) THEN
+      INSERT INTO public.goals (user_id, title, description, goal_type, due_time, series_id, occurrence_date, category_id, tags)
+      VALUES (
+        series_record.user_id,
+        series_record.title,
+        series_record.description,
+        'daily',
+        series_record.due_time,
+        series_record.id,
+        local_day,
+        series_record.category_id,
+        series_record.tags
+      )
+      ON CONFLICT (series_id, occurrence_date) WHERE series_id IS NOT NULL DO NOTHING;
+
+      IF FOUND THEN
+        created_count := created_count + 1;
+      END IF;
+    END IF;
+
+    UPDATE public.goal_series
+    SET last_materialized_date = local_day
+    WHERE id = series_record.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Account deletion now also clears categories; goals and series go first as they reference them
+CREATE OR REPLACE FUNCTION public.delete_account_for(target_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.settlement_runs sr WHERE sr.user_id = target_user_id;
+  DELETE FROM public.daily_rounds dr WHERE dr.user_id = target_user_id;
+  DELETE FROM public.point_events pe WHERE pe.user_id = target_user_id;
+  DELETE FROM public.goal_checklist_items ci WHERE ci.user_id = target_user_id;
+  DELETE FROM public.goals g WHERE g.user_id = target_user_id;
+  DELETE FROM public.goal_series gs WHERE gs.user_id = target_user_id;
+  DELETE FROM public.goal_categories gc WHERE gc.user_id = target_user_id;
+  DELETE FROM public.profiles p WHERE p.user_id = target_user_id;
+  DELETE FROM auth.users u WHERE u.id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.delete_account_for(UUID) FROM anon, authenticated;
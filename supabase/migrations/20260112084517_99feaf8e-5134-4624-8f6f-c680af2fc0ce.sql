@@ -0,0 +1,21 @@
+-- Uploaded profile pictures, one per user at avatars/<user_id>/avatar
+-- The bucket is public so avatars load as plain image URLs; only the owner can write to their folder
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 524288, ARRAY['image/webp', 'image/png', 'image/jpeg'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own avatar files"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can replace their own avatar"
+ON storage.objects FOR UPDATE
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects FOR DELETE
+USING (bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text);
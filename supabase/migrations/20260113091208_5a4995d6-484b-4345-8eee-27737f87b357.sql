@@ -0,0 +1,164 @@
+-- Cosmetics shop: hats, trails, victory dances and AI sprite skins bought with coins
+-- Coins are earned from goals alongside points, but spending them never touches the
+-- competitive score: the balance is points earned from goals minus coins spent
+
+-- Prices mirror src/config/game/cosmetics.config.ts; the client never sends a price
+CREATE OR REPLACE FUNCTION public.cosmetic_item(
+  item_id TEXT,
+  OUT slot TEXT,
+  OUT price INTEGER
+)
+AS $$
+  SELECT c.slot, c.price
+  FROM (VALUES
+    ('hat.cap', 'hat', 50),
+    ('hat.helmet', 'hat', 80),
+    ('hat.graduate', 'hat', 120),
+    ('hat.tophat', 'hat', 200),
+    ('trail.sparkles', 'trail', 75),
+    ('trail.hearts', 'trail', 100),
+    ('trail.fire', 'trail', 150),
+    ('trail.rainbow', 'trail', 250),
+    ('dance.bounce', 'dance', 120),
+    ('dance.wiggle', 'dance', 150),
+    ('dance.spin', 'dance', 200),
+    ('aiSprite.crimson', 'aiSprite', 150),
+    ('aiSprite.ghost', 'aiSprite', 200),
+    ('aiSprite.inverted', 'aiSprite', 250),
+    ('aiSprite.golden', 'aiSprite', 300)
+  ) AS c(id, slot, price)
+  WHERE c.id = item_id;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE TABLE public.cosmetic_inventory (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  slot TEXT NOT NULL CHECK (slot IN ('hat', 'trail', 'dance', 'aiSprite')),
+  price_paid INTEGER NOT NULL CHECK (price_paid >= 0),
+  equipped BOOLEAN NOT NULL DEFAULT false,
+  purchased_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, item_id)
+);
+
+-- At most one equipped item per slot
+CREATE UNIQUE INDEX cosmetic_inventory_equipped_slot_idx
+ON public.cosmetic_inventory (user_id, slot) WHERE equipped;
+
+-- Read your own inventory; purchases and equipping go through the functions below
+ALTER TABLE public.cosmetic_inventory ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own cosmetics"
+ON public.cosmetic_inventory FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.coin_balance_for(target_user_id UUID)
+RETURNS INTEGER AS $$
+  SELECT (
+    COALESCE((
+      SELECT SUM(GREATEST(e.user_points, 0))
+      FROM public.point_events e
+      WHERE e.user_id = target_user_id
+        AND e.source IN ('goal_completed', 'checklist_item', 'streak_bonus')
+    ), 0)
+    - COALESCE((
+      SELECT SUM(i.price_paid)
+      FROM public.cosmetic_inventory i
+      WHERE i.user_id = target_user_id
+    ), 0)
+  )::INTEGER;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.coin_balance_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.coin_balance_for(UUID) FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.coin_balance()
+RETURNS INTEGER AS $$
+  SELECT public.coin_balance_for(auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.coin_balance() TO authenticated;
+
+-- Buy an item and return the coins left
+CREATE OR REPLACE FUNCTION public.purchase_cosmetic(item_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  buyer UUID := auth.uid();
+  item RECORD;
+  balance INTEGER;
+BEGIN
+  SELECT * INTO item FROM public.cosmetic_item(purchase_cosmetic.item_id);
+
+  IF buyer IS NULL OR item.slot IS NULL THEN
+    RAISE EXCEPTION 'Cosmetic not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the profile so two tabs cannot both spend the same coins
+  PERFORM 1 FROM public.profiles p WHERE p.user_id = buyer FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.cosmetic_inventory i
+    WHERE i.user_id = buyer AND i.item_id = purchase_cosmetic.item_id
+  ) THEN
+    RAISE EXCEPTION 'You already own this item' USING ERRCODE = 'P0001';
+  END IF;
+
+  balance := public.coin_balance_for(buyer);
+  IF balance < item.price THEN
+    RAISE EXCEPTION 'Not enough coins' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.cosmetic_inventory (user_id, item_id, slot, price_paid)
+  VALUES (buyer, purchase_cosmetic.item_id, item.slot, item.price);
+
+  RETURN balance - item.price;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.purchase_cosmetic(TEXT) TO authenticated;
+
+-- Equip an owned item, replacing whatever was in its slot, or take it off
+CREATE OR REPLACE FUNCTION public.equip_cosmetic(item_id TEXT, equip BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  owned public.cosmetic_inventory;
+BEGIN
+  SELECT * INTO owned
+  FROM public.cosmetic_inventory i
+  WHERE i.user_id = auth.uid() AND i.item_id = equip_cosmetic.item_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cosmetic not owned' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF equip THEN
+    UPDATE public.cosmetic_inventory i
+    SET equipped = false
+    WHERE i.user_id = owned.user_id AND i.slot = owned.slot AND i.equipped AND i.item_id <> owned.item_id;
+  END IF;
+
+  UPDATE public.cosmetic_inventory i
+  SET equipped = equip_cosmetic.equip
+  WHERE i.user_id = owned.user_id AND i.item_id = owned.item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.equip_cosmetic(TEXT, BOOLEAN) TO authenticated;
+
+-- Account deletion now also clears the cosmetics inventory
+CREATE OR REPLACE FUNCTION public.delete_account_for(target_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.settlement_runs sr WHERE sr.user_id = target_user_id;
+  DELETE FROM public.daily_rounds dr WHERE dr.user_id = target_user_id;
+  DELETE FROM public.point_events pe WHERE pe.user_id = target_user_id;
+  DELETE FROM public.cosmetic_inventory inv WHERE inv.user_id = target_user_id;
+  DELETE FROM public.goal_checklist_items ci WHERE ci.user_id = target_user_id;
+  DELETE FROM public.goals g WHERE g.user_id = target_user_id;
+  DELETE FROM public.goal_series gs WHERE gs.user_id = target_user_id;
+  DELETE FROM public.goal_categories gc WHERE gc.user_id = target_user_id;
+  DELETE FROM public.profiles p WHERE p.user_id = target_user_id;
+  DELETE FROM auth.users u WHERE u.id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.delete_account_for(UUID) FROM anon, authenticated;
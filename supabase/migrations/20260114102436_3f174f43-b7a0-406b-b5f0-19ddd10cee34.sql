@@ -0,0 +1,39 @@
+-- Achievements: badges unlocked from goal and round history
+-- The catalogue and its rules live in src/config/game/achievements.config.ts; the
+-- client evaluates them and records each unlock here once
+
+CREATE TABLE public.user_achievements (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  achievement_id TEXT NOT NULL,
+  unlocked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, achievement_id)
+);
+
+-- Unlocks are permanent: they can be recorded but never changed or taken back
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own achievements"
+ON public.user_achievements FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can unlock their own achievements"
+ON public.user_achievements FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Account deletion now includes achievements
+CREATE OR REPLACE FUNCTION public.delete_account_for(target_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.settlement_runs sr WHERE sr.user_id = target_user_id;
+  DELETE FROM public.daily_rounds dr WHERE dr.user_id = target_user_id;
+  DELETE FROM public.point_events pe WHERE pe.user_id = target_user_id;
+  DELETE FROM public.user_achievements ua WHERE ua.user_id = target_user_id;
+  DELETE FROM public.cosmetic_inventory inv WHERE inv.user_id = target_user_id;
+  DELETE FROM public.goal_checklist_items ci WHERE ci.user_id = target_user_id;
+  DELETE FROM public.goals g WHERE g.user_id = target_user_id;
+  DELETE FROM public.goal_series gs WHERE gs.user_id = target_user_id;
+  DELETE FROM public.goal_categories gc WHERE gc.user_id = target_user_id;
+  DELETE FROM public.profiles p WHERE p.user_id = target_user_id;
+  DELETE FROM auth.users u WHERE u.id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.delete_account_for(UUID) FROM anon, authenticated;
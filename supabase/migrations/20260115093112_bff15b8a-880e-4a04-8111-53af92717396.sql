@@ -0,0 +1,286 @@
+-- Friends: invites by username, a weekly leaderboard and head-to-head rounds
+-- Friends never read each other's profiles or ledgers; they see usernames, avatars,
+-- themes and scores through the functions below and the player_stats table
+
+CREATE TABLE public.friendships (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  requester_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  addressee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  CHECK (requester_id <> addressee_id)
+);
+
+-- One connection per pair, whichever of them asked
+CREATE UNIQUE INDEX friendships_pair_idx
+ON public.friendships (LEAST(requester_id, addressee_id), GREATEST(requester_id, addressee_id));
+
+-- Either side can see the connection and end it (declining, cancelling or unfriending);
+-- invites and acceptance go through the functions below
+ALTER TABLE public.friendships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own friendships"
+ON public.friendships FOR SELECT USING (auth.uid() IN (requester_id, addressee_id));
+
+CREATE POLICY "Users can delete their own friendships"
+ON public.friendships FOR DELETE USING (auth.uid() IN (requester_id, addressee_id));
+
+CREATE OR REPLACE FUNCTION public.is_friend_of(other_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.friendships f
+    WHERE f.status = 'accepted'
+      AND ((f.requester_id = auth.uid() AND f.addressee_id = other_user_id)
+        OR (f.requester_id = other_user_id AND f.addressee_id = auth.uid()))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Invite a player by username; accepts instead if they already invited the caller
+CREATE OR REPLACE FUNCTION public.send_friend_request(friend_username TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  caller UUID := auth.uid();
+  matches UUID[];
+  target UUID;
+  existing RECORD;
+BEGIN
+  SELECT array_agg(p.user_id) INTO matches
+  FROM public.profiles p
+  WHERE lower(p.username) = lower(btrim(friend_username));
+
+  IF matches IS NULL THEN
+    RAISE EXCEPTION 'No player goes by that username' USING ERRCODE = 'P0002';
+  END IF;
+  IF array_length(matches, 1) > 1 THEN
+    RAISE EXCEPTION 'Several players share that username' USING ERRCODE = 'P0001';
+  END IF;
+
+  target := matches[1];
+  IF target = caller THEN
+    RAISE EXCEPTION 'You cannot add yourself' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO existing
+  FROM public.friendships f
+  WHERE (f.requester_id = caller AND f.addressee_id = target)
+     OR (f.requester_id = target AND f.addressee_id = caller)
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF existing.status = 'accepted' THEN
+      RAISE EXCEPTION 'You are already friends' USING ERRCODE = 'P0001';
+    END IF;
+    IF existing.requester_id = caller THEN
+      RAISE EXCEPTION 'Invite already sent' USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.friendships f
+    SET status = 'accepted', accepted_at = now()
+    WHERE f.id = existing.id;
+    RETURN 'accepted';
+  END IF;
+
+  INSERT INTO public.friendships (requester_id, addressee_id)
+  VALUES (caller, target);
+  RETURN 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.send_friend_request(TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.accept_friend_request(request_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.friendships f
+  SET status = 'accepted', accepted_at = now()
+  WHERE f.id = request_id
+    AND f.addressee_id = auth.uid()
+    AND f.status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.accept_friend_request(UUID) TO authenticated;
+
+-- The caller's friends and open invites, with only the public side of each profile
+CREATE OR REPLACE FUNCTION public.friend_list()
+RETURNS TABLE (
+  friendship_id UUID,
+  friend_id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  avatar_type TEXT,
+  background_theme TEXT,
+  status TEXT,
+  incoming BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE
+) AS $$
+  SELECT f.id,
+         p.user_id,
+         p.username,
+         p.avatar_url,
+         p.avatar_type,
+         p.background_theme,
+         f.status,
+         f.addressee_id = auth.uid(),
+         f.created_at
+  FROM public.friendships f
+  JOIN public.profiles p
+    ON p.user_id = CASE WHEN f.requester_id = auth.uid() THEN f.addressee_id ELSE f.requester_id END
+  WHERE auth.uid() IN (f.requester_id, f.addressee_id)
+  ORDER BY f.created_at;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.friend_list() TO authenticated;
+
+-- Points in the round in progress and in the week it belongs to (Monday to Sunday by
+-- round date), counted like the dashboard: ledger points without opening balances
+CREATE OR REPLACE FUNCTION public.player_scores_for(
+  target_user_id UUID,
+  OUT round_points INTEGER,
+  OUT week_points INTEGER
+)
+AS $$
+DECLARE
+  profile_record RECORD;
+  local_today DATE;
+  current_round DATE;
+  round_bounds RECORD;
+  week_starts_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  round_points := 0;
+  week_points := 0;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  local_today := (NOW() AT TIME ZONE profile_record.timezone)::DATE;
+  current_round := CASE
+    WHEN NOW() > (local_today + profile_record.day_end_time) AT TIME ZONE profile_record.timezone THEN local_today + 1
+    ELSE local_today
+  END;
+
+  SELECT * INTO round_bounds
+  FROM public.round_window(current_round, profile_record.timezone, profile_record.day_end_time);
+
+  SELECT w.starts_at INTO week_starts_at
+  FROM public.round_window(
+    date_trunc('week', current_round)::DATE,
+    profile_record.timezone,
+    profile_record.day_end_time
+  ) w;
+
+  SELECT COALESCE(SUM(e.user_points) FILTER (WHERE e.created_at > round_bounds.starts_at), 0)::INTEGER,
+         COALESCE(SUM(e.user_points), 0)::INTEGER
+  INTO round_points, week_points
+  FROM public.point_events e
+  WHERE e.user_id = target_user_id
+    AND e.source <> 'manual_adjustment'
+    AND e.created_at > week_starts_at
+    AND e.created_at <= round_bounds.ends_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.player_scores_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.player_scores_for(UUID) FROM anon, authenticated;
+
+-- The caller and their friends, best week first
+CREATE OR REPLACE FUNCTION public.friend_leaderboard()
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  avatar_url TEXT,
+  avatar_type TEXT,
+  background_theme TEXT,
+  round_points INTEGER,
+  week_points INTEGER
+) AS $$
+  SELECT p.user_id,
+         p.username,
+         p.avatar_url,
+         p.avatar_type,
+         p.background_theme,
+         s.round_points,
+         s.week_points
+  FROM public.profiles p
+  CROSS JOIN LATERAL public.player_scores_for(p.user_id) s
+  WHERE p.user_id = auth.uid() OR public.is_friend_of(p.user_id)
+  ORDER BY s.week_points DESC, p.username;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.friend_leaderboard() TO authenticated;
+
+-- Scores as of a player's last ledger entry, published to realtime so friends hear about it
+-- They go stale when a round or week rolls over, so clients only take a change here as the cue to
+-- refetch friend_leaderboard(), which computes the scores as of now
+CREATE TABLE public.player_stats (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  round_points INTEGER NOT NULL DEFAULT 0,
+  week_points INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.player_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and their friends' stats"
+ON public.player_stats FOR SELECT USING (auth.uid() = user_id OR public.is_friend_of(user_id));
+
+CREATE OR REPLACE FUNCTION public.refresh_player_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.player_stats (user_id, round_points, week_points, updated_at)
+  SELECT NEW.user_id, s.round_points, s.week_points, now()
+  FROM public.player_scores_for(NEW.user_id) s
+  ON CONFLICT (user_id) DO UPDATE
+  SET round_points = EXCLUDED.round_points,
+      week_points = EXCLUDED.week_points,
+      updated_at = EXCLUDED.updated_at;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_player_stats_on_point_event
+  AFTER INSERT ON public.point_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_player_stats();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.player_stats;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.friendships;
+
+-- Head-to-head: the friend whose live score replaces the AI's in the arena
+ALTER TABLE public.profiles
+ADD COLUMN rival_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Account deletion now includes friendships and live scores
+CREATE OR REPLACE FUNCTION public.delete_account_for(target_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.settlement_runs sr WHERE sr.user_id = target_user_id;
+  DELETE FROM public.daily_rounds dr WHERE dr.user_id = target_user_id;
+  DELETE FROM public.point_events pe WHERE pe.user_id = target_user_id;
+  DELETE FROM public.player_stats ps WHERE ps.user_id = target_user_id;
+  DELETE FROM public.friendships fr WHERE target_user_id IN (fr.requester_id, fr.addressee_id);
+  DELETE FROM public.user_achievements ua WHERE ua.user_id = target_user_id;
+  DELETE FROM public.cosmetic_inventory inv WHERE inv.user_id = target_user_id;
+  DELETE FROM public.goal_checklist_items ci WHERE ci.user_id = target_user_id;
+  DELETE FROM public.goals g WHERE g.user_id = target_user_id;
+  DELETE FROM public.goal_series gs WHERE gs.user_id = target_user_id;
+  DELETE FROM public.goal_categories gc WHERE gc.user_id = target_user_id;
+  DELETE FROM public.profiles p WHERE p.user_id = target_user_id;
+  DELETE FROM auth.users u WHERE u.id = target_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.delete_account_for(UUID) FROM anon, authenticated;
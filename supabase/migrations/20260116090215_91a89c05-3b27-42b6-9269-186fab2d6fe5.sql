@@ -0,0 +1,4 @@
+-- reconcile_profile_points() rewrites any user's totals; like the other per-user helpers it is
+-- only for server-side callers
+REVOKE ALL ON FUNCTION public.reconcile_profile_points(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.reconcile_profile_points(UUID) FROM anon, authenticated;
@@ -0,0 +1,92 @@
+-- Subtask credit is capped per goal: the credited flag lives on the item row, which the client can
+-- delete and re-create, so the ledger is counted instead
+-- Keep in sync with SCORING_CONFIG.checklist.creditedItemsPerGoal in src/config/game/scoring.config.ts
+CREATE OR REPLACE FUNCTION public.set_checklist_item_completed(item_id UUID, done BOOLEAN)
+RETURNS TABLE(rule TEXT, user_points INTEGER, ai_points INTEGER, message TEXT) AS $$
+DECLARE
+  item_record public.goal_checklist_items;
+  goal_record public.goals;
+  profile_record RECORD;
+  scored RECORD;
+  rule_id TEXT;
+  credited_items INTEGER;
+BEGIN
+  SELECT * INTO item_record
+  FROM public.goal_checklist_items i
+  WHERE i.id = set_checklist_item_completed.item_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR item_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Checklist item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Locked so concurrent ticks on the same goal count each other's credit
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = item_record.goal_id
+  FOR UPDATE;
+
+  IF goal_record.goal_type <> 'long_term' THEN
+    RAISE EXCEPTION 'Only long-term goals have subtasks' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF goal_record.status <> 'active' THEN
+    RAISE EXCEPTION 'Goal is already %', goal_record.status USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.goal_checklist_items i
+  SET completed = set_checklist_item_completed.done,
+      completed_at = CASE WHEN set_checklist_item_completed.done THEN NOW() ELSE NULL END
+  WHERE i.id = item_record.id;
+
+  IF NOT done OR item_record.credited THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO credited_items
+  FROM public.point_events e
+  WHERE e.goal_id = goal_record.id AND e.source = 'checklist_item';
+
+  IF credited_items >= 5 THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = item_record.user_id;
+
+  rule_id := public.score_checklist_item(goal_record, NOW(), profile_record.timezone, profile_record.day_end_time);
+
+  IF rule_id IS NULL THEN
+    RETURN QUERY SELECT NULL::TEXT, 0, 0, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT * INTO scored FROM public.opponent_scoring_rule(rule_id, item_record.user_id);
+
+  UPDATE public.goal_checklist_items i
+  SET credited = true
+  WHERE i.id = item_record.id;
+
+  INSERT INTO public.point_events (user_id, goal_id, source, rule_id, user_points, ai_points, reason)
+  VALUES (item_record.user_id, goal_record.id, 'checklist_item', rule_id, scored.user_points, scored.ai_points, scored.message);
+
+  RETURN QUERY SELECT rule_id, scored.user_points, scored.ai_points, scored.message;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Subtasks only belong on long-term goals that are still in play
+DROP POLICY IF EXISTS "Users can create checklist items on their own goals" ON public.goal_checklist_items;
+
+CREATE POLICY "Users can create checklist items on their own goals"
+ON public.goal_checklist_items FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND
+  EXISTS (
+    SELECT 1 FROM public.goals g
+    WHERE g.id = goal_id AND g.user_id = auth.uid() AND g.goal_type = 'long_term' AND g.status = 'active'
+  )
+);
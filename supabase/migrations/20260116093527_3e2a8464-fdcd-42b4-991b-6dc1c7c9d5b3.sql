@@ -0,0 +1,53 @@
+-- Close overdue goals before settling so a round settled from the client, ahead of the cron run,
+-- still snapshots that day's missed penalties; settle_daily_round() never revisits a round
+CREATE OR REPLACE FUNCTION public.settle_daily_rounds_for(target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  profile_record RECORD;
+  local_today DATE;
+  last_finished DATE;
+  first_unsettled DATE;
+  round_day DATE;
+  settled_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time,
+         p.created_at
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.check_all_overdue_goals_for(target_user_id);
+
+  local_today := (NOW() AT TIME ZONE profile_record.timezone)::DATE;
+  last_finished := CASE
+    WHEN NOW() >= (local_today + profile_record.day_end_time) AT TIME ZONE profile_record.timezone THEN local_today
+    ELSE local_today - 1
+  END;
+
+  SELECT MAX(r.round_date) + 1 INTO first_unsettled
+  FROM public.daily_rounds r
+  WHERE r.user_id = target_user_id;
+
+  first_unsettled := GREATEST(
+    COALESCE(first_unsettled, (profile_record.created_at AT TIME ZONE profile_record.timezone)::DATE),
+    last_finished - 59
+  );
+
+  round_day := first_unsettled;
+  WHILE round_day <= last_finished LOOP
+    PERFORM public.settle_daily_round(target_user_id, round_day);
+    settled_count := settled_count + 1;
+    round_day := round_day + 1;
+  END LOOP;
+
+  RETURN settled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.settle_daily_rounds_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.settle_daily_rounds_for(UUID) FROM anon, authenticated;
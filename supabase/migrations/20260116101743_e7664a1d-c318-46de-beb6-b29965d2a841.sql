@@ -0,0 +1,82 @@
+-- An overdue goal can't have its deadline moved, or the missed penalty could be put off forever
+-- Guards every update, so the edit dialog's direct writes are covered as well as reschedule_goal()
+CREATE OR REPLACE FUNCTION public.prevent_overdue_deadline_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile_record RECORD;
+  old_deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF OLD.status <> 'active' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = OLD.user_id;
+
+  old_deadline := public.goal_deadline(OLD, profile_record.timezone, profile_record.day_end_time);
+
+  IF old_deadline IS NOT NULL
+    AND old_deadline < NOW()
+    AND public.goal_deadline(NEW, profile_record.timezone, profile_record.day_end_time) IS DISTINCT FROM old_deadline
+  THEN
+    RAISE EXCEPTION 'Goal is past its deadline and can no longer be rescheduled' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prevent_overdue_deadline_change_trigger
+  BEFORE UPDATE OF goal_type, due_date, due_time ON public.goals
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_overdue_deadline_change();
+
+-- Move an open long-term goal to another due date that is still ahead
+CREATE OR REPLACE FUNCTION public.reschedule_goal(goal_id UUID, due_date DATE)
+RETURNS void AS $$
+DECLARE
+  goal_record public.goals;
+  profile_record RECORD;
+  new_deadline TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT * INTO goal_record
+  FROM public.goals g
+  WHERE g.id = reschedule_goal.goal_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR goal_record.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Goal not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF goal_record.goal_type <> 'long_term' THEN
+    RAISE EXCEPTION 'Only long-term goals can be rescheduled' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF goal_record.status <> 'active' THEN
+    RAISE EXCEPTION 'Goal is already %', goal_record.status USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = goal_record.user_id;
+
+  new_deadline := (reschedule_goal.due_date + COALESCE(goal_record.due_time, profile_record.day_end_time))
+    AT TIME ZONE profile_record.timezone;
+
+  IF new_deadline < NOW() THEN
+    RAISE EXCEPTION 'Goals can only be moved to a deadline that is still ahead' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- prevent_overdue_deadline_change() refuses the move once the current deadline has passed
+  UPDATE public.goals g
+  SET due_date = reschedule_goal.due_date,
+      updated_at = NOW()
+  WHERE g.id = goal_record.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.reschedule_goal(UUID, DATE) TO authenticated;
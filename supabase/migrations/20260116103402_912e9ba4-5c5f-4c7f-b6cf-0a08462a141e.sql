@@ -0,0 +1,13 @@
+-- profiles.avatar_url holds the picture's path in the avatars bucket plus a cache-busting version,
+-- never a full URL, so friends' clients can only ever load the owner's own upload
+-- The client builds the public URL; see avatarPublicUrl() in src/lib/avatar.ts
+UPDATE public.profiles
+SET avatar_url = CASE
+  WHEN avatar_url ~ ('/storage/v1/object/public/avatars/' || user_id::text || '/avatar\?v=[0-9]+$')
+    THEN regexp_replace(avatar_url, '^.*/storage/v1/object/public/avatars/', '')
+  ELSE NULL
+END
+WHERE avatar_url IS NOT NULL;
+
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_avatar_url_check
+  CHECK (avatar_url IS NULL OR avatar_url ~ ('^' || user_id::text || '/avatar\?v=[0-9]+$'));
@@ -0,0 +1,35 @@
+-- Unlocks go through unlock_achievements(), which only records ids from the catalogue
+DROP POLICY IF EXISTS "Users can unlock their own achievements" ON public.user_achievements;
+
+-- Record the signed-in user's unlocks, returning only the ones that are new
+-- Keep the ids in sync with ACHIEVEMENTS in src/config/game/achievements.config.ts
+CREATE OR REPLACE FUNCTION public.unlock_achievements(achievement_ids TEXT[])
+RETURNS TABLE(achievement_id TEXT, unlocked_at TIMESTAMP WITH TIME ZONE) AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(unlock_achievements.achievement_ids) AS requested(id)
+    WHERE requested.id NOT IN (
+      'first-goal', 'completions-50', 'completions-250',
+      'early-10', 'early-50',
+      'dawn-1', 'dawn-10',
+      'streak-7', 'streak-60',
+      'round-win-1', 'round-win-30',
+      'win-streak-3', 'win-streak-7',
+      'perfect-month'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Unknown achievement' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- A second tab racing for the same unlock inserts nothing, so only one of them announces it
+  RETURN QUERY
+  INSERT INTO public.user_achievements AS ua (user_id, achievement_id)
+  SELECT DISTINCT auth.uid(), requested.id
+  FROM unnest(unlock_achievements.achievement_ids) AS requested(id)
+  ON CONFLICT ON CONSTRAINT user_achievements_pkey DO NOTHING
+  RETURNING ua.achievement_id, ua.unlocked_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.unlock_achievements(TEXT[]) TO authenticated;
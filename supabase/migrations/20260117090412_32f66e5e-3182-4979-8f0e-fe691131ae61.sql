@@ -0,0 +1,4 @@
+-- Clients may edit a goal's details; status, points and timestamps are only written by
+-- complete_goal(), the missed-goal settlement and the other server-side functions
+REVOKE UPDATE ON public.goals FROM authenticated;
+GRANT UPDATE (title, description, due_date, due_time, category_id, tags, updated_at) ON public.goals TO authenticated;
@@ -0,0 +1,7 @@
+-- A goal's status is server-owned: new goals always start active, and only complete_goal() and
+-- check_all_overdue_goals_for() move them on. Updates are already limited to the editable columns;
+-- inserts get the same treatment so a goal can't be created completed, missed or with points
+-- created_at stays client-supplied so a daily goal made offline belongs to the day it was made
+REVOKE INSERT ON public.goals FROM authenticated;
+GRANT INSERT (id, user_id, title, description, goal_type, due_date, due_time, category_id, tags, created_at)
+  ON public.goals TO authenticated;
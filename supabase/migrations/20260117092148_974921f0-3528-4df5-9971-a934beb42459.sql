@@ -0,0 +1,17 @@
+-- Clients may change their settings; points, streaks and the streak bonus date are only written by
+-- the point_events ledger, the streak trigger and the other server-side functions
+REVOKE UPDATE ON public.profiles FROM authenticated;
+GRANT UPDATE (
+  username,
+  avatar_url,
+  avatar_type,
+  background_theme,
+  timezone,
+  day_end_time,
+  notification_time,
+  notifications_enabled,
+  sound_enabled,
+  ai_opponent,
+  difficulty,
+  rival_id
+) ON public.profiles TO authenticated;
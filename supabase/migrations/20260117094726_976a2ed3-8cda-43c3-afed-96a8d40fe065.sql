@@ -0,0 +1,106 @@
+-- settle_due_users() evaluates every profile's time zone in one statement, so a single unknown
+-- zone would fail the cron run for all users; zones are checked against pg_timezone_names on write
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(zone_name TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_catalog.pg_timezone_names z WHERE z.name = zone_name);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.validate_profile_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.timezone IS NOT NULL AND NOT public.is_valid_timezone(NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.timezone USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+UPDATE public.profiles p
+SET timezone = 'UTC'
+WHERE p.timezone IS NOT NULL AND NOT public.is_valid_timezone(p.timezone);
+
+CREATE TRIGGER validate_profile_timezone_trigger
+  BEFORE INSERT OR UPDATE OF timezone ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_profile_timezone();
+
+-- The zone in the signup metadata comes straight from the browser; fall back to UTC rather than
+-- fail the signup when it isn't one Postgres knows
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  signup_timezone TEXT := new.raw_user_meta_data ->> 'timezone';
+BEGIN
+  INSERT INTO public.profiles (user_id, username, timezone)
+  VALUES (
+    new.id,
+    new.raw_user_meta_data ->> 'username',
+    CASE WHEN public.is_valid_timezone(signup_timezone) THEN signup_timezone ELSE 'UTC' END
+  );
+  RETURN new;
+END;
+$$;
+
+-- Settle every user whose local day_end_time has passed since their last run
+-- Runs missed goals first so the day's round is snapshotted with its penalties
+-- Each user settles in its own subtransaction, so one failure is logged and retried next minute
+-- instead of aborting the run for everyone
+CREATE OR REPLACE FUNCTION public.settle_due_users()
+RETURNS INTEGER AS $$
+DECLARE
+  profile_record RECORD;
+  run_id UUID;
+  result RECORD;
+  settled_count INTEGER := 0;
+BEGIN
+  FOR profile_record IN
+    SELECT p.user_id, due.settlement_date
+    FROM public.profiles p
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN NOW() >= (((NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE) + COALESCE(p.day_end_time, '23:59:00'::TIME))
+                      AT TIME ZONE COALESCE(p.timezone, 'UTC')
+          THEN (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE
+        ELSE (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE - 1
+      END AS settlement_date
+    ) due
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.settlement_runs r
+      WHERE r.user_id = p.user_id AND r.settlement_date = due.settlement_date
+    )
+  LOOP
+    BEGIN
+      INSERT INTO public.settlement_runs (user_id, settlement_date)
+      VALUES (profile_record.user_id, profile_record.settlement_date)
+      ON CONFLICT (user_id, settlement_date) DO NOTHING
+      RETURNING id INTO run_id;
+
+      -- Another run claimed this user first
+      IF run_id IS NULL THEN
+        CONTINUE;
+      END IF;
+
+      SELECT * INTO result FROM public.check_all_overdue_goals_for(profile_record.user_id);
+      PERFORM public.settle_daily_rounds_for(profile_record.user_id);
+
+      UPDATE public.settlement_runs r
+      SET missed_goals = result.missed_goals,
+          ai_points = result.ai_points,
+          finished_at = NOW()
+      WHERE r.id = run_id;
+
+      settled_count := settled_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'settle_due_users: settling user % failed: %', profile_record.user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN settled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.settle_due_users() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.settle_due_users() FROM anon, authenticated;
@@ -0,0 +1,7 @@
+-- A daily goal's deadline comes from created_at, so moving it is a reschedule too; clients can no
+-- longer write it, but the guard covers every column goal_deadline() reads
+DROP TRIGGER IF EXISTS prevent_overdue_deadline_change_trigger ON public.goals;
+
+CREATE TRIGGER prevent_overdue_deadline_change_trigger
+  BEFORE UPDATE OF goal_type, due_date, due_time, created_at ON public.goals
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_overdue_deadline_change();
@@ -0,0 +1,141 @@
+-- Achievements are earned on the server's own reading of the history, so a client can no longer
+-- name the ones it wants
+DROP FUNCTION IF EXISTS public.unlock_achievements(TEXT[]);
+
+-- The round an instant belongs to: rounds end at day_end_time, inclusive
+-- Keep in sync with getRoundDate in src/engine/game/rounds.ts
+CREATE OR REPLACE FUNCTION public.round_date_of(
+  at_time TIMESTAMP WITH TIME ZONE,
+  user_timezone TEXT,
+  user_day_end_time TIME
+)
+RETURNS DATE AS $$
+  SELECT CASE
+    WHEN (at_time AT TIME ZONE user_timezone)::TIME <= user_day_end_time THEN (at_time AT TIME ZONE user_timezone)::DATE
+    ELSE (at_time AT TIME ZONE user_timezone)::DATE + 1
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Measure the signed-in user's goals and rounds against the catalogue and record what they have
+-- earned, returning only the unlocks that are new
+-- Metrics follow getAchievementProgress in src/engine/game/achievements.ts; keep the ids and targets
+-- in sync with ACHIEVEMENTS in src/config/game/achievements.config.ts
+CREATE OR REPLACE FUNCTION public.unlock_achievements()
+RETURNS TABLE(achievement_id TEXT, unlocked_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  profile_record RECORD;
+  completion_count INTEGER;
+  early_count INTEGER;
+  dawn_count INTEGER;
+  longest_streak_days INTEGER;
+  round_win_count INTEGER;
+  longest_win_streak INTEGER;
+  perfect_month_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = auth.uid();
+
+  -- Early completions are the ones score_goal() rewards as early; dawn is before EARLY_BIRD_HOUR
+  SELECT COUNT(*)::INTEGER,
+         COUNT(*) FILTER (
+           WHERE public.score_goal(g, g.completed_at, profile_record.timezone, profile_record.day_end_time) LIKE '%.earlyCompletion'
+         )::INTEGER,
+         COUNT(*) FILTER (WHERE EXTRACT(HOUR FROM g.completed_at AT TIME ZONE profile_record.timezone) < 7)::INTEGER
+  INTO completion_count, early_count, dawn_count
+  FROM public.goals g
+  WHERE g.user_id = auth.uid()
+    AND g.status = 'completed'
+    AND g.completed_at IS NOT NULL;
+
+  -- Longest run of consecutive calendar days with a completion, like the streak trigger
+  SELECT COALESCE(MAX(run.days), 0)::INTEGER INTO longest_streak_days
+  FROM (
+    SELECT COUNT(*) AS days
+    FROM (
+      SELECT d.day, d.day - (ROW_NUMBER() OVER (ORDER BY d.day))::INTEGER AS island
+      FROM (
+        SELECT DISTINCT (g.completed_at AT TIME ZONE profile_record.timezone)::DATE AS day
+        FROM public.goals g
+        WHERE g.user_id = auth.uid()
+          AND g.status = 'completed'
+          AND g.completed_at IS NOT NULL
+      ) d
+    ) numbered
+    GROUP BY numbered.island
+  ) run;
+
+  -- Rounds won, and the longest run of them on consecutive days
+  SELECT COUNT(*)::INTEGER INTO round_win_count
+  FROM public.daily_rounds r
+  WHERE r.user_id = auth.uid() AND r.winner = 'user';
+
+  SELECT COALESCE(MAX(run.days), 0)::INTEGER INTO longest_win_streak
+  FROM (
+    SELECT COUNT(*) AS days
+    FROM (
+      SELECT r.round_date, r.round_date - (ROW_NUMBER() OVER (ORDER BY r.round_date))::INTEGER AS island
+      FROM public.daily_rounds r
+      WHERE r.user_id = auth.uid() AND r.winner = 'user'
+    ) numbered
+    GROUP BY numbered.island
+  ) run;
+
+  -- Finished months with a completion and no misses; completions count in the round they happened,
+  -- misses in the round of their deadline
+  SELECT COUNT(*)::INTEGER INTO perfect_month_count
+  FROM (
+    SELECT date_trunc('month', settled.round_date) AS month
+    FROM (
+      SELECT g.status,
+             public.round_date_of(
+               CASE
+                 WHEN g.status = 'completed' THEN g.completed_at
+                 ELSE public.goal_deadline(g, profile_record.timezone, profile_record.day_end_time)
+               END,
+               profile_record.timezone,
+               profile_record.day_end_time
+             ) AS round_date
+      FROM public.goals g
+      WHERE g.user_id = auth.uid()
+        AND ((g.status = 'completed' AND g.completed_at IS NOT NULL) OR g.status = 'missed')
+    ) settled
+    WHERE settled.round_date < date_trunc('month', public.round_date_of(NOW(), profile_record.timezone, profile_record.day_end_time))
+    GROUP BY 1
+    HAVING COUNT(*) FILTER (WHERE settled.status = 'completed') > 0
+       AND COUNT(*) FILTER (WHERE settled.status = 'missed') = 0
+  ) months;
+
+  -- A second tab racing for the same unlock inserts nothing, so only one of them announces it
+  RETURN QUERY
+  INSERT INTO public.user_achievements AS ua (user_id, achievement_id)
+  SELECT auth.uid(), rule.id
+  FROM (VALUES
+    ('first-goal', completion_count >= 1),
+    ('completions-50', completion_count >= 50),
+    ('completions-250', completion_count >= 250),
+    ('early-10', early_count >= 10),
+    ('early-50', early_count >= 50),
+    ('dawn-1', dawn_count >= 1),
+    ('dawn-10', dawn_count >= 10),
+    ('streak-7', longest_streak_days >= 7),
+    ('streak-60', longest_streak_days >= 60),
+    ('round-win-1', round_win_count >= 1),
+    ('round-win-30', round_win_count >= 30),
+    ('win-streak-3', longest_win_streak >= 3),
+    ('win-streak-7', longest_win_streak >= 7),
+    ('perfect-month', perfect_month_count >= 1)
+  ) AS rule(id, earned)
+  WHERE rule.earned
+  ON CONFLICT ON CONSTRAINT user_achievements_pkey DO NOTHING
+  RETURNING ua.achievement_id, ua.unlocked_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.unlock_achievements() TO authenticated;
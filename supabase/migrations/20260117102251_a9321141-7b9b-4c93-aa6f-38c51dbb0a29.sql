@@ -0,0 +1,152 @@
+-- Recurring goals follow the user's rounds rather than the server's calendar: "today" is the round
+-- in progress in the profile's timezone, which rolls over at day_end_time
+CREATE OR REPLACE FUNCTION public.materialize_recurring_goals_for(target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  profile_record RECORD;
+  local_day DATE;
+  occurrence_created_at TIMESTAMP WITH TIME ZONE;
+  series_record public.goal_series;
+  created_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  local_day := public.round_date_of(NOW(), profile_record.timezone, profile_record.day_end_time);
+
+  -- A daily goal's deadline is day_end_time on the local day it was created, so an occurrence made
+  -- after day_end_time for the next round is dated from that round's local midnight
+  occurrence_created_at := GREATEST(NOW(), local_day::TIMESTAMP AT TIME ZONE profile_record.timezone);
+
+  FOR series_record IN
+    SELECT * FROM public.goal_series s
+    WHERE s.user_id = target_user_id
+      AND s.active = true
+      AND (s.last_materialized_date IS NULL OR s.last_materialized_date < local_day)
+  LOOP
+    IF public.series_occurs_on(series_record, local_day) THEN
+      INSERT INTO public.goals (user_id, title, description, goal_type, due_time, series_id, occurrence_date, category_id, tags, created_at)
+      VALUES (
+        series_record.user_id,
+        series_record.title,
+        series_record.description,
+        'daily',
+        series_record.due_time,
+        series_record.id,
+        local_day,
+        series_record.category_id,
+        series_record.tags,
+        occurrence_created_at
+      )
+      ON CONFLICT (series_id, occurrence_date) WHERE series_id IS NOT NULL DO NOTHING;
+
+      IF FOUND THEN
+        created_count := created_count + 1;
+      END IF;
+    END IF;
+
+    UPDATE public.goal_series
+    SET last_materialized_date = local_day
+    WHERE id = series_record.id;
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A series starts in the round in progress for its owner, not on the server's current date
+ALTER TABLE public.goal_series ALTER COLUMN start_date DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION public.set_goal_series_start_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.start_date IS NULL THEN
+    SELECT public.round_date_of(
+             NOW(),
+             COALESCE(p.timezone, 'UTC'),
+             COALESCE(p.day_end_time, '23:59:00'::TIME)
+           )
+    INTO NEW.start_date
+    FROM public.profiles p
+    WHERE p.user_id = NEW.user_id;
+
+    NEW.start_date := COALESCE(NEW.start_date, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_goal_series_start_date_trigger
+  BEFORE INSERT ON public.goal_series
+  FOR EACH ROW EXECUTE FUNCTION public.set_goal_series_start_date();
+
+-- Settle every user whose local day_end_time has passed since their last run
+-- Runs missed goals first so the day's round is snapshotted with its penalties, then creates the
+-- new round's recurring goals so they are waiting whether or not the app is open
+-- Each user settles in its own subtransaction, so one failure is logged and retried next minute
+-- instead of aborting the run for everyone
+CREATE OR REPLACE FUNCTION public.settle_due_users()
+RETURNS INTEGER AS $$
+DECLARE
+  profile_record RECORD;
+  run_id UUID;
+  result RECORD;
+  settled_count INTEGER := 0;
+BEGIN
+  FOR profile_record IN
+    SELECT p.user_id, due.settlement_date
+    FROM public.profiles p
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN NOW() >= (((NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE) + COALESCE(p.day_end_time, '23:59:00'::TIME))
+                      AT TIME ZONE COALESCE(p.timezone, 'UTC')
+          THEN (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE
+        ELSE (NOW() AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE - 1
+      END AS settlement_date
+    ) due
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.settlement_runs r
+      WHERE r.user_id = p.user_id AND r.settlement_date = due.settlement_date
+    )
+  LOOP
+    BEGIN
+      INSERT INTO public.settlement_runs (user_id, settlement_date)
+      VALUES (profile_record.user_id, profile_record.settlement_date)
+      ON CONFLICT (user_id, settlement_date) DO NOTHING
+      RETURNING id INTO run_id;
+
+      -- Another run claimed this user first
+      IF run_id IS NULL THEN
+        CONTINUE;
+      END IF;
+
+      SELECT * INTO result FROM public.check_all_overdue_goals_for(profile_record.user_id);
+      PERFORM public.settle_daily_rounds_for(profile_record.user_id);
+      PERFORM public.materialize_recurring_goals_for(profile_record.user_id);
+
+      UPDATE public.settlement_runs r
+      SET missed_goals = result.missed_goals,
+          ai_points = result.ai_points,
+          finished_at = NOW()
+      WHERE r.id = run_id;
+
+      settled_count := settled_count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'settle_due_users: settling user % failed: %', profile_record.user_id, SQLERRM;
+    END;
+  END LOOP;
+
+  RETURN settled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.settle_due_users() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.settle_due_users() FROM anon, authenticated;
@@ -0,0 +1,74 @@
+-- Opponent and difficulty are locked for the round in progress: settle_daily_round() and
+-- opponent_scoring_rule() read them off the profile, so switching just before the round closes
+-- would rescore the whole day. Clients ask for a change, which applies once the round is settled
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS next_ai_opponent TEXT
+  CHECK (next_ai_opponent IN ('sloth', 'rival', 'relentless')),
+ADD COLUMN IF NOT EXISTS next_difficulty TEXT
+  CHECK (next_difficulty IN ('easy', 'normal', 'hard', 'nightmare'));
+
+REVOKE UPDATE (ai_opponent, difficulty) ON public.profiles FROM authenticated;
+GRANT UPDATE (next_ai_opponent, next_difficulty) ON public.profiles TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.settle_daily_rounds_for(target_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  profile_record RECORD;
+  local_today DATE;
+  last_finished DATE;
+  first_unsettled DATE;
+  round_day DATE;
+  settled_count INTEGER := 0;
+BEGIN
+  SELECT COALESCE(p.timezone, 'UTC') AS timezone,
+         COALESCE(p.day_end_time, '23:59:00'::TIME) AS day_end_time,
+         p.created_at
+  INTO profile_record
+  FROM public.profiles p
+  WHERE p.user_id = target_user_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  PERFORM public.check_all_overdue_goals_for(target_user_id);
+
+  local_today := (NOW() AT TIME ZONE profile_record.timezone)::DATE;
+  last_finished := CASE
+    WHEN NOW() >= (local_today + profile_record.day_end_time) AT TIME ZONE profile_record.timezone THEN local_today
+    ELSE local_today - 1
+  END;
+
+  SELECT MAX(r.round_date) + 1 INTO first_unsettled
+  FROM public.daily_rounds r
+  WHERE r.user_id = target_user_id;
+
+  first_unsettled := GREATEST(
+    COALESCE(first_unsettled, (profile_record.created_at AT TIME ZONE profile_record.timezone)::DATE),
+    last_finished - 59
+  );
+
+  round_day := first_unsettled;
+  WHILE round_day <= last_finished LOOP
+    PERFORM public.settle_daily_round(target_user_id, round_day);
+    settled_count := settled_count + 1;
+    round_day := round_day + 1;
+  END LOOP;
+
+  -- The rounds above were fought under the old settings; a change asked for since starts now
+  IF settled_count > 0 THEN
+    UPDATE public.profiles p
+    SET ai_opponent = COALESCE(p.next_ai_opponent, p.ai_opponent),
+        difficulty = COALESCE(p.next_difficulty, p.difficulty),
+        next_ai_opponent = NULL,
+        next_difficulty = NULL
+    WHERE p.user_id = target_user_id
+      AND (p.next_ai_opponent IS NOT NULL OR p.next_difficulty IS NOT NULL);
+  END IF;
+
+  RETURN settled_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.settle_daily_rounds_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.settle_daily_rounds_for(UUID) FROM anon, authenticated;